@@ -0,0 +1,202 @@
+// Scripted page actions (click, type, press, scroll, wait, run JS) that run
+// after navigation and before the page is captured. Used to get past "Load
+// more" buttons, tabs, cookie walls and search forms.
+
+export const MAX_ACTIONS = 20;
+export const MAX_ACTION_WAIT_MS = 30000;
+const DEFAULT_SELECTOR_TIMEOUT_MS = 10000;
+const MAX_SCRIPT_LENGTH = 10000;
+
+export type PageAction =
+  | { type: 'click'; selector: string }
+  | { type: 'type'; selector: string; text: string }
+  | { type: 'press'; key: string }
+  | { type: 'scroll'; direction: 'up' | 'down'; amount?: number }
+  | { type: 'waitForSelector'; selector: string; timeout?: number }
+  | { type: 'wait'; milliseconds: number }
+  | { type: 'executeJavaScript'; script: string };
+
+export interface ActionResult {
+  type: PageAction['type'];
+  success: boolean;
+  skipped?: boolean;
+  result?: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+// JSON schema fragment for the tools' `actions` parameter.
+export const ACTIONS_SCHEMA = {
+  type: 'array',
+  description:
+    'Steps to run in order after the page loads and before it is captured. ' +
+    'Each step is an object with a "type": click {selector}, type {selector, text}, ' +
+    'press {key}, scroll {direction: "up"|"down", amount?}, waitForSelector {selector, timeout?}, ' +
+    'wait {milliseconds}, executeJavaScript {script}.',
+  items: {
+    type: 'object',
+    properties: {
+      type: {
+        type: 'string',
+        enum: ['click', 'type', 'press', 'scroll', 'waitForSelector', 'wait', 'executeJavaScript'],
+      },
+      selector: { type: 'string' },
+      text: { type: 'string' },
+      key: { type: 'string' },
+      direction: { type: 'string', enum: ['up', 'down'] },
+      amount: { type: 'number' },
+      timeout: { type: 'number' },
+      milliseconds: { type: 'number' },
+      script: { type: 'string' },
+    },
+    required: ['type'],
+  },
+  maxItems: MAX_ACTIONS,
+};
+
+function requireString(step: Record<string, unknown>, field: string, index: number): string {
+  const value = step[field];
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new Error(`Invalid action ${index + 1} (${step.type}): "${field}" must be a non-empty string`);
+  }
+  return value;
+}
+
+function optionalNumber(step: Record<string, unknown>, field: string, index: number): number | undefined {
+  const value = step[field];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new Error(`Invalid action ${index + 1} (${step.type}): "${field}" must be a non-negative number`);
+  }
+  return value;
+}
+
+// Validate untrusted tool input into a typed action list. Throws a descriptive
+// error naming the offending step. `undefined` means no actions.
+export function parseActions(input: unknown): PageAction[] {
+  if (input === undefined) return [];
+  if (!Array.isArray(input)) {
+    throw new Error('Invalid actions: must be an array');
+  }
+  if (input.length > MAX_ACTIONS) {
+    throw new Error(`Too many actions: maximum ${MAX_ACTIONS} allowed`);
+  }
+
+  return input.map((raw, index): PageAction => {
+    if (typeof raw !== 'object' || raw === null) {
+      throw new Error(`Invalid action ${index + 1}: must be an object`);
+    }
+    const step = raw as Record<string, unknown>;
+
+    switch (step.type) {
+      case 'click':
+        return { type: 'click', selector: requireString(step, 'selector', index) };
+      case 'type':
+        if (typeof step.text !== 'string') {
+          throw new Error(`Invalid action ${index + 1} (type): "text" must be a string`);
+        }
+        return { type: 'type', selector: requireString(step, 'selector', index), text: step.text };
+      case 'press':
+        return { type: 'press', key: requireString(step, 'key', index) };
+      case 'scroll': {
+        const direction = step.direction ?? 'down';
+        if (direction !== 'up' && direction !== 'down') {
+          throw new Error(`Invalid action ${index + 1} (scroll): "direction" must be "up" or "down"`);
+        }
+        return { type: 'scroll', direction, amount: optionalNumber(step, 'amount', index) };
+      }
+      case 'waitForSelector': {
+        const timeout = optionalNumber(step, 'timeout', index);
+        return {
+          type: 'waitForSelector',
+          selector: requireString(step, 'selector', index),
+          timeout: timeout === undefined ? undefined : Math.min(timeout, MAX_ACTION_WAIT_MS),
+        };
+      }
+      case 'wait': {
+        const milliseconds = optionalNumber(step, 'milliseconds', index);
+        if (milliseconds === undefined) {
+          throw new Error(`Invalid action ${index + 1} (wait): "milliseconds" is required`);
+        }
+        return { type: 'wait', milliseconds: Math.min(milliseconds, MAX_ACTION_WAIT_MS) };
+      }
+      case 'executeJavaScript': {
+        const script = requireString(step, 'script', index);
+        if (script.length > MAX_SCRIPT_LENGTH) {
+          throw new Error(`Invalid action ${index + 1} (executeJavaScript): script exceeds ${MAX_SCRIPT_LENGTH} characters`);
+        }
+        return { type: 'executeJavaScript', script };
+      }
+      default:
+        throw new Error(`Invalid action ${index + 1}: unknown type "${String(step.type)}"`);
+    }
+  });
+}
+
+async function runAction(page: any, action: PageAction): Promise<unknown> {
+  switch (action.type) {
+    case 'click':
+      await page.click(action.selector);
+      return undefined;
+    case 'type':
+      await page.type(action.selector, action.text, { delay: 50 });
+      return undefined;
+    case 'press':
+      await page.keyboard.press(action.key);
+      return undefined;
+    case 'scroll':
+      // Default amount is one viewport height.
+      await page.evaluate(
+        (sign: number, amount: number | null) => window.scrollBy(0, sign * (amount ?? window.innerHeight)),
+        action.direction === 'up' ? -1 : 1,
+        action.amount ?? null
+      );
+      return undefined;
+    case 'waitForSelector':
+      await page.waitForSelector(action.selector, {
+        timeout: action.timeout ?? DEFAULT_SELECTOR_TIMEOUT_MS,
+      });
+      return undefined;
+    case 'wait':
+      await new Promise((resolve) => setTimeout(resolve, action.milliseconds));
+      return undefined;
+    case 'executeJavaScript':
+      // Evaluated as an expression in the page; promises are awaited.
+      return page.evaluate(action.script);
+  }
+}
+
+// Run actions in order against a puppeteer page. Stops at the first failing
+// step (later steps usually depend on it) and reports the rest as skipped.
+export async function runActions(page: any, actions: PageAction[]): Promise<ActionResult[]> {
+  const results: ActionResult[] = [];
+  let failed = false;
+
+  for (const action of actions) {
+    if (failed) {
+      results.push({ type: action.type, success: false, skipped: true, durationMs: 0 });
+      continue;
+    }
+
+    const start = Date.now();
+    try {
+      const result = await runAction(page, action);
+      results.push({
+        type: action.type,
+        success: true,
+        ...(result !== undefined ? { result } : {}),
+        durationMs: Date.now() - start,
+      });
+    } catch (error) {
+      failed = true;
+      results.push({
+        type: action.type,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - start,
+      });
+    }
+  }
+
+  return results;
+}
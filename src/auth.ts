@@ -0,0 +1,120 @@
+// API key authentication for the HTTP endpoints (/mcp, /sse and /messages).
+// Clients send a key as "Authorization: Bearer <key>" or "X-API-Key: <key>".
+// Keys are named so tool handlers and logs can tell clients apart, come from
+// MCP_API_KEYS and/or an MCP_API_KEYS_FILE, and can be disabled one by one.
+// With no keys configured the endpoints stay open, as before.
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { IncomingHttpHeaders } from 'node:http';
+
+// Short keys are guessable; generate them with e.g. `openssl rand -hex 32`
+export const MIN_API_KEY_LENGTH = 16;
+
+export interface ApiKey {
+  name: string;
+  key: string;
+  enabled: boolean;
+}
+
+export type AuthResult =
+  | { ok: true; apiKey: ApiKey; token: string }
+  | { ok: false; status: 401 | 403; error: string };
+
+function apiKey(name: string, key: string, enabled: boolean, source: string): ApiKey {
+  if (!/^[\w.-]+$/.test(name)) {
+    throw new Error(`Invalid ${source} key name "${name}": use letters, digits, ".", "_" or "-"`);
+  }
+  if (key.length < MIN_API_KEY_LENGTH || /\s/.test(key)) {
+    throw new Error(`Invalid ${source} key "${name}": keys need at least ${MIN_API_KEY_LENGTH} characters and no whitespace`);
+  }
+  return { name, key, enabled };
+}
+
+// Parse MCP_API_KEYS: comma-separated "name:key" pairs.
+export function parseApiKeys(value: string | undefined): ApiKey[] {
+  return (value ?? '').split(',').map((item) => item.trim()).filter(Boolean).map((entry) => {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) {
+      throw new Error(`Invalid MCP_API_KEYS entry "${entry.slice(0, 20)}": expected name:key`);
+    }
+    return apiKey(entry.slice(0, separator).trim(), entry.slice(separator + 1).trim(), true, 'MCP_API_KEYS');
+  });
+}
+
+// Parse an MCP_API_KEYS_FILE: a JSON array of {"name", "key", "enabled"?}
+// objects. Keys are enabled unless "enabled" is false.
+export function parseApiKeysFile(text: string): ApiKey[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid API keys file: not valid JSON');
+  }
+  if (!Array.isArray(data)) {
+    throw new Error('Invalid API keys file: must be an array of {"name", "key", "enabled"} objects');
+  }
+  return data.map((entry, index) => {
+    const { name, key, enabled } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof name !== 'string' || typeof key !== 'string' || (enabled !== undefined && typeof enabled !== 'boolean')) {
+      throw new Error(`Invalid API keys file entry ${index}: "name" and "key" must be strings, "enabled" a boolean`);
+    }
+    return apiKey(name, key, enabled !== false, 'API keys file');
+  });
+}
+
+// The key a request carries, from the Authorization bearer token or the
+// X-API-Key header.
+export function credentialFromHeaders(headers: IncomingHttpHeaders): string | undefined {
+  const bearer = headers.authorization?.match(/^Bearer\s+(\S+)\s*$/i);
+  if (bearer) return bearer[1];
+  const header = headers['x-api-key'];
+  const value = Array.isArray(header) ? header[0] : header;
+  return value?.trim() || undefined;
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+export class ApiKeyAuthenticator {
+  private readonly keys: Array<ApiKey & { digest: Buffer }>;
+
+  // disabledNames turns off keys by name (MCP_API_KEYS_DISABLED), whichever
+  // source they came from. Throws on duplicate names or keys.
+  constructor(keys: ApiKey[], disabledNames: string[] = []) {
+    const names = new Set<string>();
+    const digests = new Set<string>();
+    this.keys = keys.map((key) => {
+      const keyDigest = digest(key.key);
+      if (names.has(key.name)) throw new Error(`Duplicate API key name "${key.name}"`);
+      if (digests.has(keyDigest.toString('hex'))) throw new Error(`API key "${key.name}" reuses another key's value`);
+      names.add(key.name);
+      digests.add(keyDigest.toString('hex'));
+      return { ...key, enabled: key.enabled && !disabledNames.includes(key.name), digest: keyDigest };
+    });
+  }
+
+  // Whether any keys are configured, i.e. whether requests must authenticate
+  get enabled(): boolean {
+    return this.keys.length > 0;
+  }
+
+  // Match the request's key against every configured key. Keys are compared
+  // as SHA-256 digests with timingSafeEqual, and all of them are compared, so
+  // response timing reveals neither a key's prefix nor its length.
+  authenticate(headers: IncomingHttpHeaders): AuthResult {
+    const token = credentialFromHeaders(headers);
+    if (!token) {
+      return { ok: false, status: 401, error: 'Missing API key: send "Authorization: Bearer <key>" or "X-API-Key: <key>"' };
+    }
+
+    const tokenDigest = digest(token);
+    let match: (ApiKey & { digest: Buffer }) | undefined;
+    for (const key of this.keys) {
+      if (timingSafeEqual(tokenDigest, key.digest)) match = key;
+    }
+    if (!match) return { ok: false, status: 401, error: 'Invalid API key' };
+    if (!match.enabled) return { ok: false, status: 403, error: `API key "${match.name}" is disabled` };
+    return { ok: true, apiKey: { name: match.name, key: match.key, enabled: true }, token };
+  }
+}
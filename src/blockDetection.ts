@@ -0,0 +1,118 @@
+// Detection of bot walls served in place of the requested page: Cloudflare
+// challenges, captcha interstitials (DataDome, PerimeterX, reCAPTCHA/hCaptcha
+// walls) and CDN "Access denied" pages. These often come back with a 200 or a
+// plain 403 and would otherwise be scraped as content. A detected block fails
+// the attempt with a typed `blocked:<kind>` error so the retry moves on to the
+// next proxy and fingerprint.
+
+import { load } from 'cheerio/slim';
+
+export type BlockKind = 'cloudflare' | 'captcha' | 'access-denied';
+
+export interface BlockDetection {
+  kind: BlockKind;
+  // Which signature matched, for logs and error messages
+  reason: string;
+}
+
+// What the detector looks at after navigation.
+export interface BlockCheckInput {
+  statusCode?: number;
+  // Lower-cased response headers (see normalizeHeaders)
+  headers?: Record<string, string>;
+  title?: string;
+  html: string;
+}
+
+// A page that failed an attempt because it was a bot wall. The message starts
+// with the typed code, e.g. "blocked:cloudflare (Cloudflare challenge page)".
+export class BlockedError extends Error {
+  readonly kind: BlockKind;
+
+  constructor(detection: BlockDetection) {
+    super(`blocked:${detection.kind} (${detection.reason})`);
+    this.name = 'BlockedError';
+    this.kind = detection.kind;
+  }
+}
+
+// Block pages are short. Above this much visible text a page is real content
+// that merely mentions a captcha or embeds one in a form.
+const MAX_BLOCK_PAGE_TEXT_LENGTH = 2000;
+
+interface BlockSignature {
+  kind: BlockKind;
+  reason: string;
+  title?: RegExp;
+  selector?: string;
+  html?: RegExp;
+  // Only match on these statuses (block pages served with 200 need a stronger signature)
+  statuses?: number[];
+}
+
+// Checked in order; the first match wins.
+const SIGNATURES: BlockSignature[] = [
+  { kind: 'cloudflare', reason: 'Cloudflare challenge page', title: /^just a moment(\.\.\.|…)|please wait\.\.\. \| cloudflare/i },
+  { kind: 'cloudflare', reason: 'Cloudflare challenge page', selector: '#challenge-form, #challenge-running, #cf-challenge-running' },
+  { kind: 'cloudflare', reason: 'Cloudflare challenge page', html: /window\._cf_chl_opt\b/ },
+  { kind: 'cloudflare', reason: 'Cloudflare block page', title: /attention required! \| cloudflare/i },
+  { kind: 'cloudflare', reason: 'Cloudflare block page', selector: '#cf-error-details, .cf-error-details' },
+  { kind: 'captcha', reason: 'DataDome captcha', html: /captcha-delivery\.com/i },
+  { kind: 'captcha', reason: 'PerimeterX captcha', selector: '#px-captcha' },
+  { kind: 'captcha', reason: 'captcha page', title: /captcha|are you a (ro)?bot|verify (that )?you are (a )?human|human verification|bot check/i },
+  {
+    kind: 'captcha',
+    reason: 'captcha wall',
+    selector: '.g-recaptcha, .h-captcha, iframe[src*="recaptcha"], iframe[src*="hcaptcha.com"]',
+    statuses: [403, 405, 429, 503],
+  },
+  { kind: 'access-denied', reason: 'Imperva/Incapsula block page', html: /_Incapsula_Resource|Incapsula incident ID/i },
+  { kind: 'access-denied', reason: 'Akamai block page', html: /You don't have permission to access[\s\S]*Reference #\d/i },
+  {
+    kind: 'access-denied',
+    reason: 'access denied page',
+    title: /access denied|access to this page has been denied|request blocked|you have been blocked|^forbidden$/i,
+    statuses: [401, 403, 429, 503],
+  },
+];
+
+function visibleTextLength($: ReturnType<typeof load>): number {
+  const body = $('body').clone();
+  body.find('script, style, noscript, template, svg').remove();
+  return body.text().replace(/\s+/g, ' ').trim().length;
+}
+
+// Decide whether a navigated page is a bot wall rather than the requested
+// content. Returns undefined for normal pages.
+export function detectBlock(input: BlockCheckInput): BlockDetection | undefined {
+  const headers = input.headers ?? {};
+
+  // Cloudflare marks challenge responses explicitly
+  if (/challenge/i.test(headers['cf-mitigated'] ?? '')) {
+    return { kind: 'cloudflare', reason: 'Cloudflare challenge (cf-mitigated header)' };
+  }
+
+  const $ = load(input.html);
+  if (visibleTextLength($) > MAX_BLOCK_PAGE_TEXT_LENGTH) {
+    return undefined;
+  }
+
+  const title = (input.title ?? $('title').first().text()).trim();
+  for (const signature of SIGNATURES) {
+    if (signature.statuses && !signature.statuses.includes(input.statusCode ?? 0)) continue;
+    const matched =
+      (signature.title !== undefined && signature.title.test(title)) ||
+      (signature.selector !== undefined && $(signature.selector).length > 0) ||
+      (signature.html !== undefined && signature.html.test(input.html));
+    if (matched) {
+      return { kind: signature.kind, reason: signature.reason };
+    }
+  }
+
+  // DataDome answers blocked requests with a 403 and its own header
+  if (input.statusCode === 403 && headers['x-datadome'] !== undefined) {
+    return { kind: 'captcha', reason: 'DataDome block (x-datadome header)' };
+  }
+
+  return undefined;
+}
@@ -0,0 +1,252 @@
+// Managed pool of warm headless browsers.
+//
+// Launching Chrome is the slowest part of a scrape, so instead of starting and
+// closing a browser for every attempt we keep a small number of them running,
+// keyed by the one setting that has to be fixed at launch time, the upstream
+// proxy. The user agent and the rest of the fingerprint are applied per page.
+// Every request gets its own isolated browser context (the incognito
+// equivalent), so cookies and storage never leak between calls.
+//
+// The pool is deliberately decoupled from puppeteer: it only needs the small
+// structural interfaces below, which keeps it unit-testable with fakes.
+
+export interface PoolPage {
+  on(event: string, handler: (...args: any[]) => void): unknown;
+}
+
+export interface PoolContext {
+  newPage(): Promise<PoolPage>;
+  close(): Promise<void>;
+}
+
+export interface PoolBrowser {
+  createBrowserContext(): Promise<PoolContext>;
+  close(): Promise<void>;
+  on(event: string, handler: (...args: any[]) => void): unknown;
+}
+
+// Launch-time settings that distinguish one pooled browser from another.
+export interface BrowserSpec {
+  proxyUrl?: string;
+}
+
+export interface BrowserPoolOptions {
+  // Maximum number of browsers alive at once (launching ones included).
+  maxBrowsers: number;
+  // Recycle a browser after it has served this many pages.
+  maxPagesPerBrowser: number;
+  // Close a browser that has had no active pages for this long.
+  idleTimeoutMs: number;
+  launch: (spec: BrowserSpec) => Promise<PoolBrowser>;
+}
+
+// A page on loan from the pool. Always call release() when done with it.
+export interface PoolLease {
+  page: any;
+  release(): Promise<void>;
+}
+
+export interface BrowserPoolStats {
+  browsers: number;
+  activePages: number;
+  waiting: number;
+  maxBrowsers: number;
+}
+
+interface PoolEntry {
+  key: string;
+  ready: Promise<PoolBrowser>;
+  browser?: PoolBrowser;
+  active: number;
+  served: number;
+  retiring: boolean;
+  lastUsed: number;
+  idleTimer?: ReturnType<typeof setTimeout>;
+}
+
+// Pool key for a spec. Never logged: the proxy URL may carry credentials.
+export function browserKey(spec: BrowserSpec): string {
+  return spec.proxyUrl ?? 'direct';
+}
+
+export class BrowserPool {
+  private entries: PoolEntry[] = [];
+  private waiters: Array<() => void> = [];
+  private closed = false;
+
+  constructor(private readonly options: BrowserPoolOptions) {}
+
+  // Borrow an isolated page from a browser matching the spec, launching (or
+  // waiting for room to launch) one if necessary.
+  async acquire(spec: BrowserSpec): Promise<PoolLease> {
+    const entry = await this.reserve(spec);
+
+    let browser: PoolBrowser;
+    try {
+      browser = await entry.ready;
+    } catch (error) {
+      entry.active--;
+      this.remove(entry);
+      throw error;
+    }
+
+    let context: PoolContext | undefined;
+    try {
+      context = await browser.createBrowserContext();
+      const page = await context.newPage();
+
+      // A crashed renderer usually means the whole browser is unhealthy.
+      let crashed = false;
+      page.on('error', () => {
+        crashed = true;
+      });
+
+      let released = false;
+      return {
+        page,
+        release: async () => {
+          if (released) return;
+          released = true;
+          try {
+            await context!.close();
+          } catch {
+            /* browser may already be gone */
+          }
+          if (crashed) entry.retiring = true;
+          entry.active--;
+          this.settle(entry);
+        },
+      };
+    } catch (error) {
+      // Failing to open a context/page means the browser is not usable.
+      if (context) await context.close().catch(() => undefined);
+      entry.retiring = true;
+      entry.active--;
+      this.settle(entry);
+      throw error;
+    }
+  }
+
+  // Close every browser and refuse further work. Safe to call more than once.
+  async closeAll(): Promise<void> {
+    this.closed = true;
+    this.wakeWaiters();
+    const entries = this.entries.splice(0);
+    await Promise.all(entries.map((entry) => this.closeEntry(entry)));
+  }
+
+  stats(): BrowserPoolStats {
+    return {
+      browsers: this.entries.length,
+      activePages: this.entries.reduce((sum, e) => sum + e.active, 0),
+      waiting: this.waiters.length,
+      maxBrowsers: this.options.maxBrowsers,
+    };
+  }
+
+  // Find or create a pool entry for the spec and count the new page against it.
+  private async reserve(spec: BrowserSpec): Promise<PoolEntry> {
+    const key = browserKey(spec);
+
+    for (;;) {
+      if (this.closed) {
+        throw new Error('Browser pool is shut down');
+      }
+
+      let entry = this.entries.find((e) => e.key === key && !e.retiring);
+
+      if (!entry && this.entries.length >= this.options.maxBrowsers) {
+        // Make room by closing the least recently used idle browser, or wait
+        // for an active one to be released.
+        const idle = this.entries
+          .filter((e) => e.active === 0)
+          .sort((a, b) => a.lastUsed - b.lastUsed)[0];
+        if (!idle) {
+          await new Promise<void>((resolve) => this.waiters.push(resolve));
+          continue;
+        }
+        this.remove(idle);
+      }
+
+      if (!entry) {
+        entry = this.createEntry(spec, key);
+      }
+
+      if (entry.idleTimer) {
+        clearTimeout(entry.idleTimer);
+        entry.idleTimer = undefined;
+      }
+      entry.active++;
+      entry.served++;
+      entry.lastUsed = Date.now();
+      if (entry.served >= this.options.maxPagesPerBrowser) {
+        // Stop handing out new pages; close once the current ones are released.
+        entry.retiring = true;
+      }
+      return entry;
+    }
+  }
+
+  private createEntry(spec: BrowserSpec, key: string): PoolEntry {
+    const entry: PoolEntry = {
+      key,
+      ready: undefined as unknown as Promise<PoolBrowser>,
+      active: 0,
+      served: 0,
+      retiring: false,
+      lastUsed: Date.now(),
+    };
+    entry.ready = this.options.launch(spec).then((browser) => {
+      entry.browser = browser;
+      browser.on('disconnected', () => {
+        // Crashed or closed underneath us — drop it so it gets relaunched.
+        entry.retiring = true;
+        this.remove(entry);
+      });
+      return browser;
+    });
+    // Launch failures are surfaced to the acquirer; avoid unhandled rejections.
+    entry.ready.catch(() => undefined);
+    this.entries.push(entry);
+    return entry;
+  }
+
+  // Called whenever an entry's active page count drops.
+  private settle(entry: PoolEntry): void {
+    if (entry.active === 0) {
+      if (entry.retiring || this.closed) {
+        this.remove(entry);
+        return;
+      }
+      entry.idleTimer = setTimeout(() => {
+        if (entry.active === 0) this.remove(entry);
+      }, this.options.idleTimeoutMs);
+      entry.idleTimer.unref?.();
+    }
+    this.wakeWaiters();
+  }
+
+  private remove(entry: PoolEntry): void {
+    const index = this.entries.indexOf(entry);
+    if (index !== -1) {
+      this.entries.splice(index, 1);
+      void this.closeEntry(entry);
+    }
+    this.wakeWaiters();
+  }
+
+  private async closeEntry(entry: PoolEntry): Promise<void> {
+    if (entry.idleTimer) clearTimeout(entry.idleTimer);
+    try {
+      const browser = await entry.ready;
+      await browser.close();
+    } catch {
+      /* failed launch or already closed */
+    }
+  }
+
+  private wakeWaiters(): void {
+    const waiters = this.waiters.splice(0);
+    for (const wake of waiters) wake();
+  }
+}
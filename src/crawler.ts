@@ -0,0 +1,199 @@
+// Breadth-first site crawling: URL normalization, scope/path filtering, link
+// discovery and the crawl loop itself. The actual page fetch is injected by the
+// caller, so everything here stays free of browser dependencies.
+
+import { load } from 'cheerio/slim';
+
+import { isValidUrl, sanitizeUrl } from './utils.js';
+
+export const DEFAULT_CRAWL_MAX_DEPTH = 2;
+export const DEFAULT_CRAWL_MAX_PAGES = 10;
+export const MAX_CRAWL_DEPTH = 5;
+export const MAX_CRAWL_PAGES = 50;
+
+export interface CrawlOptions {
+  maxDepth?: number;
+  maxPages?: number;
+  allowSubdomains?: boolean;
+  includePaths?: string[];
+  excludePaths?: string[];
+}
+
+// What the caller's page visitor returns: its own result for the page, plus
+// the rendered HTML to harvest links from (omit it when the fetch failed) and
+// the URL the page ended up at after redirects, which its links resolve
+// against.
+export interface CrawlVisit<T> {
+  result: T;
+  html?: string;
+  finalUrl?: string;
+}
+
+// Query parameters that only track campaigns and never change page content.
+const TRACKING_PARAMS = /^(utm_\w+|gclid|fbclid|mc_cid|mc_eid)$/i;
+
+// Canonical form used for dedup: no fragment, no tracking params, sorted query,
+// no trailing slash (except the root). Returns undefined for non-http(s) URLs.
+export function normalizeUrl(url: string, base?: string): string | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(sanitizeUrl(url), base);
+  } catch {
+    return undefined;
+  }
+  if (!isValidUrl(parsed.href)) return undefined;
+
+  parsed.hash = '';
+  const params = [...parsed.searchParams.entries()]
+    .filter(([key]) => !TRACKING_PARAMS.test(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  parsed.search = new URLSearchParams(params).toString();
+  if (parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+  }
+  return parsed.href;
+}
+
+// Convert a path glob to a RegExp: `**` spans segments, `*` stays within one
+// segment, `?` is a single character. Patterns match the whole pathname.
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        source += '.*';
+        i++;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function stripWww(hostname: string): string {
+  return hostname.replace(/^www\./, '');
+}
+
+// Whether a discovered URL belongs to the seed's site. `www.` is ignored, and
+// subdomains of the seed host are only accepted when allowSubdomains is set.
+export function isSameSite(url: string, seedUrl: string, allowSubdomains = false): boolean {
+  try {
+    const host = stripWww(new URL(url).hostname);
+    const seedHost = stripWww(new URL(seedUrl).hostname);
+    return host === seedHost || (allowSubdomains && host.endsWith(`.${seedHost}`));
+  } catch {
+    return false;
+  }
+}
+
+// Apply include/exclude path globs. Excludes win; an empty include list
+// accepts every path.
+export function matchesPathFilters(
+  url: string,
+  includePaths: string[] = [],
+  excludePaths: string[] = []
+): boolean {
+  let pathname: string;
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    return false;
+  }
+  if (excludePaths.some((glob) => globToRegExp(glob).test(pathname))) {
+    return false;
+  }
+  return includePaths.length === 0 || includePaths.some((glob) => globToRegExp(glob).test(pathname));
+}
+
+// Absolute form of a link as written, minus its fragment: the URL to fetch,
+// unlike normalizeUrl's dedup key (which drops the trailing slash that
+// relative links on the page depend on). Undefined for non-http(s) URLs.
+function resolveUrl(url: string, base?: string): string | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(sanitizeUrl(url), base);
+  } catch {
+    return undefined;
+  }
+  parsed.hash = '';
+  return isValidUrl(parsed.href) ? parsed.href : undefined;
+}
+
+// http(s) links in rendered HTML, as resolved URLs keyed by their normalized
+// form, first occurrence kept.
+function discoverLinks(html: string, baseUrl: string): Map<string, string> {
+  const $ = load(html);
+  const links = new Map<string, string>();
+  $('a[href]').each((_, el) => {
+    const href = $(el).attr('href');
+    if (!href || /^(mailto|tel|javascript):/i.test(href.trim())) return;
+    const url = resolveUrl(href, baseUrl);
+    const normalized = url && normalizeUrl(url);
+    if (url && normalized && !links.has(normalized)) links.set(normalized, url);
+  });
+  return links;
+}
+
+// Collect normalized, deduplicated http(s) links from rendered HTML.
+export function extractLinks(html: string, baseUrl: string): string[] {
+  return [...discoverLinks(html, baseUrl).keys()];
+}
+
+function clamp(value: number | undefined, fallback: number, min: number, max: number): number {
+  if (value === undefined || !Number.isFinite(value)) return fallback;
+  return Math.min(Math.max(Math.floor(value), min), max);
+}
+
+// Crawl breadth-first from the seed, visiting each in-scope URL once, until
+// maxPages pages have been visited or maxDepth is exhausted. Links isAllowed
+// rejects (e.g. by the domain policy) are skipped. Pages are fetched at the
+// URL they were found under; normalized URLs only deduplicate them. Results
+// are returned in visit order.
+export async function crawlSite<T>(
+  seedUrl: string,
+  options: CrawlOptions,
+  visit: (url: string, depth: number) => Promise<CrawlVisit<T>>,
+  isAllowed: (url: string) => boolean = () => true
+): Promise<T[]> {
+  const seed = normalizeUrl(seedUrl);
+  const seedHref = resolveUrl(seedUrl);
+  if (!seed || !seedHref) {
+    throw new Error('Invalid URL format. Only HTTP and HTTPS URLs are allowed.');
+  }
+
+  const maxDepth = clamp(options.maxDepth, DEFAULT_CRAWL_MAX_DEPTH, 0, MAX_CRAWL_DEPTH);
+  const maxPages = clamp(options.maxPages, DEFAULT_CRAWL_MAX_PAGES, 1, MAX_CRAWL_PAGES);
+
+  const seen = new Set<string>([seed]);
+  const queue: Array<{ url: string; depth: number }> = [{ url: seedHref, depth: 0 }];
+  const results: T[] = [];
+
+  while (queue.length > 0 && results.length < maxPages) {
+    const { url, depth } = queue.shift()!;
+    const { result, html, finalUrl } = await visit(url, depth);
+    results.push(result);
+
+    // A redirect target counts as visited too
+    const landed = finalUrl ? normalizeUrl(finalUrl) : undefined;
+    if (landed) seen.add(landed);
+
+    if (!html || depth >= maxDepth) continue;
+
+    for (const [key, link] of discoverLinks(html, finalUrl ?? url)) {
+      if (seen.has(key)) continue;
+      seen.add(key);
+      if (!isSameSite(link, seed, options.allowSubdomains)) continue;
+      if (!matchesPathFilters(link, options.includePaths, options.excludePaths)) continue;
+      if (!isAllowed(link)) continue;
+      queue.push({ url: link, depth: depth + 1 });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,154 @@
+// Device emulation for the `device` tool parameter: either a device name,
+// looked up in Puppeteer's KnownDevices (plus a few newer phones it lacks), or
+// an explicit viewport object. The result is folded into the request's
+// fingerprint profile so the user agent, viewport, touch support and
+// navigator values stay consistent with the emulated device.
+
+import { KnownDevices } from 'puppeteer';
+
+import { FingerprintProfile, FingerprintViewport, profileForUserAgent } from './fingerprints.js';
+
+export interface DeviceDescriptor {
+  userAgent: string;
+  viewport: FingerprintViewport & { isLandscape?: boolean };
+}
+
+// A resolved `device` argument. Named devices carry their user agent;
+// explicit viewports only change the page size and touch/mobile flags.
+export interface DeviceEmulation {
+  name?: string;
+  userAgent?: string;
+  viewport: Partial<FingerprintViewport> & { width: number; height: number };
+}
+
+// Recent devices missing from Puppeteer's list.
+const EXTRA_DEVICES: Record<string, DeviceDescriptor> = {
+  'Pixel 7': {
+    userAgent:
+      'Mozilla/5.0 (Linux; Android 14; Pixel 7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Mobile Safari/537.36',
+    viewport: { width: 412, height: 915, deviceScaleFactor: 2.625, isMobile: true, hasTouch: true },
+  },
+  'Pixel 8': {
+    userAgent:
+      'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Mobile Safari/537.36',
+    viewport: { width: 412, height: 915, deviceScaleFactor: 2.625, isMobile: true, hasTouch: true },
+  },
+  'Galaxy S24': {
+    userAgent:
+      'Mozilla/5.0 (Linux; Android 14; SM-S921B) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Mobile Safari/537.36',
+    viewport: { width: 360, height: 780, deviceScaleFactor: 3, isMobile: true, hasTouch: true },
+  },
+};
+
+const MAX_VIEWPORT_DIMENSION = 10000;
+const MAX_DEVICE_SCALE_FACTOR = 4;
+
+// JSON schema fragment for the tools' `device` parameter.
+export const DEVICE_SCHEMA = {
+  oneOf: [
+    {
+      type: 'string',
+      description:
+        'Device to emulate, e.g. "iPhone 15", "Pixel 8", "iPad", "Galaxy S9+" or "iPhone 15 landscape" ' +
+        "(any of Puppeteer's known devices). Sets the user agent, viewport, touch and device scale factor.",
+    },
+    {
+      type: 'object',
+      description: 'Explicit viewport to emulate',
+      properties: {
+        width: { type: 'number' },
+        height: { type: 'number' },
+        deviceScaleFactor: { type: 'number' },
+        isMobile: { type: 'boolean' },
+        hasTouch: { type: 'boolean' },
+      },
+      required: ['width', 'height'],
+    },
+  ],
+};
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// All emulatable devices by normalized name.
+export function knownDevices(): Map<string, { name: string; descriptor: DeviceDescriptor }> {
+  const devices = new Map<string, { name: string; descriptor: DeviceDescriptor }>();
+  const all: Record<string, DeviceDescriptor> = { ...(KnownDevices as Record<string, DeviceDescriptor>), ...EXTRA_DEVICES };
+  for (const [name, descriptor] of Object.entries(all)) {
+    devices.set(normalizeName(name), { name, descriptor });
+  }
+  return devices;
+}
+
+function parseViewport(input: Record<string, unknown>): DeviceEmulation['viewport'] {
+  const { width, height, deviceScaleFactor, isMobile, hasTouch } = input;
+  for (const [key, value] of Object.entries({ width, height })) {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_VIEWPORT_DIMENSION) {
+      throw new Error(`Invalid device viewport: ${key} must be an integer between 1 and ${MAX_VIEWPORT_DIMENSION}`);
+    }
+  }
+  if (
+    deviceScaleFactor !== undefined &&
+    (typeof deviceScaleFactor !== 'number' || deviceScaleFactor <= 0 || deviceScaleFactor > MAX_DEVICE_SCALE_FACTOR)
+  ) {
+    throw new Error(`Invalid device viewport: deviceScaleFactor must be a number between 0 and ${MAX_DEVICE_SCALE_FACTOR}`);
+  }
+  for (const [key, value] of Object.entries({ isMobile, hasTouch })) {
+    if (value !== undefined && typeof value !== 'boolean') {
+      throw new Error(`Invalid device viewport: ${key} must be a boolean`);
+    }
+  }
+
+  const viewport: DeviceEmulation['viewport'] = { width: width as number, height: height as number };
+  if (deviceScaleFactor !== undefined) viewport.deviceScaleFactor = deviceScaleFactor as number;
+  if (isMobile !== undefined) viewport.isMobile = isMobile as boolean;
+  if (hasTouch !== undefined) viewport.hasTouch = hasTouch as boolean;
+  return viewport;
+}
+
+// Validate untrusted tool input. Returns undefined when no device was given.
+export function parseDevice(input: unknown): DeviceEmulation | undefined {
+  if (input === undefined) return undefined;
+
+  if (typeof input === 'string') {
+    const match = knownDevices().get(normalizeName(input));
+    if (!match) {
+      throw new Error(`Unknown device "${input}": use a Puppeteer device name such as "iPhone 15" or "Pixel 8", or a viewport object`);
+    }
+    const { isLandscape: _isLandscape, ...viewport } = match.descriptor.viewport;
+    return { name: match.name, userAgent: match.descriptor.userAgent, viewport };
+  }
+
+  if (typeof input === 'object' && input !== null && !Array.isArray(input)) {
+    return { viewport: parseViewport(input as Record<string, unknown>) };
+  }
+
+  throw new Error('Invalid device: must be a device name or a viewport object');
+}
+
+// Fold a device into a fingerprint profile. A named device swaps in the
+// browser/OS fields matching its user agent (so navigator, client hints and
+// touch points agree with it) but keeps the profile's locale and timezone; a
+// viewport object only resizes the page.
+export function emulateDevice(profile: FingerprintProfile, device?: DeviceEmulation): FingerprintProfile {
+  if (!device) return profile;
+
+  const base = device.userAgent
+    ? {
+        ...profileForUserAgent(device.userAgent),
+        locale: profile.locale,
+        languages: profile.languages,
+        timezone: profile.timezone,
+        acceptLanguage: profile.acceptLanguage,
+      }
+    : profile;
+  const viewport = { ...base.viewport, ...device.viewport };
+  return {
+    ...base,
+    name: device.name ? `device:${device.name}` : base.name,
+    viewport,
+    maxTouchPoints: viewport.hasTouch ? Math.max(base.maxTouchPoints, 1) : 0,
+    clientHints: base.clientHints && { ...base.clientHints, mobile: viewport.isMobile },
+  };
+}
@@ -0,0 +1,140 @@
+// Operator-defined domain policy: deny patterns the server must never touch
+// and, optionally, allow patterns it is limited to. Configured with
+// DOMAIN_ALLOWLIST / DOMAIN_DENYLIST and a DOMAIN_POLICY_FILE, and enforced for
+// every scrape target, redirect and followed link. A pattern is an exact host
+// ("example.com"), a wildcard for its subdomains ("*.example.com"), either
+// optionally followed by a path prefix ("example.com/blog/").
+
+export type DomainPolicyRule = 'denied' | 'not-allowed';
+
+// A URL the policy refused. The message starts with the typed code, e.g.
+// 'domain-policy:denied (https://ads.example.com/ matches deny pattern "*.example.com")'.
+export class DomainPolicyError extends Error {
+  readonly rule: DomainPolicyRule;
+  readonly url: string;
+
+  constructor(rule: DomainPolicyRule, url: string, reason: string) {
+    super(`domain-policy:${rule} (${url} ${reason})`);
+    this.name = 'DomainPolicyError';
+    this.rule = rule;
+    this.url = url;
+  }
+}
+
+export interface DomainPattern {
+  // The pattern as configured, for error messages
+  source: string;
+  host: string;
+  // Match subdomains of host rather than host itself
+  subdomains: boolean;
+  pathPrefix?: string;
+}
+
+export interface DomainPolicyConfig {
+  allow: DomainPattern[];
+  deny: DomainPattern[];
+}
+
+// What a URL is being checked for: a page the server loads (scrape target,
+// redirect, followed link) or a subresource that page requests. Allow
+// patterns only limit pages, since pages load scripts, styles and images from
+// CDNs outside any allowlist; deny patterns apply to both.
+export type PolicyTarget = 'page' | 'subresource';
+
+// Parse one pattern. A scheme, port, query or fragment is ignored. Throws on
+// an invalid host.
+export function parseDomainPattern(raw: string): DomainPattern {
+  const source = raw.trim();
+  const withoutScheme = source.replace(/^[a-z][a-z0-9+.-]*:\/\//i, '').replace(/[?#].*$/, '');
+  const slash = withoutScheme.indexOf('/');
+  const hostPart = (slash === -1 ? withoutScheme : withoutScheme.slice(0, slash)).replace(/:\d+$/, '');
+  const path = slash === -1 ? '' : withoutScheme.slice(slash);
+
+  const subdomains = hostPart.startsWith('*.');
+  const bareHost = subdomains ? hostPart.slice(2) : hostPart;
+  if (!bareHost || /[*@\s]/.test(bareHost)) {
+    throw new Error(`Invalid domain pattern "${source}"`);
+  }
+  let host: string;
+  try {
+    // Lower-cases and converts internationalized names to punycode, as URL
+    // hostnames are
+    host = new URL(`http://${bareHost}`).hostname;
+  } catch {
+    throw new Error(`Invalid domain pattern "${source}"`);
+  }
+
+  const pattern: DomainPattern = { source, host, subdomains };
+  if (path && path !== '/') pattern.pathPrefix = path;
+  return pattern;
+}
+
+// Parse a comma-separated pattern list.
+export function parseDomainPatterns(value: string | undefined): DomainPattern[] {
+  return (value ?? '').split(',').map((item) => item.trim()).filter(Boolean).map(parseDomainPattern);
+}
+
+// Parse a DOMAIN_POLICY_FILE: a JSON object with optional "allow" and "deny"
+// arrays of patterns.
+export function parseDomainPolicyFile(text: string): DomainPolicyConfig {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid domain policy file: not valid JSON');
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('Invalid domain policy file: must be an object with "allow" and/or "deny" arrays');
+  }
+
+  const list = (field: 'allow' | 'deny'): DomainPattern[] => {
+    const value = (data as Record<string, unknown>)[field];
+    if (value === undefined) return [];
+    if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
+      throw new Error(`Invalid domain policy file: "${field}" must be an array of strings`);
+    }
+    return value.map(parseDomainPattern);
+  };
+  return { allow: list('allow'), deny: list('deny') };
+}
+
+export function matchesDomainPattern(url: URL, pattern: DomainPattern): boolean {
+  const hostname = url.hostname.toLowerCase().replace(/\.$/, '');
+  const hostMatches = pattern.subdomains ? hostname.endsWith(`.${pattern.host}`) : hostname === pattern.host;
+  return hostMatches && (pattern.pathPrefix === undefined || url.pathname.startsWith(pattern.pathPrefix));
+}
+
+export class DomainPolicy {
+  constructor(private readonly config: DomainPolicyConfig) {}
+
+  // Throw DomainPolicyError if the URL matches a deny pattern or, for pages,
+  // matches no allow pattern while any are configured. Non-http(s) URLs
+  // (data:, blob:, ...) and unparseable ones are left to other checks.
+  check(url: string, target: PolicyTarget = 'page'): void {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return;
+    }
+    if (!['http:', 'https:', 'ws:', 'wss:'].includes(parsed.protocol)) return;
+
+    const denied = this.config.deny.find((pattern) => matchesDomainPattern(parsed, pattern));
+    if (denied) {
+      throw new DomainPolicyError('denied', url, `matches deny pattern "${denied.source}"`);
+    }
+    const allowed = this.config.allow.length === 0 || this.config.allow.some((pattern) => matchesDomainPattern(parsed, pattern));
+    if (target === 'page' && !allowed) {
+      throw new DomainPolicyError('not-allowed', url, 'matches no allow pattern');
+    }
+  }
+
+  allows(url: string, target: PolicyTarget = 'page'): boolean {
+    try {
+      this.check(url, target);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,282 @@
+// Network egress guard (SSRF protection). Scrape targets come from MCP
+// clients, so without it any client could point the server's browser at a
+// cloud metadata service, localhost or hosts on the internal network.
+// Hostnames are resolved and every address is checked against private,
+// loopback, link-local and other non-public ranges, for the requested URL,
+// each redirect hop and (through request interception) every subresource.
+// Direct HTTP requests also check inside the socket's DNS lookup, so the
+// address checked is the address connected to, which defeats DNS rebinding.
+// EGRESS_ALLOWLIST opts specific hosts or networks back in.
+
+import { lookup } from 'node:dns/promises';
+import { isIP, type LookupFunction } from 'node:net';
+
+// A request the guard refused. The message starts with the typed code, e.g.
+// "egress-blocked: 169.254.169.254 (cloud metadata service)".
+export class EgressBlockedError extends Error {
+  readonly host: string;
+
+  constructor(host: string, reason: string) {
+    super(`egress-blocked: ${host} (${reason})`);
+    this.name = 'EgressBlockedError';
+    this.host = host;
+  }
+}
+
+interface AddressRange {
+  bytes: number[];
+  prefix: number;
+  label: string;
+}
+
+// Checked in order, so the specific metadata addresses win over their ranges.
+const IPV4_RANGES: [string, number, string][] = [
+  ['169.254.169.254', 32, 'cloud metadata service'],
+  ['100.100.100.200', 32, 'cloud metadata service'],
+  ['0.0.0.0', 8, 'unspecified address'],
+  ['10.0.0.0', 8, 'private network'],
+  ['100.64.0.0', 10, 'shared address space'],
+  ['127.0.0.0', 8, 'loopback'],
+  ['169.254.0.0', 16, 'link-local'],
+  ['172.16.0.0', 12, 'private network'],
+  ['192.0.0.0', 24, 'IETF protocol assignment'],
+  ['192.168.0.0', 16, 'private network'],
+  ['198.18.0.0', 15, 'benchmarking network'],
+  ['224.0.0.0', 4, 'multicast'],
+  ['240.0.0.0', 4, 'reserved'],
+];
+
+const IPV6_RANGES: [string, number, string][] = [
+  ['fd00:ec2::254', 128, 'cloud metadata service'],
+  ['::', 128, 'unspecified address'],
+  ['::1', 128, 'loopback'],
+  ['100::', 64, 'discard prefix'],
+  ['fc00::', 7, 'unique local address'],
+  ['fe80::', 10, 'link-local'],
+  ['fec0::', 10, 'site-local'],
+  ['ff00::', 8, 'multicast'],
+];
+
+// Names that reach the local machine or a metadata service without DNS
+const BLOCKED_HOSTNAMES = ['localhost', 'metadata.google.internal', 'metadata.goog'];
+
+// Schemes that never leave the browser; everything else is checked or refused
+const LOCAL_SCHEMES = ['data:', 'blob:', 'about:', 'javascript:'];
+const NETWORK_SCHEMES = ['http:', 'https:', 'ws:', 'wss:'];
+
+// Resolved addresses are cached briefly, since a page load checks the same
+// few hosts for dozens of subresources
+const DEFAULT_CACHE_TTL_MS = 60000;
+const MAX_CACHED_HOSTS = 1000;
+
+function ipv4Bytes(address: string): number[] {
+  return address.split('.').map(Number);
+}
+
+// The 16 bytes of an IPv6 address, including the :: shorthand and a trailing
+// dotted IPv4 part.
+function ipv6Bytes(address: string): number[] {
+  let text = address.toLowerCase().replace(/%.*$/, '');
+  const dotted = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = ipv4Bytes(dotted[1]);
+    text = text.slice(0, -dotted[1].length) + `${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = text.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail !== undefined && tail ? tail.split(':') : [];
+  const missing = tail !== undefined ? 8 - headGroups.length - tailGroups.length : 0;
+  const groups = [...headGroups, ...Array(missing).fill('0'), ...tailGroups].map((group) => parseInt(group, 16));
+
+  return groups.flatMap((group) => [group >> 8, group & 0xff]);
+}
+
+function toRange([network, prefix, label]: [string, number, string]): AddressRange {
+  return { bytes: isIP(network) === 4 ? ipv4Bytes(network) : ipv6Bytes(network), prefix, label };
+}
+
+const IPV4_RANGE_TABLE = IPV4_RANGES.map(toRange);
+const IPV6_RANGE_TABLE = IPV6_RANGES.map(toRange);
+
+function inRange(bytes: number[], range: AddressRange): boolean {
+  if (bytes.length !== range.bytes.length) return false;
+  for (let bit = 0; bit < range.prefix; bit += 8) {
+    const bits = Math.min(8, range.prefix - bit);
+    const mask = (0xff << (8 - bits)) & 0xff;
+    if ((bytes[bit / 8] & mask) !== (range.bytes[bit / 8] & mask)) return false;
+  }
+  return true;
+}
+
+// The IPv4 address an IPv6 address carries: IPv4-mapped (::ffff:a.b.c.d),
+// IPv4-compatible (::a.b.c.d), NAT64 (64:ff9b::/96) and 6to4 (2002::/16).
+function embeddedIpv4(bytes: number[]): number[] | undefined {
+  const zeros = (from: number, to: number) => bytes.slice(from, to).every((byte) => byte === 0);
+  if (zeros(0, 10) && bytes[10] === 0xff && bytes[11] === 0xff) return bytes.slice(12);
+  if (zeros(0, 12) && !zeros(12, 16)) return bytes.slice(12);
+  if (bytes[0] === 0x00 && bytes[1] === 0x64 && bytes[2] === 0xff && bytes[3] === 0x9b && zeros(4, 12)) {
+    return bytes.slice(12);
+  }
+  if (bytes[0] === 0x20 && bytes[1] === 0x02) return bytes.slice(2, 6);
+  return undefined;
+}
+
+// Why an IP address must not be contacted, or undefined for public addresses.
+export function classifyAddress(address: string): string | undefined {
+  const version = isIP(address);
+  if (version === 4) {
+    return IPV4_RANGE_TABLE.find((range) => inRange(ipv4Bytes(address), range))?.label;
+  }
+  if (version === 6) {
+    const bytes = ipv6Bytes(address);
+    const label = IPV6_RANGE_TABLE.find((range) => inRange(bytes, range))?.label;
+    if (label) return label;
+    const ipv4 = embeddedIpv4(bytes);
+    return ipv4 ? IPV4_RANGE_TABLE.find((range) => inRange(ipv4, range))?.label : undefined;
+  }
+  return undefined;
+}
+
+export interface EgressAllowlist {
+  // Exact hostnames, and "*.example.com" entries matching any subdomain
+  hosts: string[];
+  // Networks whose addresses are allowed despite their range
+  networks: AddressRange[];
+}
+
+// Parse EGRESS_ALLOWLIST: comma-separated hostnames ("intranet.example.com",
+// "*.corp.example.com"), IP addresses and CIDR networks ("10.0.0.0/8",
+// "fd00::/8"). Throws on a malformed network.
+export function parseEgressAllowlist(value: string | undefined): EgressAllowlist {
+  const allowlist: EgressAllowlist = { hosts: [], networks: [] };
+  for (const entry of (value ?? '').split(',').map((item) => item.trim().toLowerCase()).filter(Boolean)) {
+    const [network, prefixText] = entry.split('/');
+    const address = network.replace(/^\[|\]$/g, '');
+    const version = isIP(address);
+    if (!version) {
+      if (prefixText !== undefined) throw new Error(`Invalid EGRESS_ALLOWLIST network "${entry}"`);
+      allowlist.hosts.push(entry);
+      continue;
+    }
+
+    const maxPrefix = version === 4 ? 32 : 128;
+    const prefix = prefixText === undefined ? maxPrefix : Number(prefixText);
+    if (!Number.isInteger(prefix) || prefix < 0 || prefix > maxPrefix) {
+      throw new Error(`Invalid EGRESS_ALLOWLIST network "${entry}": prefix must be 0-${maxPrefix}`);
+    }
+    allowlist.networks.push(toRange([address, prefix, entry]));
+  }
+  return allowlist;
+}
+
+function isAllowedHost(hostname: string, allowlist: EgressAllowlist): boolean {
+  return allowlist.hosts.some((host) =>
+    host.startsWith('*.') ? hostname.endsWith(host.slice(1)) : hostname === host
+  );
+}
+
+function isAllowedAddress(address: string, allowlist: EgressAllowlist): boolean {
+  const bytes = isIP(address) === 4 ? ipv4Bytes(address) : ipv6Bytes(address);
+  return allowlist.networks.some((network) => inRange(bytes, network));
+}
+
+// All addresses a hostname resolves to.
+export type ResolveHost = (hostname: string) => Promise<string[]>;
+
+async function resolveWithDns(hostname: string): Promise<string[]> {
+  const records = await lookup(hostname, { all: true, verbatim: true });
+  return records.map((record) => record.address);
+}
+
+export class EgressGuard {
+  private readonly cache = new Map<string, { expires: number; addresses: Promise<string[]> }>();
+
+  constructor(
+    private readonly allowlist: EgressAllowlist,
+    private readonly resolve: ResolveHost = resolveWithDns,
+    private readonly cacheTtlMs: number = DEFAULT_CACHE_TTL_MS,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  // Throw EgressBlockedError unless the URL's host is public or allowlisted.
+  // A host is refused if any of its addresses is non-public, so a DNS answer
+  // mixing public and private addresses cannot slip through. Unparseable URLs
+  // pass, as do hosts that fail to resolve unless requireResolution is set:
+  // a request through a proxy is resolved by the proxy, but a direct one
+  // could resolve differently on its own a moment later.
+  async check(url: string, options: { requireResolution?: boolean } = {}): Promise<void> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return;
+    }
+    if (LOCAL_SCHEMES.includes(parsed.protocol)) return;
+
+    const hostname = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+    if (!NETWORK_SCHEMES.includes(parsed.protocol)) {
+      throw new EgressBlockedError(hostname || parsed.protocol, `${parsed.protocol.slice(0, -1)} URLs are not allowed`);
+    }
+    if (isAllowedHost(hostname, this.allowlist)) return;
+    if (BLOCKED_HOSTNAMES.includes(hostname) || hostname.endsWith('.localhost')) {
+      throw new EgressBlockedError(hostname, 'local hostname');
+    }
+
+    let addresses: string[];
+    try {
+      addresses = isIP(hostname) ? [hostname] : await this.cachedLookup(hostname);
+    } catch {
+      if (options.requireResolution) throw new EgressBlockedError(hostname, 'does not resolve');
+      return;
+    }
+    this.checkAddresses(hostname, addresses);
+  }
+
+  // A DNS lookup for http(s) agents (the `lookup` socket option). It resolves
+  // afresh, uncached, and fails with EgressBlockedError when any address is
+  // refused, so the connection uses exactly the addresses that were checked.
+  readonly lookup: LookupFunction = (hostname, options, callback) => {
+    const host = hostname.toLowerCase().replace(/\.$/, '');
+    const family = options.family === 'IPv4' ? 4 : options.family === 'IPv6' ? 6 : options.family || 0;
+    const fail = (error: NodeJS.ErrnoException) => callback(error, '');
+    this.resolve(host).then((resolved) => {
+      try {
+        if (!isAllowedHost(host, this.allowlist)) this.checkAddresses(host, resolved);
+      } catch (error) {
+        return fail(error as EgressBlockedError);
+      }
+      const addresses = resolved
+        .map((address) => ({ address, family: isIP(address) }))
+        .filter((entry) => family === 0 || entry.family === family);
+      if (addresses.length === 0) {
+        return fail(Object.assign(new Error(`getaddrinfo ENOTFOUND ${hostname}`), { code: 'ENOTFOUND', hostname }));
+      }
+      if (options.all) callback(null, addresses);
+      else callback(null, addresses[0].address, addresses[0].family);
+    }, fail);
+  };
+
+  private checkAddresses(hostname: string, addresses: string[]): void {
+    for (const address of addresses) {
+      if (isAllowedAddress(address, this.allowlist)) continue;
+      const reason = classifyAddress(address);
+      if (reason) {
+        throw new EgressBlockedError(hostname, address === hostname ? reason : `resolves to ${address}, ${reason}`);
+      }
+    }
+  }
+
+  private cachedLookup(hostname: string): Promise<string[]> {
+    const now = this.now();
+    const cached = this.cache.get(hostname);
+    if (cached && cached.expires > now) return cached.addresses;
+
+    if (this.cache.size >= MAX_CACHED_HOSTS) this.cache.clear();
+    const addresses = this.resolve(hostname);
+    this.cache.set(hostname, { expires: now + this.cacheTtlMs, addresses });
+    // Failed lookups are not cached
+    addresses.catch(() => this.cache.delete(hostname));
+    return addresses;
+  }
+}
@@ -0,0 +1,64 @@
+// Helpers for the lightweight "fetch" scrape engine: a plain HTTP GET whose
+// HTML goes straight to htmlToMarkdown/htmlToText, with heuristics that tell
+// the "auto" engine when a page needs a real browser to render.
+
+import { load } from 'cheerio/slim';
+
+export type ScrapeEngine = 'fetch' | 'browser' | 'auto';
+
+export const SCRAPE_ENGINES: ScrapeEngine[] = ['fetch', 'browser', 'auto'];
+
+// Below this much visible text the page is treated as an empty shell.
+const MIN_BODY_TEXT_LENGTH = 100;
+// Pages whose visible text is a tiny fraction of their markup are usually
+// client-rendered. Only applied when the text is also short, so long SSR pages
+// with big inline state blobs are not misclassified.
+const MIN_TEXT_TO_MARKUP_RATIO = 0.02;
+const RATIO_CHECK_MAX_TEXT_LENGTH = 1000;
+
+// Common "you need JavaScript" messages shown in <noscript> blocks.
+const NOSCRIPT_WARNING = /(enable|requires?|turn on|need)\s+javascript|javascript\s+(is\s+)?(required|disabled|must be enabled)/i;
+
+// Empty mount points used by the popular SPA frameworks.
+const SPA_ROOT_SELECTORS = ['#root', '#app', '#__next', '#__nuxt', '[ng-app]', '[data-reactroot]'];
+
+export function isScrapeEngine(value: unknown): value is ScrapeEngine {
+  return typeof value === 'string' && (SCRAPE_ENGINES as string[]).includes(value);
+}
+
+// Title from the document head (the browser engine uses page.title()).
+export function extractTitle(html: string): string {
+  return load(html)('title').first().text().trim();
+}
+
+// Decide whether fetched HTML looks like it needs JavaScript to render.
+// Returns a short human-readable reason, or undefined if it looks complete.
+export function detectJsRendering(html: string): string | undefined {
+  const $ = load(html);
+
+  const noscript = $('noscript').text();
+  if (NOSCRIPT_WARNING.test(noscript)) {
+    return 'noscript warning';
+  }
+
+  $('script, style, noscript, template, svg').remove();
+  const text = $('body').text().replace(/\s+/g, ' ').trim();
+
+  if (text.length < MIN_BODY_TEXT_LENGTH) {
+    const emptyRoot = SPA_ROOT_SELECTORS.some((selector) => {
+      const el = $(selector).first();
+      return el.length > 0 && el.text().trim().length === 0;
+    });
+    return emptyRoot ? 'empty SPA root element' : 'empty body';
+  }
+
+  if (
+    text.length < RATIO_CHECK_MAX_TEXT_LENGTH &&
+    html.length > 0 &&
+    text.length / html.length < MIN_TEXT_TO_MARKUP_RATIO
+  ) {
+    return 'low text-to-markup ratio';
+  }
+
+  return undefined;
+}
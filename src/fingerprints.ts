@@ -0,0 +1,395 @@
+// Browser fingerprint profiles.
+//
+// A profile bundles everything a site can cross-check against the user agent:
+// platform, viewport and device scale, locale and timezone, Accept-Language
+// and User-Agent Client Hints. Rotating user agents on their own produced
+// impossible combinations (a mobile Safari UA on a 1920px desktop reporting
+// `en-US` from a headless Chrome); picking a whole profile keeps them aligned.
+// applyFingerprint() is the single place a profile is put onto a page.
+
+export interface ClientHints {
+  brands: Array<{ brand: string; version: string }>;
+  fullVersion: string;
+  platform: string;
+  platformVersion: string;
+  architecture: string;
+  bitness: string;
+  model: string;
+  mobile: boolean;
+}
+
+export interface FingerprintViewport {
+  width: number;
+  height: number;
+  deviceScaleFactor: number;
+  isMobile: boolean;
+  hasTouch: boolean;
+}
+
+export interface FingerprintProfile {
+  name: string;
+  userAgent: string;
+  // navigator.platform
+  platform: string;
+  // navigator.vendor
+  vendor: string;
+  viewport: FingerprintViewport;
+  locale: string;
+  languages: string[];
+  timezone: string;
+  acceptLanguage: string;
+  hardwareConcurrency: number;
+  maxTouchPoints: number;
+  // Sent as Sec-CH-UA* by Chromium-based browsers only
+  clientHints?: ClientHints;
+}
+
+const CHROME_VERSION = '131.0.6778.86';
+
+function chromeBrands(product: string): ClientHints['brands'] {
+  return [
+    { brand: product, version: '131' },
+    { brand: 'Chromium', version: '131' },
+    { brand: 'Not_A Brand', version: '24' },
+  ];
+}
+
+export const FINGERPRINT_PROFILES: FingerprintProfile[] = [
+  {
+    name: 'chrome-windows',
+    userAgent:
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
+    platform: 'Win32',
+    vendor: 'Google Inc.',
+    viewport: { width: 1920, height: 1080, deviceScaleFactor: 1, isMobile: false, hasTouch: false },
+    locale: 'en-US',
+    languages: ['en-US', 'en'],
+    timezone: 'America/New_York',
+    acceptLanguage: 'en-US,en;q=0.9',
+    hardwareConcurrency: 8,
+    maxTouchPoints: 0,
+    clientHints: {
+      brands: chromeBrands('Google Chrome'),
+      fullVersion: CHROME_VERSION,
+      platform: 'Windows',
+      platformVersion: '15.0.0',
+      architecture: 'x86',
+      bitness: '64',
+      model: '',
+      mobile: false,
+    },
+  },
+  {
+    name: 'chrome-mac',
+    userAgent:
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
+    platform: 'MacIntel',
+    vendor: 'Google Inc.',
+    viewport: { width: 1440, height: 900, deviceScaleFactor: 2, isMobile: false, hasTouch: false },
+    locale: 'en-US',
+    languages: ['en-US', 'en'],
+    timezone: 'America/Los_Angeles',
+    acceptLanguage: 'en-US,en;q=0.9',
+    hardwareConcurrency: 10,
+    maxTouchPoints: 0,
+    clientHints: {
+      brands: chromeBrands('Google Chrome'),
+      fullVersion: CHROME_VERSION,
+      platform: 'macOS',
+      platformVersion: '14.6.1',
+      architecture: 'arm',
+      bitness: '64',
+      model: '',
+      mobile: false,
+    },
+  },
+  {
+    name: 'chrome-linux',
+    userAgent: 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
+    platform: 'Linux x86_64',
+    vendor: 'Google Inc.',
+    viewport: { width: 1920, height: 1080, deviceScaleFactor: 1, isMobile: false, hasTouch: false },
+    locale: 'en-US',
+    languages: ['en-US', 'en'],
+    timezone: 'America/Chicago',
+    acceptLanguage: 'en-US,en;q=0.9',
+    hardwareConcurrency: 8,
+    maxTouchPoints: 0,
+    clientHints: {
+      brands: chromeBrands('Google Chrome'),
+      fullVersion: CHROME_VERSION,
+      platform: 'Linux',
+      platformVersion: '6.8.0',
+      architecture: 'x86',
+      bitness: '64',
+      model: '',
+      mobile: false,
+    },
+  },
+  {
+    name: 'edge-windows',
+    userAgent:
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36 Edg/131.0.0.0',
+    platform: 'Win32',
+    vendor: 'Google Inc.',
+    viewport: { width: 1536, height: 864, deviceScaleFactor: 1.25, isMobile: false, hasTouch: false },
+    locale: 'en-GB',
+    languages: ['en-GB', 'en'],
+    timezone: 'Europe/London',
+    acceptLanguage: 'en-GB,en;q=0.9',
+    hardwareConcurrency: 12,
+    maxTouchPoints: 0,
+    clientHints: {
+      brands: chromeBrands('Microsoft Edge'),
+      fullVersion: '131.0.2903.70',
+      platform: 'Windows',
+      platformVersion: '15.0.0',
+      architecture: 'x86',
+      bitness: '64',
+      model: '',
+      mobile: false,
+    },
+  },
+  {
+    name: 'safari-mac',
+    userAgent:
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/18.1 Safari/605.1.15',
+    platform: 'MacIntel',
+    vendor: 'Apple Computer, Inc.',
+    viewport: { width: 1512, height: 982, deviceScaleFactor: 2, isMobile: false, hasTouch: false },
+    locale: 'en-US',
+    languages: ['en-US'],
+    timezone: 'America/Los_Angeles',
+    acceptLanguage: 'en-US,en;q=0.9',
+    hardwareConcurrency: 8,
+    maxTouchPoints: 0,
+  },
+  {
+    name: 'safari-iphone',
+    userAgent:
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 18_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/18.1 Mobile/15E148 Safari/604.1',
+    platform: 'iPhone',
+    vendor: 'Apple Computer, Inc.',
+    viewport: { width: 393, height: 852, deviceScaleFactor: 3, isMobile: true, hasTouch: true },
+    locale: 'en-US',
+    languages: ['en-US'],
+    timezone: 'America/New_York',
+    acceptLanguage: 'en-US,en;q=0.9',
+    hardwareConcurrency: 4,
+    maxTouchPoints: 5,
+  },
+  {
+    name: 'chrome-android',
+    userAgent:
+      'Mozilla/5.0 (Linux; Android 10; K) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Mobile Safari/537.36',
+    platform: 'Linux armv81',
+    vendor: 'Google Inc.',
+    viewport: { width: 412, height: 915, deviceScaleFactor: 2.625, isMobile: true, hasTouch: true },
+    locale: 'en-US',
+    languages: ['en-US', 'en'],
+    timezone: 'America/Chicago',
+    acceptLanguage: 'en-US,en;q=0.9',
+    hardwareConcurrency: 8,
+    maxTouchPoints: 5,
+    clientHints: {
+      brands: chromeBrands('Google Chrome'),
+      fullVersion: CHROME_VERSION,
+      platform: 'Android',
+      platformVersion: '14.0.0',
+      architecture: '',
+      bitness: '',
+      model: 'Pixel 7',
+      mobile: true,
+    },
+  },
+];
+
+export const FINGERPRINT_NAMES = FINGERPRINT_PROFILES.map((profile) => profile.name);
+
+// Rotated by default: desktop Chromium profiles, which match the engine that
+// actually renders the page (headless Chrome) most closely.
+export const DEFAULT_FINGERPRINT_ROTATION = ['chrome-windows', 'chrome-mac', 'edge-windows'];
+
+// JSON schema fragment for the tools' `fingerprint` parameter.
+export const FINGERPRINT_SCHEMA = {
+  type: 'string',
+  enum: FINGERPRINT_NAMES,
+  description:
+    'Browser fingerprint profile to present (user agent, platform, viewport, locale, timezone and client hints). ' +
+    'Defaults to rotating the profiles configured by SCRAPE_FINGERPRINT.',
+};
+
+export function getFingerprintProfile(name: string): FingerprintProfile | undefined {
+  return FINGERPRINT_PROFILES.find((profile) => profile.name === name);
+}
+
+function requireProfile(name: string): FingerprintProfile {
+  const profile = getFingerprintProfile(name);
+  if (!profile) {
+    throw new Error(`Unknown fingerprint profile "${name}": must be one of ${FINGERPRINT_NAMES.join(', ')}`);
+  }
+  return profile;
+}
+
+// Build a profile around a custom user agent by borrowing everything else
+// from the built-in profile for the same browser and OS. Chromium client hint
+// versions are updated to the UA's major version.
+export function profileForUserAgent(userAgent: string): FingerprintProfile {
+  const base = /iPhone|iPad|iPod/.test(userAgent)
+    ? 'safari-iphone'
+    : /Android/.test(userAgent)
+      ? 'chrome-android'
+      : /Edg\//.test(userAgent)
+        ? 'edge-windows'
+        : /Macintosh/.test(userAgent)
+          ? /Chrome\//.test(userAgent) ? 'chrome-mac' : 'safari-mac'
+          : /X11|Linux/.test(userAgent)
+            ? 'chrome-linux'
+            : 'chrome-windows';
+  const profile = requireProfile(base);
+
+  const major = userAgent.match(/(?:Chrome|Edg)\/(\d+)/)?.[1];
+  const clientHints = profile.clientHints && major
+    ? {
+        ...profile.clientHints,
+        brands: profile.clientHints.brands.map((b) => (b.brand === 'Not_A Brand' ? b : { ...b, version: major })),
+        fullVersion: `${major}.0.0.0`,
+      }
+    : profile.clientHints;
+
+  const platform = /iPad/.test(userAgent) ? 'iPad' : profile.platform;
+
+  return { ...profile, name: `custom:${base}`, userAgent, platform, clientHints };
+}
+
+// Profiles to rotate through, from SCRAPE_FINGERPRINT (comma-separated
+// profile names, or "all"). When unset, custom SCRAPE_USER_AGENT strings are
+// wrapped in matching profiles; otherwise the default desktop rotation is used.
+export function parseFingerprintProfiles(setting: string | undefined, customUserAgents: string[] = []): FingerprintProfile[] {
+  const value = setting?.trim();
+  if (!value) {
+    return customUserAgents.length > 0
+      ? customUserAgents.map(profileForUserAgent)
+      : DEFAULT_FINGERPRINT_ROTATION.map(requireProfile);
+  }
+  if (value === 'all') {
+    return [...FINGERPRINT_PROFILES];
+  }
+  return value
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean)
+    .map(requireProfile);
+}
+
+// HTTP headers a browser with this profile sends on navigation requests.
+// Used by the fetch engine; the browser sends them itself once applied.
+export function fingerprintHeaders(profile: FingerprintProfile): Record<string, string> {
+  const headers: Record<string, string> = {
+    'User-Agent': profile.userAgent,
+    'Accept-Language': profile.acceptLanguage,
+  };
+  if (profile.clientHints) {
+    headers['Sec-CH-UA'] = profile.clientHints.brands.map((b) => `"${b.brand}";v="${b.version}"`).join(', ');
+    headers['Sec-CH-UA-Mobile'] = profile.clientHints.mobile ? '?1' : '?0';
+    headers['Sec-CH-UA-Platform'] = `"${profile.clientHints.platform}"`;
+  }
+  return headers;
+}
+
+// The puppeteer Page methods applyFingerprint needs (kept structural so it
+// can be tested with a fake page).
+export interface FingerprintPage {
+  setUserAgent(userAgent: string, userAgentMetadata?: unknown): Promise<void>;
+  setViewport(viewport: FingerprintViewport): Promise<void>;
+  emulateTimezone(timezoneId?: string): Promise<void>;
+  setExtraHTTPHeaders(headers: Record<string, string>): Promise<void>;
+  evaluateOnNewDocument(fn: (...args: any[]) => unknown, ...args: unknown[]): Promise<unknown>;
+  // The page's own CDP session (puppeteer's CdpPage)
+  _client?(): { send(method: string, params?: unknown): Promise<unknown> };
+}
+
+// Navigator overrides injected before any page script runs.
+interface NavigatorOverrides {
+  platform: string;
+  vendor: string;
+  languages: string[];
+  hardwareConcurrency: number;
+  maxTouchPoints: number;
+  isMobile: boolean;
+  chromium: boolean;
+}
+
+function overrideNavigator(overrides: NavigatorOverrides): void {
+  const define = (name: string, value: unknown) =>
+    Object.defineProperty(Navigator.prototype, name, { get: () => value, configurable: true });
+
+  define('webdriver', undefined);
+  define('platform', overrides.platform);
+  define('vendor', overrides.vendor);
+  define('languages', Object.freeze([...overrides.languages]));
+  define('language', overrides.languages[0]);
+  define('hardwareConcurrency', overrides.hardwareConcurrency);
+  define('maxTouchPoints', overrides.maxTouchPoints);
+  if (overrides.isMobile) {
+    // Mobile browsers expose no plugins
+    define('plugins', []);
+    define('mimeTypes', []);
+  }
+  if (overrides.chromium && !(window as any).chrome) {
+    (window as any).chrome = { runtime: {} };
+  }
+}
+
+// Put a profile onto a page: user agent and client hints, viewport and device
+// scale, timezone, locale, Accept-Language and the matching navigator values.
+// `size` overrides the profile's viewport dimensions (e.g. for screenshots).
+export async function applyFingerprint(
+  page: FingerprintPage,
+  profile: FingerprintProfile,
+  size?: { width: number; height: number }
+): Promise<void> {
+  const hints = profile.clientHints;
+  await page.setUserAgent(
+    profile.userAgent,
+    hints
+      ? {
+          brands: hints.brands,
+          fullVersionList: hints.brands.map((b) =>
+            b.brand === 'Not_A Brand' ? { ...b, version: `${b.version}.0.0.0` } : { ...b, version: hints.fullVersion }
+          ),
+          fullVersion: hints.fullVersion,
+          platform: hints.platform,
+          platformVersion: hints.platformVersion,
+          architecture: hints.architecture,
+          bitness: hints.bitness,
+          model: hints.model,
+          mobile: hints.mobile,
+        }
+      : undefined
+  );
+
+  await page.setViewport({ ...profile.viewport, ...size });
+  await page.emulateTimezone(profile.timezone);
+  await page.setExtraHTTPHeaders({ 'Accept-Language': profile.acceptLanguage });
+
+  // Intl / toLocaleString() formatting follows the profile's locale. The
+  // override only lasts while the session that set it is attached, so it goes
+  // through the page's own session; a new session per page would pile up in
+  // long-lived pooled browsers.
+  const client = page._client?.();
+  if (client) {
+    await client.send('Emulation.setLocaleOverride', { locale: profile.locale });
+  }
+
+  const overrides: NavigatorOverrides = {
+    platform: profile.platform,
+    vendor: profile.vendor,
+    languages: profile.languages,
+    hardwareConcurrency: profile.hardwareConcurrency,
+    maxTouchPoints: profile.maxTouchPoints,
+    isMobile: profile.viewport.isMobile,
+    chromium: profile.clientHints !== undefined,
+  };
+  await page.evaluateOnNewDocument(overrideNavigator, overrides);
+}
@@ -0,0 +1,119 @@
+// Selectable output formats for scrape_page and batch_scrape. A single scrape
+// already yields rendered HTML, Markdown and text; this module picks the
+// requested views and shapes them into one structured response.
+
+import { cleanHtml } from './htmlToMarkdown.js';
+import { extractLinks } from './crawler.js';
+import { PageMetadata } from './metadata.js';
+
+export type ScrapeFormat =
+  | 'markdown'
+  | 'text'
+  | 'html'
+  | 'rawHtml'
+  | 'links'
+  | 'metadata'
+  | 'screenshot';
+
+export const SCRAPE_FORMATS: ScrapeFormat[] = [
+  'markdown',
+  'text',
+  'html',
+  'rawHtml',
+  'links',
+  'metadata',
+  'screenshot',
+];
+
+// JSON schema fragment for the tools' `formats` parameter.
+export const FORMATS_SCHEMA = {
+  type: 'array',
+  items: { type: 'string', enum: SCRAPE_FORMATS },
+  description:
+    'Fields to return as structured JSON: markdown, text (plain text), html (cleaned), ' +
+    'rawHtml (as rendered), links, metadata, screenshot (PNG data URL; needs the browser). ' +
+    'When omitted, only the Markdown is returned.',
+};
+
+// The parts of a scrape result the formats are built from.
+export interface FormattableScrape {
+  url: string;
+  title: string;
+  markdown: string;
+  content: string;
+  html: string;
+  screenshot?: string;
+  engine?: string;
+  metadata?: PageMetadata;
+  blockedRequests?: number;
+  statusCode?: number;
+  contentType?: string;
+  finalUrl?: string;
+}
+
+// Validate untrusted tool input. Returns undefined when no formats were given
+// (callers keep their plain-Markdown response) and drops duplicates.
+export function parseFormats(input: unknown): ScrapeFormat[] | undefined {
+  if (input === undefined) return undefined;
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new Error('Invalid formats: must be a non-empty array');
+  }
+  for (const format of input) {
+    if (!(SCRAPE_FORMATS as unknown[]).includes(format)) {
+      throw new Error(`Invalid format "${String(format)}": must be one of ${SCRAPE_FORMATS.join(', ')}`);
+    }
+  }
+  return [...new Set(input as ScrapeFormat[])];
+}
+
+function withoutUndefined(record: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined));
+}
+
+// Build the response object holding only the requested formats.
+export function formatScrapeResult(
+  result: FormattableScrape,
+  formats: ScrapeFormat[],
+  onlyMainContent: boolean = true
+): Record<string, unknown> {
+  const output: Record<string, unknown> = {};
+
+  // Relative links resolve against the page as loaded, after any redirects
+  const baseUrl = result.finalUrl ?? result.url;
+  for (const format of formats) {
+    switch (format) {
+      case 'markdown':
+        output.markdown = result.markdown;
+        break;
+      case 'text':
+        output.text = result.content;
+        break;
+      case 'html':
+        output.html = cleanHtml(result.html, { onlyMainContent, baseUrl });
+        break;
+      case 'rawHtml':
+        output.rawHtml = result.html;
+        break;
+      case 'links':
+        output.links = extractLinks(result.html, baseUrl);
+        break;
+      case 'metadata':
+        output.metadata = withoutUndefined({
+          title: result.title,
+          url: result.url,
+          finalUrl: result.finalUrl,
+          statusCode: result.statusCode,
+          contentType: result.contentType,
+          engine: result.engine,
+          blockedRequests: result.blockedRequests,
+          ...result.metadata,
+        });
+        break;
+      case 'screenshot':
+        output.screenshot = result.screenshot;
+        break;
+    }
+  }
+
+  return output;
+}
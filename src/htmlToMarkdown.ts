@@ -252,6 +252,13 @@ export function htmlToMarkdown(html: string, options: CleanOptions = {}): string
   return tidyMarkdown(markdown);
 }
 
+// Return the cleaned HTML (same cleaning as the Markdown path, before
+// conversion). Used for the `html` output format.
+export function cleanHtml(html: string, options: CleanOptions = {}): string {
+  const $ = clean(html, options);
+  return ($('body').html() ?? $.html() ?? '').trim();
+}
+
 // Extract readable plain text (used for the `content` field).
 export function htmlToText(html: string, options: CleanOptions = {}): string {
   const $ = clean(html, options);
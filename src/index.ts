@@ -7,31 +7,141 @@ import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import {
   Tool,
+  CallToolRequest,
   CallToolRequestSchema,
+  CallToolResult,
   ListToolsRequestSchema,
+  McpError,
+  RequestInfo,
 } from '@modelcontextprotocol/sdk/types.js';
 
 // Web framework and utilities
-import express, { Request, Response } from 'express';
+import express, { NextFunction, Request, Response } from 'express';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import { randomUUID } from 'node:crypto';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { readFileSync } from 'node:fs';
+import http from 'node:http';
+import https from 'node:https';
 
 // External dependencies
 import dotenv from 'dotenv';
-import axios from 'axios';
+import axios, { AxiosRequestConfig } from 'axios';
+import { SocksProxyAgent } from 'socks-proxy-agent';
 
 // Shared pure helpers (also covered by unit tests in tests/)
 import {
-  DEFAULT_USER_AGENT,
   isValidUrl,
   sanitizeUrl,
   validatePrompt,
   parseProxyUrls,
+  parseProxyEndpoint,
+  proxyServerArg,
+  ProxyEndpoint,
   parseUserAgents,
   parseLlmConfig,
   buildLlmRequestBody,
   parseLlmJson,
+  parseHttpErrorPolicy,
+  isHttpErrorStatus,
+  normalizeHeaders,
 } from './utils.js';
 import { htmlToMarkdown, htmlToText } from './htmlToMarkdown.js';
+import { BrowserPool, BrowserSpec, PoolLease } from './browserPool.js';
+import { Job, JobQueue } from './jobQueue.js';
+import {
+  crawlSite,
+  CrawlOptions,
+  DEFAULT_CRAWL_MAX_DEPTH,
+  DEFAULT_CRAWL_MAX_PAGES,
+  MAX_CRAWL_DEPTH,
+  MAX_CRAWL_PAGES,
+  extractLinks,
+  normalizeUrl,
+} from './crawler.js';
+import { mapSite, DEFAULT_MAP_LIMIT, MAX_MAP_LIMIT } from './sitemap.js';
+import { ACTIONS_SCHEMA, ActionResult, PageAction, parseActions, runActions } from './actions.js';
+import {
+  ScrapeEngine,
+  SCRAPE_ENGINES,
+  isScrapeEngine,
+  extractTitle,
+  detectJsRendering,
+} from './fetchEngine.js';
+import { FORMATS_SCHEMA, parseFormats, formatScrapeResult } from './formats.js';
+import { extractMetadata, PageMetadata } from './metadata.js';
+import { withRetry, HttpStatusError, classifyError } from './retry.js';
+import { ProxyManager, redactProxyUrl, UnsupportedProxyError } from './proxyManager.js';
+import {
+  FingerprintProfile,
+  FINGERPRINT_SCHEMA,
+  applyFingerprint,
+  fingerprintHeaders,
+  getFingerprintProfile,
+  parseFingerprintProfiles,
+} from './fingerprints.js';
+import { DEVICE_SCHEMA, DeviceEmulation, emulateDevice, parseDevice } from './devices.js';
+import { BlockedError, BlockKind, detectBlock } from './blockDetection.js';
+import { EgressGuard, parseEgressAllowlist } from './egressGuard.js';
+import { DomainPolicy, DomainPolicyConfig, parseDomainPatterns, parseDomainPolicyFile } from './domainPolicy.js';
+import { ApiKeyAuthenticator, parseApiKeys, parseApiKeysFile } from './auth.js';
+import {
+  parseRateLimitConfig,
+  RATE_LIMITED_ERROR_CODE,
+  RateLimiter,
+  RateLimitError,
+  ToolBudgets,
+} from './rateLimit.js';
+import {
+  BLOCK_RESOURCES_PRESETS,
+  BLOCK_RESOURCES_SCHEMA,
+  enableResourceBlocking,
+  isBlockingEnabled,
+  parseBlockResources,
+  parseBlockResourcesConfig,
+  ResourceBlocking
+} from './resourceBlocking.js';
+import {
+  CapturedResponse,
+  captureNetworkResponses,
+  NETWORK_CAPTURE_SCHEMA,
+  NetworkCaptureOptions,
+  parseNetworkCapture
+} from './networkCapture.js';
+import {
+  followPagination,
+  joinPages,
+  PAGINATION_SCHEMA,
+  PaginationOptions,
+  PaginationResult,
+  parsePagination,
+  parseScroll,
+  SCROLL_SCHEMA,
+  ScrollOptions,
+  ScrollResult,
+  scrollToEnd
+} from './pagination.js';
+import { applyGeolocation, applyLocation, LOCATION_SCHEMA, LocationOptions, parseLocation } from './location.js';
+import {
+  createSearchProvider,
+  DEFAULT_SEARCH_SCRAPE_RESULTS,
+  EXCLUDE_DOMAINS_SCHEMA,
+  filterResultsByDomain,
+  formatSearchContext,
+  INCLUDE_DOMAINS_SCHEMA,
+  MAX_SEARCH_LIMIT,
+  MAX_SEARCH_SCRAPE_LIMIT,
+  parseDomainList,
+  parseSearchConfig,
+  parseSearchLimit,
+  parseTimeRange,
+  scopeQuery,
+  SearchContextPage,
+  SearchProvider,
+  SearchResult,
+  searchQueryFromPrompt,
+  TIME_RANGE_SCHEMA
+} from './search.js';
 
 dotenv.config();
 
@@ -68,9 +178,47 @@ async function initializePuppeteer() {
   }
 }
 
+// Build Puppeteer launch options with enhanced anti-detection for a pooled browser
+// SECURITY: Removed --disable-web-security which is a major security risk
+function buildLaunchOptions(spec: BrowserSpec): any {
+  const launchOptions: any = {
+    headless: 'new', // Use new headless mode for better stealth
+    args: [
+      '--no-sandbox',
+      '--disable-setuid-sandbox',
+      '--disable-dev-shm-usage',
+      '--disable-accelerated-2d-canvas',
+      '--no-first-run',
+      '--no-zygote',
+      '--disable-gpu',
+      '--disable-features=VizDisplayCompositor',
+      '--disable-blink-features=AutomationControlled',
+      '--disable-extensions-except',
+      '--disable-plugins-discovery',
+      '--no-default-browser-check',
+      '--no-experiments',
+      '--disable-default-apps',
+      '--disable-sync',
+      '--disable-translate',
+      '--hide-scrollbars',
+      '--mute-audio',
+      '--no-pings',
+      '--no-session-id',
+      '--disable-background-timer-throttling',
+      '--disable-backgrounding-occluded-windows',
+      '--disable-renderer-backgrounding'
+    ]
+  };
+
+  // Add proxy configuration if available (credentials are sent per page)
+  if (spec.proxyUrl) {
+    launchOptions.args.push(`--proxy-server=${proxyServerArg(parseProxyEndpoint(spec.proxyUrl))}`);
+  }
+
+  return launchOptions;
+}
+
 // Constants
-const DEFAULT_VIEWPORT_WIDTH = 1920;
-const DEFAULT_VIEWPORT_HEIGHT = 1080;
 const DEFAULT_SCRAPE_DELAY_MIN = 1000;
 const DEFAULT_SCRAPE_DELAY_MAX = 3000;
 const DEFAULT_BATCH_DELAY_MIN = 2000;
@@ -79,13 +227,28 @@ const DEFAULT_BATCH_DELAY_MAX = 5000;
 // stable, so this only caps pages that keep mutating. Bump it (e.g. 12000) for
 // sites that inject content via long setTimeouts.
 const DEFAULT_SETTLE_MAX_MS = 3000;
+const DEFAULT_SCRAPE_ENGINE: ScrapeEngine = 'browser';
 const DEFAULT_RETRY_ATTEMPTS = 3;
 const DEFAULT_RETRY_INITIAL_DELAY = 1000;
 const DEFAULT_RETRY_MAX_DELAY = 10000;
 const DEFAULT_RETRY_BACKOFF_FACTOR = 2;
+const DEFAULT_POOL_MAX_BROWSERS = 3;
+const DEFAULT_POOL_MAX_PAGES_PER_BROWSER = 50;
+const DEFAULT_POOL_IDLE_TIMEOUT_MS = 60000;
+const DEFAULT_JOB_CONCURRENCY = 4;
+const DEFAULT_JOB_QUEUE_DEPTH = 100;
+const DEFAULT_JOB_QUEUE_DEPTH_PER_SESSION = 25;
+const DEFAULT_JOB_TIMEOUT_MS = 120000;
+const DEFAULT_PROXY_COOLDOWN_BASE_MS = 30000;
+const DEFAULT_PROXY_COOLDOWN_MAX_MS = 600000;
+const DEFAULT_PROXY_STICKY_SESSION_MS = 600000;
 
 // Security constants
 const MAX_URLS_PER_REQUEST = 10;
+const MAX_METADATA_PROMPT_CHARS = 8000;
+const MAX_NETWORK_PROMPT_CHARS = 20000;
+const MAX_SEARCH_CONTEXT_PAGE_CHARS = 6000;
+const MAX_FETCH_REDIRECTS = 5;
 
 // Types
 interface ScrapedContent {
@@ -96,6 +259,35 @@ interface ScrapedContent {
   html: string;
   success: boolean;
   error?: string;
+  actions?: ActionResult[];
+  engine?: 'fetch' | 'browser';
+  screenshot?: string;
+  metadata?: PageMetadata;
+  // Navigation response details (final response after any redirects)
+  statusCode?: number;
+  headers?: Record<string, string>;
+  contentType?: string;
+  finalUrl?: string;
+  redirectChain?: string[];
+  // Set when the page was a bot wall (captcha, challenge, access denied)
+  blocked?: BlockKind;
+  // Requests aborted by resource blocking (browser engine only)
+  blockedRequests?: number;
+  // XHR/fetch responses recorded with captureNetwork (browser engine only)
+  network?: CapturedResponse[];
+  // How infinite scrolling ended (scroll mode)
+  scroll?: ScrollResult;
+  // URLs of every page joined into the content, and why following stopped
+  pagination?: Omit<PaginationResult, 'pages'> & { pages: string[] };
+}
+
+interface ScreenshotResult {
+  success: boolean;
+  dataUrl?: string;
+  base64?: string;
+  metadata?: any;
+  error?: string;
+  actions?: ActionResult[];
 }
 
 interface ExtractedData {
@@ -103,9 +295,34 @@ interface ExtractedData {
   data: any;
   success: boolean;
   error?: string;
+  actions?: ActionResult[];
+  // Pages scraped from web search results as extra context (enableWebSearch)
+  webSources?: string[];
+}
+
+// Per-request page loading options shared by the scraping tools
+interface PageOptions {
+  actions?: PageAction[];
+  engine?: ScrapeEngine;
+  // Also capture a PNG screenshot of the page (browser engine only)
+  screenshot?: boolean;
+  // Fingerprint profile name; rotates through CONFIG.scraping.fingerprints when unset
+  fingerprint?: string;
+  // Device or viewport to emulate on top of the fingerprint profile
+  device?: DeviceEmulation;
+  // Languages, timezone, geolocation and proxy country to present
+  location?: LocationOptions;
+  // Resource types and domains to block; defaults to SCRAPE_BLOCK_RESOURCES
+  // for page scrapes and to nothing for screenshots
+  blockResources?: ResourceBlocking;
+  // Record matching XHR/fetch responses during load (browser engine only)
+  captureNetwork?: NetworkCaptureOptions;
+  // Keep scrolling an infinite feed / follow "next" pages (browser engine only)
+  scroll?: ScrollOptions;
+  pagination?: PaginationOptions;
 }
 
-interface ScrapeOptions {
+interface ScrapeOptions extends PageOptions {
   url: string;
   onlyMainContent?: boolean;
 }
@@ -121,6 +338,16 @@ interface ExtractOptions {
   schema?: any;
   enableWebSearch?: boolean;
 }
+// Shared `engine` parameter for the tools that scrape page content
+const ENGINE_SCHEMA = {
+  type: 'string',
+  enum: SCRAPE_ENGINES,
+  description:
+    'How to load the page: "browser" renders with headless Chrome, "fetch" uses a plain HTTP GET ' +
+    '(fast, static pages only), "auto" fetches first and falls back to the browser for JavaScript-rendered pages. ' +
+    'Defaults to SCRAPE_ENGINE (browser).'
+};
+
 const SCRAPE_TOOL: Tool = {
   name: 'scrape_page',
   description: 'Extract content from a single webpage',
@@ -133,6 +360,16 @@ const SCRAPE_TOOL: Tool = {
         description: 'Extract only main content',
         default: true
       },
+      engine: ENGINE_SCHEMA,
+      fingerprint: FINGERPRINT_SCHEMA,
+      device: DEVICE_SCHEMA,
+      location: LOCATION_SCHEMA,
+      blockResources: BLOCK_RESOURCES_SCHEMA,
+      scroll: SCROLL_SCHEMA,
+      pagination: PAGINATION_SCHEMA,
+      captureNetwork: NETWORK_CAPTURE_SCHEMA,
+      formats: FORMATS_SCHEMA,
+      actions: ACTIONS_SCHEMA,
     },
     required: ['url'],
   },
@@ -154,11 +391,139 @@ const BATCH_SCRAPE_TOOL: Tool = {
         description: 'Extract only main content',
         default: true
       },
+      engine: ENGINE_SCHEMA,
+      fingerprint: FINGERPRINT_SCHEMA,
+      device: DEVICE_SCHEMA,
+      location: LOCATION_SCHEMA,
+      blockResources: BLOCK_RESOURCES_SCHEMA,
+      scroll: SCROLL_SCHEMA,
+      pagination: PAGINATION_SCHEMA,
+      formats: FORMATS_SCHEMA,
     },
     required: ['urls'],
   },
 };
 
+const CRAWL_SITE_TOOL: Tool = {
+  name: 'crawl_site',
+  description: 'Crawl a website breadth-first from a seed URL and scrape each page',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      url: { type: 'string', description: 'Seed URL to start crawling from' },
+      maxDepth: {
+        type: 'number',
+        description: `Maximum link depth from the seed URL (max ${MAX_CRAWL_DEPTH})`,
+        default: DEFAULT_CRAWL_MAX_DEPTH
+      },
+      maxPages: {
+        type: 'number',
+        description: `Maximum number of pages to scrape (max ${MAX_CRAWL_PAGES})`,
+        default: DEFAULT_CRAWL_MAX_PAGES
+      },
+      allowSubdomains: {
+        type: 'boolean',
+        description: 'Also follow links to subdomains of the seed host',
+        default: false
+      },
+      includePaths: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Only follow links whose path matches one of these globs (e.g. "/blog/**")'
+      },
+      excludePaths: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Never follow links whose path matches one of these globs'
+      },
+      onlyMainContent: {
+        type: 'boolean',
+        description: 'Extract only main content',
+        default: true
+      },
+      engine: ENGINE_SCHEMA,
+      fingerprint: FINGERPRINT_SCHEMA,
+      device: DEVICE_SCHEMA,
+      location: LOCATION_SCHEMA,
+      blockResources: BLOCK_RESOURCES_SCHEMA,
+    },
+    required: ['url'],
+  },
+};
+
+const MAP_SITE_TOOL: Tool = {
+  name: 'map_site',
+  description: 'List the URLs of a website from its sitemaps, falling back to links on the homepage',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      url: { type: 'string', description: 'Website URL to map' },
+      search: {
+        type: 'string',
+        description: 'Only return URLs containing one of these space-separated terms'
+      },
+      limit: {
+        type: 'number',
+        description: `Maximum number of URLs to return (max ${MAX_MAP_LIMIT})`,
+        default: DEFAULT_MAP_LIMIT
+      },
+      allowSubdomains: {
+        type: 'boolean',
+        description: 'Include URLs on subdomains of the site',
+        default: false
+      },
+    },
+    required: ['url'],
+  },
+};
+
+const WEB_SEARCH_TOOL: Tool = {
+  name: 'web_search',
+  description: 'Search the web with the configured search provider (SEARCH_PROVIDER) and return result titles, URLs and snippets',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Search query' },
+      limit: {
+        type: 'number',
+        description: `Maximum number of results (max ${MAX_SEARCH_LIMIT})`,
+        default: 5
+      },
+    },
+    required: ['query'],
+  },
+};
+
+const SEARCH_AND_SCRAPE_TOOL: Tool = {
+  name: 'search_and_scrape',
+  description: 'Search the web and scrape the top results, returning title, URL, snippet and Markdown for each',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Search query' },
+      limit: {
+        type: 'number',
+        description: `Number of results to scrape (max ${MAX_SEARCH_SCRAPE_LIMIT})`,
+        default: DEFAULT_SEARCH_SCRAPE_RESULTS
+      },
+      includeDomains: INCLUDE_DOMAINS_SCHEMA,
+      excludeDomains: EXCLUDE_DOMAINS_SCHEMA,
+      timeRange: TIME_RANGE_SCHEMA,
+      onlyMainContent: {
+        type: 'boolean',
+        description: 'Extract only main content',
+        default: true
+      },
+      engine: ENGINE_SCHEMA,
+      fingerprint: FINGERPRINT_SCHEMA,
+      device: DEVICE_SCHEMA,
+      location: LOCATION_SCHEMA,
+      blockResources: BLOCK_RESOURCES_SCHEMA,
+    },
+    required: ['query'],
+  },
+};
+
 const EXTRACT_DATA_TOOL: Tool = {
   name: 'extract_data',
   description: 'Extract structured data from webpages using LLM',
@@ -176,9 +541,18 @@ const EXTRACT_DATA_TOOL: Tool = {
       },
       enableWebSearch: {
         type: 'boolean',
-        description: 'Enable web search for additional context',
+        description: 'Search the web for the prompt and scrape the top results as additional context (requires SEARCH_PROVIDER)',
         default: false
       },
+      engine: ENGINE_SCHEMA,
+      fingerprint: FINGERPRINT_SCHEMA,
+      device: DEVICE_SCHEMA,
+      location: LOCATION_SCHEMA,
+      blockResources: BLOCK_RESOURCES_SCHEMA,
+      scroll: SCROLL_SCHEMA,
+      pagination: PAGINATION_SCHEMA,
+      captureNetwork: NETWORK_CAPTURE_SCHEMA,
+      actions: ACTIONS_SCHEMA,
     },
     required: ['urls', 'prompt'],
   },
@@ -205,9 +579,18 @@ const EXTRACT_WITH_SCHEMA_TOOL: Tool = {
       },
       enableWebSearch: { 
         type: 'boolean', 
-        description: 'Enable web search for additional context',
+        description: 'Search the web for the prompt and scrape the top results as additional context (requires SEARCH_PROVIDER)',
         default: false
       },
+      engine: ENGINE_SCHEMA,
+      fingerprint: FINGERPRINT_SCHEMA,
+      device: DEVICE_SCHEMA,
+      location: LOCATION_SCHEMA,
+      blockResources: BLOCK_RESOURCES_SCHEMA,
+      scroll: SCROLL_SCHEMA,
+      pagination: PAGINATION_SCHEMA,
+      captureNetwork: NETWORK_CAPTURE_SCHEMA,
+      actions: ACTIONS_SCHEMA,
     },
     required: ['urls', 'schema'],
   },
@@ -222,19 +605,22 @@ const SCREENSHOT_TOOL: Tool = {
       url: { type: 'string', description: 'Webpage URL to screenshot' },
       width: { 
         type: 'number', 
-        description: 'Viewport width in pixels',
-        default: 1920
+        description: "Viewport width in pixels (defaults to the fingerprint profile's)"
       },
       height: { 
         type: 'number', 
-        description: 'Viewport height in pixels', 
-        default: 1080
+        description: "Viewport height in pixels (defaults to the fingerprint profile's)"
       },
       fullPage: { 
         type: 'boolean', 
         description: 'Capture full page height',
         default: false
       },
+      fingerprint: FINGERPRINT_SCHEMA,
+      device: DEVICE_SCHEMA,
+      location: LOCATION_SCHEMA,
+      blockResources: BLOCK_RESOURCES_SCHEMA,
+      actions: ACTIONS_SCHEMA,
     },
     required: ['url'],
   },
@@ -243,37 +629,47 @@ const SCREENSHOT_TOOL: Tool = {
 // Lightweight tool definitions for essential Firecrawl functionality
 
 // Local web scraping functions
-// Smart proxy failover wrapper for screenshots with 3-attempt retry logic
-async function screenshotWebpage(url: string, width: number = 1920, height: number = 1080, fullPage: boolean = false): Promise<{ success: boolean; dataUrl?: string; base64?: string; metadata?: any; error?: string; }> {
-  const maxAttempts = 3;
-  let lastError: Error | string | null = null;
-  
-  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-    try {
-      const result = await screenshotWebpageWithProxy(url, width, height, fullPage);
-      if (result.success) {
-        return result; // Success on this attempt
+// Smart proxy failover wrapper for screenshots. Retries transient failures
+// (see retry.ts) with backoff from CONFIG.retry, each attempt on the next proxy.
+async function screenshotWebpage(url: string, width?: number, height?: number, fullPage: boolean = false, pageOptions: PageOptions = {}): Promise<ScreenshotResult> {
+  // SECURITY: Refuse policy-denied and private, loopback or metadata-service
+  // targets up front, then count the page against the client's budget
+  try {
+    await checkRequest(url);
+    await chargePage();
+  } catch (error) {
+    // A spent page budget fails the whole call (see callToolRequestHandler)
+    if (error instanceof RateLimitError) throw error;
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+
+  let attempts = 0;
+  try {
+    return await withRetry(async (attempt) => {
+      attempts = attempt;
+      const result = await runBrowserJob((signal) => screenshotWebpageWithProxy(url, width, height, fullPage, pageOptions, signal));
+      if (!result.success) {
+        throw new Error(result.error || 'Unknown screenshot error');
       }
-      lastError = result.error || 'Unknown screenshot error';
-    } catch (error) {
-      lastError = error instanceof Error ? error.message : String(error);
-    }
-    
-    // If we still have attempts left, continue to next proxy
-    if (attempt < maxAttempts) {
-      console.error(`Screenshot attempt ${attempt} failed for ${url}, trying next proxy...`);
-    }
+      return result;
+    }, CONFIG.retry, {
+      onRetry: ({ attempt, delayMs, classification }) =>
+        console.error(`Screenshot attempt ${attempt} failed for ${url} (${classification.reason}), retrying in ${delayMs}ms with next proxy...`),
+    });
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed after ${attempts} attempt${attempts === 1 ? '' : 's'}. Last error: ${error instanceof Error ? error.message : String(error)}`
+    };
   }
-  
-  // All attempts failed
-  return {
-    success: false,
-    error: `Failed after ${maxAttempts} attempts. Last error: ${lastError}`
-  };
 }
 
 // Core screenshot function that uses a specific proxy from rotation
-async function screenshotWebpageWithProxy(url: string, width: number = 1920, height: number = 1080, fullPage: boolean = false): Promise<{ success: boolean; dataUrl?: string; base64?: string; metadata?: any; error?: string; }> {
+// Width and height default to the fingerprint profile's viewport.
+async function screenshotWebpageWithProxy(url: string, width?: number, height?: number, fullPage: boolean = false, pageOptions: PageOptions = {}, signal?: AbortSignal): Promise<ScreenshotResult> {
   // Initialize puppeteer modules
   await initializePuppeteer();
   
@@ -287,88 +683,50 @@ async function screenshotWebpageWithProxy(url: string, width: number = 1920, hei
 
   const sanitizedUrl = sanitizeUrl(url);
 
-  let browser;
+  // Get a healthy proxy (sticky per target domain)
+  const proxyUrl = proxyManager.acquire(sanitizedUrl, pageOptions.location?.country);
+
+  let lease: PoolLease | undefined;
   try {
-    // Get proxy configuration with rotation
-    const proxyUrl = getNextProxy();
-    const proxyUsername = CONFIG.proxy.username;
-    const proxyPassword = CONFIG.proxy.password;
+    const proxyAuth = proxyUrl ? browserProxyAuth(proxyUrl) : undefined;
     
-    // Get scraping configuration with user agent rotation
-    const customUserAgent = getNextUserAgent();
+    // Pick a coherent fingerprint profile (named or from rotation)
+    const fingerprint = pageFingerprint(pageOptions);
     const delayMin = CONFIG.scraping.delayMin;
     const delayMax = CONFIG.scraping.delayMax;
 
-    // Build Puppeteer launch options with enhanced anti-detection
-    const launchOptions: any = {
-      headless: 'new', // Use new headless mode for better stealth
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-accelerated-2d-canvas',
-        '--no-first-run',
-        '--no-zygote',
-        '--disable-gpu',
-        '--disable-features=VizDisplayCompositor',
-        '--disable-blink-features=AutomationControlled',
-        '--disable-extensions-except',
-        '--disable-plugins-discovery',
-        '--no-default-browser-check',
-        '--no-experiments',
-        '--disable-default-apps',
-        '--disable-sync',
-        '--disable-translate',
-        '--hide-scrollbars',
-        '--mute-audio',
-        '--no-pings',
-        '--no-session-id',
-        '--disable-background-timer-throttling',
-        '--disable-backgrounding-occluded-windows',
-        '--disable-renderer-backgrounding',
-        `--user-agent=${customUserAgent}`
-      ]
-    };
-    
-    // Add proxy configuration if available
     if (proxyUrl) {
-      launchOptions.args.push(`--proxy-server=${proxyUrl}`);
-      
-      if (proxyUsername && proxyPassword) {
+      if (proxyAuth) {
         console.error(`Using authenticated proxy for screenshot: [REDACTED]`);
       } else {
         console.error(`Using proxy for screenshot: ${proxyUrl}`);
       }
     }
     
-    browser = await puppeteer.launch(launchOptions);
+    // Borrow an isolated page from a warm pooled browser
+    lease = await browserPool.acquire({ proxyUrl });
+    releaseOnAbort(lease, signal);
     
-    const page = await browser.newPage();
+    const page = lease.page;
     
-    // Enhanced anti-detection setup
-    await page.setUserAgent(customUserAgent);
-    
-    // Set viewport
-    await page.setViewport({ width, height });
-    
-    // Add common browser properties to avoid detection
-    await page.evaluateOnNewDocument(() => {
-      // Override navigator properties
-      Object.defineProperty(navigator, 'webdriver', { get: () => undefined });
-      Object.defineProperty(navigator, 'plugins', { get: () => [1, 2, 3, 4, 5] });
-      Object.defineProperty(navigator, 'languages', { get: () => ['en-US', 'en'] });
-      
-      // Mock common browser APIs
-      (window as any).chrome = { runtime: {} };
-    });
+    // Anti-detection: the whole profile, at the requested screenshot size
+    const viewport = {
+      width: width || fingerprint.viewport.width,
+      height: height || fingerprint.viewport.height
+    };
+    await applyFingerprint(page, fingerprint, viewport);
+    await applyGeolocation(page, sanitizedUrl, pageOptions.location?.geolocation);
     
     // Handle proxy authentication if credentials are provided
-    if (proxyUrl && proxyUsername && proxyPassword) {
-      await page.authenticate({
-        username: proxyUsername,
-        password: proxyPassword
-      });
+    if (proxyAuth) {
+      await page.authenticate(proxyAuth);
     }
+
+    // Skip the requested resource types and domains while the page loads, and
+    // refuse requests the domain policy or egress guard rejects (redirects and
+    // subresources)
+    const blocking = pageOptions.blockResources ?? BLOCK_RESOURCES_PRESETS.none;
+    const blockingStats = await enableResourceBlocking(page, blocking, (requestUrl, isMainDocument) => checkRequest(requestUrl, isMainDocument, !proxyUrl));
     
     // Add random delay before navigation
     const delay = Math.floor(Math.random() * (delayMax - delayMin)) + delayMin;
@@ -378,6 +736,8 @@ async function screenshotWebpageWithProxy(url: string, width: number = 1920, hei
     await page.goto(sanitizedUrl, {
       waitUntil: 'networkidle2',
       timeout: 30000
+    }).catch((error: unknown) => {
+      throw blockingStats.navigationError ?? error;
     });
     
     // Simulate human-like behavior
@@ -398,6 +758,11 @@ async function screenshotWebpageWithProxy(url: string, width: number = 1920, hei
     
     // Final wait for any dynamic content
     await new Promise(resolve => setTimeout(resolve, 1000));
+
+    // Run any scripted actions; the screenshot captures the page after the last step
+    const actions = pageOptions.actions?.length
+      ? await runActions(page, pageOptions.actions)
+      : undefined;
     
     // Take screenshot and return as base64 for remote deployment compatibility
     const screenshotBuffer = await page.screenshot({ 
@@ -412,7 +777,8 @@ async function screenshotWebpageWithProxy(url: string, width: number = 1920, hei
     // Get metadata about the image
     const fileSizeKB = Math.round(screenshotBuffer.length / 1024);
     const timestamp = new Date().toISOString();
-    
+
+    reportProxyOutcome(proxyUrl);
     return {
       success: true,
       dataUrl,
@@ -420,21 +786,26 @@ async function screenshotWebpageWithProxy(url: string, width: number = 1920, hei
       metadata: {
         format: 'png',
         sizeKB: fileSizeKB,
-        dimensions: `${width}x${height}`,
+        dimensions: `${viewport.width}x${viewport.height}`,
         fullPage,
         timestamp,
-        url: sanitizedUrl
-      }
+        url: sanitizedUrl,
+        blockedRequests: isBlockingEnabled(blocking) ? blockingStats.blocked : undefined
+      },
+      actions
     };
     
   } catch (error) {
+    // An aborted job failed because its page was closed, not the proxy
+    if (!signal?.aborted) reportProxyOutcome(proxyUrl, error);
     return {
       success: false,
       error: error instanceof Error ? error.message : String(error)
     };
   } finally {
-    if (browser) {
-      await browser.close();
+    // Closes the page's context; the browser stays warm for the next call
+    if (lease) {
+      await lease.release();
     }
   }
 }
@@ -467,42 +838,203 @@ async function waitForContentToSettle(page: any, maxWaitMs: number): Promise<voi
   }
 }
 
-// Smart proxy failover wrapper with 3-attempt retry logic
-async function scrapeWebpage(url: string, onlyMainContent: boolean = true): Promise<ScrapedContent> {
-  const maxAttempts = 3;
-  let lastError: Error | string | null = null;
-  
-  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-    try {
-      const result = await scrapeWebpageWithProxy(url, onlyMainContent);
-      if (result.success) {
-        return result; // Success on this attempt
+// Smart proxy failover wrapper with retry and backoff (see retry.ts). Dispatches to the
+// lightweight fetch engine or the browser; "auto" tries a plain fetch first and
+// falls back to the browser when the page looks JavaScript-rendered.
+async function scrapeWebpage(url: string, onlyMainContent: boolean = true, pageOptions: PageOptions = {}): Promise<ScrapedContent> {
+  const engine = pageOptions.engine ?? CONFIG.scraping.engine;
+  const needsBrowser =
+    (pageOptions.actions?.length ?? 0) > 0 ||
+    pageOptions.screenshot === true ||
+    pageOptions.captureNetwork !== undefined ||
+    pageOptions.scroll !== undefined ||
+    pageOptions.pagination !== undefined;
+
+  if (engine === 'fetch' && needsBrowser) {
+    return {
+      url,
+      title: '',
+      content: '',
+      markdown: '',
+      html: '',
+      success: false,
+      error: 'Page actions, screenshots, network capture, scrolling and pagination require the "browser" or "auto" engine'
+    };
+  }
+
+  // SECURITY: Refuse policy-denied and private, loopback or metadata-service
+  // targets before any attempt; redirects and subresources are checked as
+  // they happen. Then count the page against the client's budget.
+  try {
+    await checkRequest(url);
+    await chargePage();
+  } catch (error) {
+    // A spent page budget fails the whole call (see callToolRequestHandler)
+    if (error instanceof RateLimitError) throw error;
+    return {
+      url,
+      title: '',
+      content: '',
+      markdown: '',
+      html: '',
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+
+  if (engine === 'auto' && !needsBrowser) {
+    const fetched = await fetchWebpage(url, onlyMainContent, pageOptions);
+    const reason = !fetched.success
+      ? fetched.error
+      : isHttpErrorStatus(fetched.statusCode, 'fail')
+        ? `HTTP ${fetched.statusCode}`
+        : detectJsRendering(fetched.html);
+    if (!reason) {
+      return fetched;
+    }
+    console.error(`Fetch engine insufficient for ${url} (${reason}), falling back to browser...`);
+  }
+
+  let attempts = 0;
+  let blocked: BlockKind | undefined;
+  try {
+    return await withRetry(async (attempt) => {
+      attempts = attempt;
+      const result = engine === 'fetch'
+        ? await fetchWebpage(url, onlyMainContent, pageOptions)
+        : await runBrowserJob((signal, deadline) => scrapeWebpageWithProxy(url, onlyMainContent, pageOptions, signal, deadline));
+      blocked = result.blocked;
+      if (!result.success) {
+        throw new Error(result.error || 'Unknown scraping error');
+      }
+      if (isHttpErrorStatus(result.statusCode, CONFIG.scraping.httpErrorPolicy)) {
+        throw new HttpStatusError(
+          result.statusCode!,
+          `HTTP ${result.statusCode} response from ${result.finalUrl ?? url}`,
+          result.headers?.['retry-after']
+        );
+      }
+      return result;
+    }, CONFIG.retry, {
+      onRetry: ({ attempt, delayMs, classification }) =>
+        console.error(`Scrape attempt ${attempt} failed for ${url} (${classification.reason}), retrying in ${delayMs}ms with next proxy...`),
+    });
+  } catch (error) {
+    return {
+      url,
+      title: '',
+      content: '',
+      markdown: '',
+      html: '',
+      success: false,
+      error: `Failed after ${attempts} attempt${attempts === 1 ? '' : 's'}. Last error: ${error instanceof Error ? error.message : String(error)}`,
+      blocked
+    };
+  }
+}
+
+// Scrape a page with a plain HTTP GET (no browser, no delays) using a proxy from
+// rotation. Suited to static pages; the HTML is converted exactly as the
+// browser engine's rendered HTML would be.
+async function fetchWebpage(url: string, onlyMainContent: boolean = true, pageOptions: PageOptions = {}): Promise<ScrapedContent> {
+  // SECURITY: Validate and sanitize URL
+  if (!isValidUrl(url)) {
+    return {
+      url,
+      title: '',
+      content: '',
+      markdown: '',
+      html: '',
+      success: false,
+      error: 'Invalid URL format. Only HTTP and HTTPS URLs are allowed.'
+    };
+  }
+
+  const sanitizedUrl = sanitizeUrl(url);
+  const proxyUrl = proxyManager.acquire(sanitizedUrl, pageOptions.location?.country);
+  const fingerprint = pageFingerprint(pageOptions);
+
+  try {
+    // Follow redirects by hand so the chain and final URL can be recorded
+    let currentUrl = sanitizedUrl;
+    const redirectChain: string[] = [];
+    let response;
+    for (;;) {
+      // SECURITY: Every hop must pass the domain policy and egress guard, not
+      // just the first
+      await checkRequest(currentUrl, true, !proxyUrl);
+      response = await axios.get(currentUrl, {
+        headers: {
+          ...fingerprintHeaders(fingerprint),
+          'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8'
+        },
+        ...(proxyUrl ? buildAxiosProxy(proxyUrl) : DIRECT_AGENTS),
+        responseType: 'text',
+        timeout: 30000,
+        maxRedirects: 0,
+        validateStatus: () => true, // status is recorded, and judged by the HTTP error policy
+        maxContentLength: 10 * 1024 * 1024 // 10MB max page size
+      });
+
+      const location = response.headers['location'];
+      if (response.status < 300 || response.status >= 400 || !location) {
+        break;
+      }
+      if (redirectChain.length >= MAX_FETCH_REDIRECTS) {
+        throw new Error(`Too many redirects (more than ${MAX_FETCH_REDIRECTS})`);
+      }
+      redirectChain.push(currentUrl);
+      currentUrl = new URL(String(location), currentUrl).href;
+      if (!isValidUrl(currentUrl)) {
+        throw new Error('Redirected to a non-HTTP(S) URL');
       }
-      lastError = result.error || 'Unknown scraping error';
-    } catch (error) {
-      lastError = error instanceof Error ? error.message : String(error);
     }
-    
-    // If we still have attempts left, continue to next proxy
-    if (attempt < maxAttempts) {
-      console.error(`Scrape attempt ${attempt} failed for ${url}, trying next proxy...`);
+
+    const headers = normalizeHeaders(response.headers);
+    const contentType = headers['content-type'] ?? '';
+    if (contentType && !/html|xml/i.test(contentType)) {
+      throw new Error(`Unsupported content type: ${contentType}`);
+    }
+
+    const html = String(response.data);
+    const block = detectBlock({ statusCode: response.status, headers, html });
+    if (block) {
+      throw new BlockedError(block);
     }
+
+    reportProxyOutcome(proxyUrl, undefined, response.status);
+    return {
+      url,
+      title: extractTitle(html),
+      content: htmlToText(html, { onlyMainContent, baseUrl: currentUrl }),
+      markdown: htmlToMarkdown(html, { onlyMainContent, baseUrl: currentUrl }),
+      html,
+      success: true,
+      engine: 'fetch',
+      metadata: extractMetadata(html, currentUrl),
+      statusCode: response.status,
+      headers,
+      contentType,
+      finalUrl: currentUrl,
+      redirectChain
+    };
+  } catch (error) {
+    reportProxyOutcome(proxyUrl, error);
+    return {
+      url,
+      title: '',
+      content: '',
+      markdown: '',
+      html: '',
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      blocked: error instanceof BlockedError ? error.kind : undefined
+    };
   }
-  
-  // All attempts failed
-  return {
-    url,
-    title: '',
-    content: '',
-    markdown: '',
-    html: '',
-    success: false,
-    error: `Failed after ${maxAttempts} attempts. Last error: ${lastError}`
-  };
 }
 
 // Core scraping function that uses a specific proxy from rotation
-async function scrapeWebpageWithProxy(url: string, onlyMainContent: boolean = true): Promise<ScrapedContent> {
+async function scrapeWebpageWithProxy(url: string, onlyMainContent: boolean = true, pageOptions: PageOptions = {}, signal?: AbortSignal, deadline: number = Infinity): Promise<ScrapedContent> {
   // Initialize puppeteer modules
   await initializePuppeteer();
   
@@ -521,59 +1053,21 @@ async function scrapeWebpageWithProxy(url: string, onlyMainContent: boolean = tr
 
   const sanitizedUrl = sanitizeUrl(url);
 
-  let browser;
+  // Get a healthy proxy (sticky per target domain)
+  const proxyUrl = proxyManager.acquire(sanitizedUrl, pageOptions.location?.country);
+
+  let lease: PoolLease | undefined;
   try {
-    // Get proxy configuration with rotation
-    const proxyUrl = getNextProxy();
-    const proxyUsername = CONFIG.proxy.username;
-    const proxyPassword = CONFIG.proxy.password;
-    
+    const proxyAuth = proxyUrl ? browserProxyAuth(proxyUrl) : undefined;
 
-    // Get scraping configuration with user agent rotation
-    const customUserAgent = getNextUserAgent();
-    const viewportWidth = CONFIG.scraping.viewportWidth;
-    const viewportHeight = CONFIG.scraping.viewportHeight;
+    // Pick a coherent fingerprint profile (named or from rotation)
+    const fingerprint = pageFingerprint(pageOptions);
     const delayMin = CONFIG.scraping.delayMin;
     const delayMax = CONFIG.scraping.delayMax;
 
-    // Build Puppeteer launch options with enhanced anti-detection
-    // SECURITY: Removed --disable-web-security which is a major security risk
-    const launchOptions: any = {
-      headless: 'new', // Use new headless mode for better stealth
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-accelerated-2d-canvas',
-        '--no-first-run',
-        '--no-zygote',
-        '--disable-gpu',
-        '--disable-features=VizDisplayCompositor',
-        '--disable-blink-features=AutomationControlled',
-        '--disable-extensions-except',
-        '--disable-plugins-discovery',
-        '--no-default-browser-check',
-        '--no-experiments',
-        '--disable-default-apps',
-        '--disable-sync',
-        '--disable-translate',
-        '--hide-scrollbars',
-        '--mute-audio',
-        '--no-pings',
-        '--no-session-id',
-        '--disable-background-timer-throttling',
-        '--disable-backgrounding-occluded-windows',
-        '--disable-renderer-backgrounding',
-        `--user-agent=${customUserAgent}`
-      ]
-    };
-    
-    // Add proxy configuration if available
     if (proxyUrl) {
-      launchOptions.args.push(`--proxy-server=${proxyUrl}`);
-      
       // If proxy requires authentication, we'll handle it in the page setup
-      if (proxyUsername && proxyPassword) {
+      if (proxyAuth) {
         // SECURITY: Never log proxy URLs that might contain credentials
         console.error(`Using authenticated proxy: [REDACTED]`);
       } else {
@@ -581,43 +1075,51 @@ async function scrapeWebpageWithProxy(url: string, onlyMainContent: boolean = tr
       }
     }
     
-    browser = await puppeteer.launch(launchOptions);
+    // Borrow an isolated page from a warm pooled browser
+    lease = await browserPool.acquire({ proxyUrl });
+    releaseOnAbort(lease, signal);
     
-    const page = await browser.newPage();
+    const page = lease.page;
     
-    // Enhanced anti-detection setup
-    await page.setUserAgent(customUserAgent);
-    
-    // Set viewport to common desktop size
-    await page.setViewport({ width: viewportWidth, height: viewportHeight });
-    
-    // Add common browser properties to avoid detection
-    await page.evaluateOnNewDocument(() => {
-      // Override navigator properties
-      Object.defineProperty(navigator, 'webdriver', { get: () => undefined });
-      Object.defineProperty(navigator, 'plugins', { get: () => [1, 2, 3, 4, 5] });
-      Object.defineProperty(navigator, 'languages', { get: () => ['en-US', 'en'] });
-      
-      // Mock common browser APIs
-      (window as any).chrome = { runtime: {} };
-    });
+    // Anti-detection: user agent, client hints, viewport, locale and timezone
+    // from one profile (SCRAPE_VIEWPORT_* override the profile's size unless a
+    // device was requested)
+    await applyFingerprint(page, fingerprint, pageOptions.device ? undefined : CONFIG.scraping.viewport);
+    await applyGeolocation(page, sanitizedUrl, pageOptions.location?.geolocation);
     
     // Handle proxy authentication if credentials are provided
-    if (proxyUrl && proxyUsername && proxyPassword) {
-      await page.authenticate({
-        username: proxyUsername,
-        password: proxyPassword
-      });
+    if (proxyAuth) {
+      await page.authenticate(proxyAuth);
     }
+
+    // Skip images, fonts, trackers etc. while the page loads (only the HTML is
+    // kept), and refuse requests the domain policy or egress guard rejects
+    // (redirects and subresources)
+    const blocking = pageOptions.blockResources ?? CONFIG.scraping.blockResources;
+    const blockingStats = await enableResourceBlocking(page, blocking, (requestUrl, isMainDocument) => checkRequest(requestUrl, isMainDocument, !proxyUrl));
+
+    // Record the page's own API responses from navigation through settling
+    const networkCapture = pageOptions.captureNetwork ? captureNetworkResponses(page, pageOptions.captureNetwork) : undefined;
     
     // Add random delay before navigation
     const delay = Math.floor(Math.random() * (delayMax - delayMin)) + delayMin;
     await new Promise(resolve => setTimeout(resolve, delay));
 
+    // Latest main-frame document response: a challenge that clears itself
+    // reloads the page, leaving goto()'s response stale for block detection
+    let documentResponse: any;
+    page.on('response', (pageResponse: any) => {
+      if (pageResponse.request().isNavigationRequest() && pageResponse.frame() === page.mainFrame()) {
+        documentResponse = pageResponse;
+      }
+    });
+
     // SECURITY: Use sanitized URL and add timeout
-    await page.goto(sanitizedUrl, {
+    const response = await page.goto(sanitizedUrl, {
       waitUntil: 'networkidle2',
       timeout: 30000
+    }).catch((error: unknown) => {
+      throw blockingStats.navigationError ?? error;
     });
     
     // Simulate human-like behavior
@@ -634,26 +1136,97 @@ async function scrapeWebpageWithProxy(url: string, onlyMainContent: boolean = tr
     // Wait for the DOM to stabilize. Adapts to AJAX/lazy content (a stable page
     // exits in ~1-2s) while capping the wait for never-settling SPAs. Tunable
     // via SCRAPE_SETTLE_MAX_MS for sites with long setTimeout-injected content.
-    await waitForContentToSettle(page, CONFIG.scraping.settleMaxMs);
+    const settle = (target: any) => waitForContentToSettle(target, CONFIG.scraping.settleMaxMs);
+    await settle(page);
+
+    // Fail the attempt on a bot wall (checked after settling, so challenges
+    // that clear themselves get the chance to)
+    const latestResponse = documentResponse ?? response;
+    const block = detectBlock({
+      statusCode: latestResponse?.status(),
+      headers: normalizeHeaders(latestResponse?.headers()),
+      title: await page.title(),
+      html: await page.content()
+    });
+    if (block) {
+      throw new BlockedError(block);
+    }
+
+    // Run any scripted actions, then let their effects settle before capture
+    let actions: ActionResult[] | undefined;
+    if (pageOptions.actions?.length) {
+      actions = await runActions(page, pageOptions.actions);
+      await settle(page);
+    }
+
+    // Scrolling and pagination stop early near the job deadline, so the
+    // pages loaded so far are returned rather than lost to the timeout
+    const captureDeadline = deadline - CAPTURE_RESERVE_MS;
+
+    // Infinite scroll: keep loading the feed until it stops growing
+    const scroll = pageOptions.scroll ? await scrollToEnd(page, pageOptions.scroll, settle, Date.now, captureDeadline) : undefined;
 
     // Extract title
     const title = await page.title();
 
+    // Navigation response details; goto() returns null for same-document navigations
+    const headers = normalizeHeaders(response?.headers());
+
+    // Final URL after redirects (and any navigation triggered by actions)
+    const finalUrl = page.url() || response?.url() || sanitizedUrl;
+
     // Get the fully rendered HTML, then derive clean Markdown and text from it.
     const html = await page.content();
-    const markdown = htmlToMarkdown(html, { onlyMainContent, baseUrl: url });
-    const content = htmlToText(html, { onlyMainContent, baseUrl: url });
+    let markdown = htmlToMarkdown(html, { onlyMainContent, baseUrl: finalUrl });
+    let content = htmlToText(html, { onlyMainContent, baseUrl: finalUrl });
+
+    // Optional screenshot of the same page state, as a data URL
+    let screenshot: string | undefined;
+    if (pageOptions.screenshot) {
+      const screenshotBuffer = await page.screenshot({ type: 'png' });
+      screenshot = `data:image/png;base64,${Buffer.from(screenshotBuffer).toString('base64')}`;
+    }
+
+    // Follow "next" pages and join their Markdown and text after the first
+    // page's (HTML, metadata and screenshot stay those of the first page)
+    let pagination: ScrapedContent['pagination'];
+    if (pageOptions.pagination) {
+      const { pages: nextPages, ...outcome } = await followPagination(page, pageOptions.pagination, settle, (url) => isValidUrl(url) && domainPolicy.allows(url), captureDeadline);
+      const pages = [{ url: finalUrl, html }, ...nextPages];
+      markdown = joinPages(pages.map((p) => ({ url: p.url, text: htmlToMarkdown(p.html, { onlyMainContent, baseUrl: p.url }) })), 'markdown');
+      content = joinPages(pages.map((p) => ({ url: p.url, text: htmlToText(p.html, { onlyMainContent, baseUrl: p.url }) })), 'text');
+      pagination = { pages: pages.map((p) => p.url), ...outcome };
+    }
+
+    // Captured API responses, once any bodies still being read are in
+    const network = await networkCapture?.collect();
 
+    reportProxyOutcome(proxyUrl, undefined, response?.status());
     return {
       url,
       title,
       content,
       markdown,
       html,
-      success: true
+      success: true,
+      actions,
+      engine: 'browser',
+      screenshot,
+      metadata: extractMetadata(html, finalUrl),
+      blockedRequests: isBlockingEnabled(blocking) ? blockingStats.blocked : undefined,
+      network,
+      scroll,
+      pagination,
+      statusCode: response?.status(),
+      headers,
+      contentType: headers['content-type'],
+      finalUrl,
+      redirectChain: response?.request().redirectChain().map((request: any) => request.url()) ?? []
     };
     
   } catch (error) {
+    // An aborted job failed because its page was closed, not the proxy
+    if (!signal?.aborted) reportProxyOutcome(proxyUrl, error);
     return {
       url,
       title: '',
@@ -661,41 +1234,212 @@ async function scrapeWebpageWithProxy(url: string, onlyMainContent: boolean = tr
       markdown: '',
       html: '',
       success: false,
-      error: error instanceof Error ? error.message : String(error)
+      error: error instanceof Error ? error.message : String(error),
+      blocked: error instanceof BlockedError ? error.kind : undefined
     };
   } finally {
-    if (browser) {
-      await browser.close();
+    // Closes the page's context; the browser stays warm for the next call
+    if (lease) {
+      await lease.release();
     }
   }
 }
 
-async function extractDataWithLLM(url: string, prompt: string, schema?: any): Promise<ExtractedData> {
-  // SECURITY: Validate inputs
-  if (!isValidUrl(url)) {
-    return {
-      url,
-      data: null,
-      success: false,
-      error: 'Invalid URL format. Only HTTP and HTTPS URLs are allowed.'
-    };
+// Credentials for a proxy: the entry's inline user:pass@ if present, else the
+// shared PROXY_SERVER_USERNAME/PASSWORD pair.
+function proxyCredentials(endpoint: ProxyEndpoint): { username: string; password: string } | undefined {
+  if (endpoint.username) {
+    return { username: endpoint.username, password: endpoint.password ?? '' };
   }
+  if (CONFIG.proxy.username && CONFIG.proxy.password) {
+    return { username: CONFIG.proxy.username, password: CONFIG.proxy.password };
+  }
+  return undefined;
+}
 
-  if (!validatePrompt(prompt)) {
-    return {
-      url,
-      data: null,
-      success: false,
-      error: 'Invalid prompt. Prompt must be between 1 and 10,000 characters.'
-    };
+// Credentials for the browser to answer a proxy auth challenge with. Chrome
+// cannot authenticate to SOCKS proxies at all, so the shared pair only applies
+// to HTTP(S) proxies there, and a SOCKS entry with inline credentials fails
+// with UnsupportedProxyError. Such entries are refused at startup unless
+// SCRAPE_ENGINE=fetch, so this only happens when a call asks for the browser.
+function browserProxyAuth(proxyUrl: string): { username: string; password: string } | undefined {
+  const endpoint = parseProxyEndpoint(proxyUrl);
+  if (endpoint.protocol === 'socks4' || endpoint.protocol === 'socks5') {
+    if (endpoint.username) {
+      throw new UnsupportedProxyError('Chrome does not support authenticated SOCKS proxies; use the fetch engine or an HTTP(S) proxy');
+    }
+    return undefined;
   }
+  return proxyCredentials(endpoint);
+}
 
-  const sanitizedUrl = sanitizeUrl(url);
+// Axios settings that route a request through a proxy: axios' own proxy option
+// for HTTP(S) proxies, or a SOCKS agent for socks4/socks5.
+function buildAxiosProxy(proxyUrl: string): Pick<AxiosRequestConfig, 'proxy' | 'httpAgent' | 'httpsAgent'> {
+  const endpoint = parseProxyEndpoint(proxyUrl);
+  const credentials = proxyCredentials(endpoint);
+
+  if (endpoint.protocol === 'socks4' || endpoint.protocol === 'socks5') {
+    const agentUrl = new URL(proxyServerArg(endpoint));
+    if (credentials) {
+      agentUrl.username = encodeURIComponent(credentials.username);
+      agentUrl.password = encodeURIComponent(credentials.password);
+    }
+    const agent = new SocksProxyAgent(agentUrl.href);
+    return { proxy: false, httpAgent: agent, httpsAgent: agent };
+  }
+
+  return {
+    proxy: {
+      protocol: endpoint.protocol,
+      host: endpoint.host,
+      port: endpoint.port,
+      auth: credentials
+    }
+  };
+}
+
+// Fetch a small resource (robots.txt, sitemaps) over plain HTTP through the
+// scraping proxy rotation. Returns undefined on any error or non-2xx status.
+// Each fetch counts as a page against the client's budget; a spent budget
+// throws RateLimitError rather than passing for a missing resource.
+async function fetchResource(url: string): Promise<Buffer | undefined> {
+  if (!isValidUrl(url)) return undefined;
+  await chargePage();
+
+  const proxyUrl = proxyManager.acquire(url);
+  try {
+    // Follow redirects by hand so each hop passes the domain policy and
+    // egress guard
+    let currentUrl = sanitizeUrl(url);
+    for (let redirects = 0; ; redirects++) {
+      await checkRequest(currentUrl, true, !proxyUrl);
+      const response = await axios.get(currentUrl, {
+        headers: fingerprintHeaders(nextFingerprint()),
+        ...(proxyUrl ? buildAxiosProxy(proxyUrl) : DIRECT_AGENTS),
+        responseType: 'arraybuffer',
+        timeout: 15000,
+        maxRedirects: 0,
+        validateStatus: (status) => status >= 200 && status < 400,
+        maxContentLength: 50 * 1024 * 1024, // sitemaps may be up to 50MB uncompressed
+      });
+
+      const location = response.headers['location'];
+      if (response.status < 300) {
+        reportProxyOutcome(proxyUrl);
+        return Buffer.from(response.data);
+      }
+      if (!location || redirects >= MAX_FETCH_REDIRECTS) {
+        throw new Error(`HTTP ${response.status} without a followable redirect`);
+      }
+      currentUrl = new URL(String(location), currentUrl).href;
+      if (!isValidUrl(currentUrl)) {
+        throw new Error('Redirected to a non-HTTP(S) URL');
+      }
+    }
+  } catch (error) {
+    reportProxyOutcome(proxyUrl, error);
+    return undefined;
+  }
+}
+
+// Fetch a search results page. Search requests go out directly unless
+// SEARCH_USE_PROXY=true, since a SearxNG instance is often on the local
+// network. Transient failures are retried; errors propagate to the caller.
+async function fetchSearchPage(url: string, headers: Record<string, string> = {}): Promise<string> {
+  return withRetry(
+    async () => {
+      const proxyUrl = CONFIG.search.useProxy ? proxyManager.acquire(url) : undefined;
+      try {
+        const response = await axios.get(url, {
+          headers: { ...fingerprintHeaders(nextFingerprint()), ...headers },
+          ...(proxyUrl ? buildAxiosProxy(proxyUrl) : {}),
+          responseType: 'text',
+          timeout: 15000,
+          maxContentLength: 5 * 1024 * 1024,
+        });
+        reportProxyOutcome(proxyUrl);
+        return String(response.data);
+      } catch (error) {
+        reportProxyOutcome(proxyUrl, error);
+        throw error;
+      }
+    },
+    CONFIG.retry,
+    {
+      onRetry: ({ attempt, delayMs, classification }) =>
+        console.error(`Search request attempt ${attempt} failed (${classification.reason}), retrying in ${delayMs}ms...`),
+    }
+  );
+}
+
+// Search for an extraction prompt and scrape the top results as extra
+// context, skipping the URLs being extracted. A failed search is logged and
+// leaves the extraction without web context.
+async function gatherWebSearchContext(
+  prompt: string,
+  excludeUrls: string[],
+  pageOptions: PageOptions
+): Promise<SearchContextPage[]> {
+  if (!searchProvider) {
+    throw new Error('enableWebSearch requires a search provider: set SEARCH_PROVIDER to searxng or html');
+  }
+
+  let results: SearchResult[];
+  try {
+    results = await searchProvider.search({ query: searchQueryFromPrompt(prompt), limit: CONFIG.search.maxResults });
+  } catch (error) {
+    console.error(`Web search failed, extracting without web context: ${error instanceof Error ? error.message : String(error)}`);
+    return [];
+  }
+
+  const excluded = new Set(excludeUrls.map((url) => normalizeUrl(url) ?? url));
+  const pages: SearchContextPage[] = [];
+  for (const result of results) {
+    if (pages.length >= CONFIG.search.scrapeResults) break;
+    if (excluded.has(normalizeUrl(result.url) ?? result.url)) continue;
+    const scraped = await scrapeWebpage(result.url, true, pageOptions);
+    if (scraped.success) {
+      pages.push({ url: result.url, title: scraped.title || result.title, content: scraped.markdown || scraped.content });
+    } else {
+      console.error(`Skipping search result ${result.url}: ${scraped.error}`);
+    }
+  }
+  return pages;
+}
+
+async function extractDataWithLLM(
+  url: string,
+  prompt: string,
+  schema?: any,
+  pageOptions: PageOptions = {},
+  webContext: SearchContextPage[] = []
+): Promise<ExtractedData> {
+  // SECURITY: Validate inputs
+  if (!isValidUrl(url)) {
+    return {
+      url,
+      data: null,
+      success: false,
+      error: 'Invalid URL format. Only HTTP and HTTPS URLs are allowed.'
+    };
+  }
+
+  if (!validatePrompt(prompt)) {
+    return {
+      url,
+      data: null,
+      success: false,
+      error: 'Invalid prompt. Prompt must be between 1 and 10,000 characters.'
+    };
+  }
+
+  const sanitizedUrl = sanitizeUrl(url);
   const sanitizedPrompt = prompt.trim();
 
   try {
     // First scrape the webpage
-    const scraped = await scrapeWebpage(url, true);
+    const scraped = await scrapeWebpage(url, true, pageOptions);
     if (!scraped.success) {
       return {
         url,
@@ -719,16 +1463,29 @@ async function extractDataWithLLM(url: string, prompt: string, schema?: any): Pr
       };
     }
     
+    // Page metadata (description, dates, JSON-LD, ...) is often the most reliable
+    // source for fields like author or price, so pass it along, size-capped.
+    const metadataJson = scraped.metadata && Object.keys(scraped.metadata).length > 0
+      ? JSON.stringify(scraped.metadata)
+      : '';
+    const metadataContext = metadataJson.slice(0, MAX_METADATA_PROMPT_CHARS);
+
+    // JSON the page loaded from its own API is the data before rendering, so
+    // it goes to the model as the preferred source, size-capped.
+    const networkContext = scraped.network?.length
+      ? JSON.stringify(scraped.network.filter((response) => !response.truncated).map(({ url, body }) => ({ url, body }))).slice(0, MAX_NETWORK_PROMPT_CHARS)
+      : '';
+
     // Prepare the extraction prompt
     const extractionPrompt = `
 You are a data extraction assistant. Extract information from the following webpage content based on the user's request.
 
 Webpage URL: ${sanitizedUrl}
 Webpage Title: ${scraped.title}
-
+${metadataContext ? `\nPage Metadata (from meta tags and structured data):\n${metadataContext}\n` : ''}${networkContext ? `\nAPI Responses (JSON the page loaded from its own API; prefer these over the content below when they hold the requested data):\n${networkContext}\n` : ''}
 Content:
 ${scraped.markdown || scraped.content}
-
+${webContext.length > 0 ? `\nWeb Search Results (other pages found by searching for the request; use them for information the webpage above lacks):\n${formatSearchContext(webContext, MAX_SEARCH_CONTEXT_PAGE_CHARS)}\n` : ''}
 ${schema ? `Extract data according to this JSON schema: ${JSON.stringify(schema, null, 2)}` : ''}
 
 User Request: ${sanitizedPrompt}
@@ -738,9 +1495,7 @@ Please provide the extracted data in JSON format. ${schema ? 'Ensure the respons
     
     // LLM API calls go out directly by default. Only use the (scraping) proxy
     // for the LLM call when explicitly opted in via PROXY_LLM_API=true.
-    const proxyUrl = CONFIG.proxy.proxyLlmApi ? getNextProxy() : undefined;
-    const proxyUsername = CONFIG.proxy.username;
-    const proxyPassword = CONFIG.proxy.password;
+    const proxyUrl = CONFIG.proxy.proxyLlmApi ? proxyManager.acquire() : undefined;
 
     // Build axios configuration
     const axiosConfig: any = {
@@ -752,20 +1507,7 @@ Please provide the extracted data in JSON format. ${schema ? 'Ensure the respons
 
     // Add proxy configuration if available
     if (proxyUrl) {
-      const proxyConfig: any = {
-        host: proxyUrl.replace(/^https?:\/\//, '').split(':')[0],
-        port: parseInt(proxyUrl.split(':').pop() || '80'),
-        protocol: proxyUrl.startsWith('https') ? 'https' : 'http'
-      };
-      
-      if (proxyUsername && proxyPassword) {
-        proxyConfig.auth = {
-          username: proxyUsername,
-          password: proxyPassword
-        };
-      }
-      
-      axiosConfig.proxy = proxyConfig;
+      Object.assign(axiosConfig, buildAxiosProxy(proxyUrl));
       // SECURITY: Never log proxy URLs that might contain credentials
       console.error(`Using proxy for LLM API: [REDACTED]`);
     }
@@ -784,13 +1526,26 @@ Please provide the extracted data in JSON format. ${schema ? 'Ensure the respons
       CONFIG.llm
     );
 
-    const response = await axios.post(`${LLM_PROVIDER_BASE_URL}/chat/completions`, requestBody, {
-      ...axiosConfig,
-      timeout: 60000, // 60 second timeout for security
-      maxContentLength: 10 * 1024 * 1024, // 10MB max response size
-      maxBodyLength: 10 * 1024 * 1024
-    });
+    // Transient provider failures (timeouts, 429, 5xx) are retried with
+    // backoff; auth and bad-request errors fail immediately.
+    const response = await withRetry(
+      () => axios.post(`${LLM_PROVIDER_BASE_URL}/chat/completions`, requestBody, {
+        ...axiosConfig,
+        timeout: 60000, // 60 second timeout for security
+        maxContentLength: 10 * 1024 * 1024, // 10MB max response size
+        maxBodyLength: 10 * 1024 * 1024
+      }),
+      CONFIG.retry,
+      {
+        onRetry: ({ attempt, delayMs, classification }) =>
+          console.error(`LLM request attempt ${attempt} failed (${classification.reason}), retrying in ${delayMs}ms...`),
+      }
+    );
     
+    // Charge the tokens the provider reports to the calling client's budget
+    const client = callContext.getStore()?.client;
+    if (client) await rateLimiter.recordLlmTokens(client, Number(response.data.usage?.total_tokens) || 0);
+
     const llmResponse = response.data.choices[0].message.content;
     
     // Parse JSON from the response, tolerating markdown code fences and prose.
@@ -799,18 +1554,23 @@ Please provide the extracted data in JSON format. ${schema ? 'Ensure the respons
       return {
         url,
         data: extractedData,
-        success: true
+        success: true,
+        actions: scraped.actions,
+        webSources: webContext.length > 0 ? webContext.map((page) => page.url) : undefined
       };
     } catch (parseError) {
       // If no JSON can be recovered, return the raw response
       return {
         url,
         data: { raw_response: llmResponse },
-        success: true
+        success: true,
+        actions: scraped.actions,
+        webSources: webContext.length > 0 ? webContext.map((page) => page.url) : undefined
       };
     }
     
   } catch (error) {
+    if (error instanceof RateLimitError) throw error;
     // SECURITY: Prevent information disclosure in the message returned to the
     // client, but log full detail to stderr so operators can actually debug.
     const isAxiosError = axios.isAxiosError(error);
@@ -855,8 +1615,26 @@ Please provide the extracted data in JSON format. ${schema ? 'Ensure the respons
   }
 }
 
+// Validate the optional `fingerprint` tool argument
+function parseFingerprint(value: unknown): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || !getFingerprintProfile(value)) {
+    throw new Error(`Invalid fingerprint: must be one of ${FINGERPRINT_SCHEMA.enum.join(', ')}`);
+  }
+  return value;
+}
+
+// Validate the optional `engine` tool argument
+function parseEngine(value: unknown): ScrapeEngine | undefined {
+  if (value === undefined) return undefined;
+  if (!isScrapeEngine(value)) {
+    throw new Error(`Invalid engine: must be one of ${SCRAPE_ENGINES.join(', ')}`);
+  }
+  return value;
+}
+
 // Type guards
-function isScrapeOptions(args: unknown): args is { url: string; onlyMainContent?: boolean } {
+function isScrapeOptions(args: unknown): args is { url: string; onlyMainContent?: boolean; engine?: unknown; fingerprint?: unknown; device?: unknown; location?: unknown; blockResources?: unknown; scroll?: unknown; pagination?: unknown; captureNetwork?: unknown; formats?: unknown; actions?: unknown } {
   return (
     typeof args === 'object' &&
     args !== null &&
@@ -865,7 +1643,7 @@ function isScrapeOptions(args: unknown): args is { url: string; onlyMainContent?
   );
 }
 
-function isScreenshotOptions(args: unknown): args is { url: string; width?: number; height?: number; fullPage?: boolean } {
+function isScreenshotOptions(args: unknown): args is { url: string; width?: number; height?: number; fullPage?: boolean; fingerprint?: unknown; device?: unknown; location?: unknown; blockResources?: unknown; actions?: unknown } {
   return (
     typeof args === 'object' &&
     args !== null &&
@@ -874,7 +1652,7 @@ function isScreenshotOptions(args: unknown): args is { url: string; width?: numb
   );
 }
 
-function isBatchScrapeOptions(args: unknown): args is { urls: string[]; onlyMainContent?: boolean } {
+function isBatchScrapeOptions(args: unknown): args is { urls: string[]; onlyMainContent?: boolean; engine?: unknown; fingerprint?: unknown; device?: unknown; location?: unknown; blockResources?: unknown; scroll?: unknown; pagination?: unknown; formats?: unknown } {
   return (
     typeof args === 'object' &&
     args !== null &&
@@ -883,7 +1661,42 @@ function isBatchScrapeOptions(args: unknown): args is { urls: string[]; onlyMain
   );
 }
 
-function isExtractOptions(args: unknown): args is { urls: string[]; prompt: string; schema?: any; enableWebSearch?: boolean } {
+function isCrawlOptions(args: unknown): args is CrawlOptions & { url: string; onlyMainContent?: boolean; engine?: unknown; fingerprint?: unknown; device?: unknown; location?: unknown; blockResources?: unknown } {
+  if (typeof args !== 'object' || args === null) return false;
+  const { url, includePaths, excludePaths } = args as { url?: unknown; includePaths?: unknown; excludePaths?: unknown };
+  const isStringArray = (value: unknown) =>
+    value === undefined || (Array.isArray(value) && value.every((item) => typeof item === 'string'));
+  return typeof url === 'string' && isStringArray(includePaths) && isStringArray(excludePaths);
+}
+
+function isMapSiteOptions(args: unknown): args is { url: string; search?: string; limit?: number; allowSubdomains?: boolean } {
+  return (
+    typeof args === 'object' &&
+    args !== null &&
+    'url' in args &&
+    typeof (args as { url: unknown }).url === 'string'
+  );
+}
+
+function isWebSearchOptions(args: unknown): args is { query: string; limit?: unknown } {
+  return (
+    typeof args === 'object' &&
+    args !== null &&
+    'query' in args &&
+    typeof (args as { query: unknown }).query === 'string'
+  );
+}
+
+function isSearchAndScrapeOptions(args: unknown): args is { query: string; limit?: unknown; includeDomains?: unknown; excludeDomains?: unknown; timeRange?: unknown; onlyMainContent?: boolean; engine?: unknown; fingerprint?: unknown; device?: unknown; location?: unknown; blockResources?: unknown } {
+  return (
+    typeof args === 'object' &&
+    args !== null &&
+    'query' in args &&
+    typeof (args as { query: unknown }).query === 'string'
+  );
+}
+
+function isExtractOptions(args: unknown): args is { urls: string[]; prompt: string; schema?: any; enableWebSearch?: boolean; engine?: unknown; fingerprint?: unknown; device?: unknown; location?: unknown; blockResources?: unknown; scroll?: unknown; pagination?: unknown; captureNetwork?: unknown; actions?: unknown } {
   return (
     typeof args === 'object' &&
     args !== null &&
@@ -895,7 +1708,7 @@ function isExtractOptions(args: unknown): args is { urls: string[]; prompt: stri
 }
 
 // For schema-based extraction the prompt is optional (the schema drives it).
-function isExtractWithSchemaOptions(args: unknown): args is { urls: string[]; schema: any; prompt?: string; enableWebSearch?: boolean } {
+function isExtractWithSchemaOptions(args: unknown): args is { urls: string[]; schema: any; prompt?: string; enableWebSearch?: boolean; engine?: unknown; fingerprint?: unknown; device?: unknown; location?: unknown; blockResources?: unknown; scroll?: unknown; pagination?: unknown; captureNetwork?: unknown; actions?: unknown } {
   return (
     typeof args === 'object' &&
     args !== null &&
@@ -922,51 +1735,53 @@ const server = new Server(
   }
 );
 
-// Proxy rotation state
-let currentProxyIndex = 0;
-let availableProxies: string[] = [];
-
-// Get next proxy URL with rotation
-function getNextProxy(): string | undefined {
-  if (availableProxies.length === 0) return undefined;
-  
-  const proxy = availableProxies[currentProxyIndex];
-  currentProxyIndex = (currentProxyIndex + 1) % availableProxies.length;
-  
-  return proxy;
-}
+// Fingerprint rotation state
+let currentFingerprintIndex = 0;
 
-// Initialize proxy list
-availableProxies = parseProxyUrls(process.env.PROXY_SERVER_URL || '');
+// Get the named fingerprint profile, or the next one in rotation
+function nextFingerprint(name?: string): FingerprintProfile {
+  if (name) {
+    const profile = getFingerprintProfile(name);
+    if (profile) return profile;
+  }
 
-// User agent rotation state
-let currentUserAgentIndex = 0;
-let availableUserAgents: string[] = [];
+  const profiles = CONFIG.scraping.fingerprints;
+  const profile = profiles[currentFingerprintIndex % profiles.length];
+  currentFingerprintIndex = (currentFingerprintIndex + 1) % profiles.length;
 
-// Get next user agent with rotation
-function getNextUserAgent(): string {
-  if (availableUserAgents.length === 0) return DEFAULT_USER_AGENT;
-  
-  const userAgent = availableUserAgents[currentUserAgentIndex];
-  currentUserAgentIndex = (currentUserAgentIndex + 1) % availableUserAgents.length;
-  
-  return userAgent;
+  return profile;
 }
 
-// Initialize user agent list
-availableUserAgents = parseUserAgents(process.env.SCRAPE_USER_AGENT || '', DEFAULT_USER_AGENT);
+// Fingerprint for one page load: the selected profile with any requested
+// device and location emulation folded in
+function pageFingerprint(pageOptions: PageOptions): FingerprintProfile {
+  return applyLocation(emulateDevice(nextFingerprint(pageOptions.fingerprint), pageOptions.device), pageOptions.location);
+}
 
 // Configuration for retries and monitoring
 const CONFIG = {
   scraping: {
-    userAgent: process.env.SCRAPE_USER_AGENT || DEFAULT_USER_AGENT,
-    viewportWidth: Number(process.env.SCRAPE_VIEWPORT_WIDTH) || DEFAULT_VIEWPORT_WIDTH,
-    viewportHeight: Number(process.env.SCRAPE_VIEWPORT_HEIGHT) || DEFAULT_VIEWPORT_HEIGHT,
+    // Fingerprint profiles to rotate (SCRAPE_FINGERPRINT); custom
+    // SCRAPE_USER_AGENT strings are wrapped in matching profiles
+    fingerprints: parseFingerprintProfiles(
+      process.env.SCRAPE_FINGERPRINT,
+      process.env.SCRAPE_USER_AGENT ? parseUserAgents(process.env.SCRAPE_USER_AGENT) : []
+    ),
+    // Optional override of the profiles' viewport size for page scrapes
+    viewport: process.env.SCRAPE_VIEWPORT_WIDTH && process.env.SCRAPE_VIEWPORT_HEIGHT
+      ? { width: Number(process.env.SCRAPE_VIEWPORT_WIDTH), height: Number(process.env.SCRAPE_VIEWPORT_HEIGHT) }
+      : undefined,
     delayMin: Number(process.env.SCRAPE_DELAY_MIN) || DEFAULT_SCRAPE_DELAY_MIN,
     delayMax: Number(process.env.SCRAPE_DELAY_MAX) || DEFAULT_SCRAPE_DELAY_MAX,
     batchDelayMin: Number(process.env.SCRAPE_BATCH_DELAY_MIN) || DEFAULT_BATCH_DELAY_MIN,
     batchDelayMax: Number(process.env.SCRAPE_BATCH_DELAY_MAX) || DEFAULT_BATCH_DELAY_MAX,
     settleMaxMs: Number(process.env.SCRAPE_SETTLE_MAX_MS) || DEFAULT_SETTLE_MAX_MS,
+    engine: isScrapeEngine(process.env.SCRAPE_ENGINE) ? process.env.SCRAPE_ENGINE : DEFAULT_SCRAPE_ENGINE,
+    // Whether non-2xx responses count as failed attempts (see parseHttpErrorPolicy)
+    httpErrorPolicy: parseHttpErrorPolicy(process.env.SCRAPE_HTTP_ERROR_POLICY),
+    // Default request blocking for page scrapes (SCRAPE_BLOCK_RESOURCES preset
+    // plus SCRAPE_BLOCK_DOMAINS)
+    blockResources: parseBlockResourcesConfig(process.env.SCRAPE_BLOCK_RESOURCES, process.env.SCRAPE_BLOCK_DOMAINS),
   },
   retry: {
     maxAttempts: Number(process.env.FIRECRAWL_RETRY_MAX_ATTEMPTS) || DEFAULT_RETRY_ATTEMPTS,
@@ -974,9 +1789,34 @@ const CONFIG = {
     maxDelay: Number(process.env.FIRECRAWL_RETRY_MAX_DELAY) || DEFAULT_RETRY_MAX_DELAY,
     backoffFactor: Number(process.env.FIRECRAWL_RETRY_BACKOFF_FACTOR) || DEFAULT_RETRY_BACKOFF_FACTOR,
   },
+  browserPool: {
+    maxBrowsers: Number(process.env.BROWSER_POOL_MAX_BROWSERS) || DEFAULT_POOL_MAX_BROWSERS,
+    maxPagesPerBrowser: Number(process.env.BROWSER_POOL_MAX_PAGES_PER_BROWSER) || DEFAULT_POOL_MAX_PAGES_PER_BROWSER,
+    idleTimeoutMs: Number(process.env.BROWSER_POOL_IDLE_TIMEOUT_MS) || DEFAULT_POOL_IDLE_TIMEOUT_MS,
+  },
+  jobQueue: {
+    maxConcurrent: Number(process.env.JOB_QUEUE_CONCURRENCY) || DEFAULT_JOB_CONCURRENCY,
+    maxQueueDepth: Number(process.env.JOB_QUEUE_MAX_DEPTH) || DEFAULT_JOB_QUEUE_DEPTH,
+    maxQueueDepthPerSession: Number(process.env.JOB_QUEUE_MAX_DEPTH_PER_SESSION) || DEFAULT_JOB_QUEUE_DEPTH_PER_SESSION,
+    jobTimeoutMs: Number(process.env.JOB_TIMEOUT_MS) || DEFAULT_JOB_TIMEOUT_MS,
+  },
   llm: parseLlmConfig(process.env),
+  egress: {
+    // Hosts and networks exempt from the SSRF guard (see egressGuard.ts)
+    allowlist: parseEgressAllowlist(process.env.EGRESS_ALLOWLIST),
+  },
+  // Web search provider for web_search and enableWebSearch (SEARCH_* env vars)
+  search: parseSearchConfig(process.env),
+  domainPolicy: {
+    // Comma-separated patterns, merged with DOMAIN_POLICY_FILE (see domainPolicy.ts)
+    allow: process.env.DOMAIN_ALLOWLIST,
+    deny: process.env.DOMAIN_DENYLIST,
+    file: process.env.DOMAIN_POLICY_FILE,
+  },
   proxy: {
+    // One or more proxies, comma-separated, and/or a file with one per line
     url: process.env.PROXY_SERVER_URL,
+    listFile: process.env.PROXY_LIST_FILE,
     username: process.env.PROXY_SERVER_USERNAME,
     password: process.env.PROXY_SERVER_PASSWORD,
     // Proxies are for disguising scraper traffic to target sites. By default
@@ -984,13 +1824,192 @@ const CONFIG = {
     // (often residential) proxy is slower, flakier, and can fail TLS. Set
     // PROXY_LLM_API=true only if you specifically need the LLM call proxied.
     proxyLlmApi: process.env.PROXY_LLM_API === 'true',
+    // Health tracking: failing proxies cool down exponentially, and each target
+    // domain sticks to one proxy while its session stays active.
+    cooldownBaseMs: Number(process.env.PROXY_COOLDOWN_BASE_MS) || DEFAULT_PROXY_COOLDOWN_BASE_MS,
+    cooldownMaxMs: Number(process.env.PROXY_COOLDOWN_MAX_MS) || DEFAULT_PROXY_COOLDOWN_MAX_MS,
+    stickySessionMs: process.env.PROXY_STICKY_SESSION_MS !== undefined
+      ? Number(process.env.PROXY_STICKY_SESSION_MS) || 0
+      : DEFAULT_PROXY_STICKY_SESSION_MS,
   },
   endpoints: {
     enableHttpStreamableEndpoint: process.env.ENABLE_HTTP_STREAMABLE_ENDPOINT === 'true', // Default disabled for security
     enableSseEndpoint: process.env.ENABLE_SSE_ENDPOINT === 'true',                         // Default disabled (deprecated)
   },
+  auth: {
+    // Named API keys for the HTTP endpoints (see auth.ts); none leaves them open
+    keys: process.env.MCP_API_KEYS,
+    keysFile: process.env.MCP_API_KEYS_FILE,
+    disabled: (process.env.MCP_API_KEYS_DISABLED || '').split(',').map((name) => name.trim()).filter(Boolean),
+  },
+  // Per-client limits for HTTP clients (RATE_LIMIT_* env vars, see rateLimit.ts)
+  rateLimit: parseRateLimitConfig(process.env),
 };
 
+// Shared pool of warm browsers used by every browser-backed tool
+const browserPool = new BrowserPool({
+  ...CONFIG.browserPool,
+  launch: async (spec) => {
+    await initializePuppeteer();
+    return puppeteer.launch(buildLaunchOptions(spec));
+  },
+});
+
+// Every browser page load waits here for a slot, fairly across sessions
+const jobQueue = new JobQueue(CONFIG.jobQueue);
+
+// Proxy list from PROXY_SERVER_URL plus the optional PROXY_LIST_FILE
+function loadProxyList(): string[] {
+  const proxies = parseProxyUrls(CONFIG.proxy.url || '');
+  if (CONFIG.proxy.listFile) {
+    proxies.push(...parseProxyUrls(readFileSync(CONFIG.proxy.listFile, 'utf8')));
+  }
+  // Chrome cannot authenticate to SOCKS proxies, so with the browser as the
+  // default engine such an entry would fail most scrapes
+  if (CONFIG.scraping.engine !== 'fetch') {
+    const socks = proxies.find((proxyUrl) => {
+      const endpoint = parseProxyEndpoint(proxyUrl);
+      return (endpoint.protocol === 'socks4' || endpoint.protocol === 'socks5') && endpoint.username;
+    });
+    if (socks) {
+      throw new Error(
+        `Proxy ${redactProxyUrl(socks)} is an authenticated SOCKS proxy, which the browser cannot use: ` +
+          'use an HTTP(S) proxy or set SCRAPE_ENGINE=fetch'
+      );
+    }
+  }
+  return proxies;
+}
+
+// Proxy selection with health tracking
+const proxyManager = new ProxyManager(loadProxyList(), CONFIG.proxy);
+
+// SSRF protection: scrape targets, redirect hops and browser subresources
+// must not reach private, loopback or metadata-service addresses
+const egressGuard = new EgressGuard(CONFIG.egress.allowlist);
+
+// Agents for scrape requests that go out without a proxy. Their DNS lookup
+// runs the egress check, so a host cannot pass checkRequest with one answer
+// and connect with another (DNS rebinding).
+const DIRECT_AGENTS: Pick<AxiosRequestConfig, 'httpAgent' | 'httpsAgent'> = {
+  httpAgent: new http.Agent({ lookup: egressGuard.lookup }),
+  httpsAgent: new https.Agent({ lookup: egressGuard.lookup }),
+};
+
+// Operator allow/deny patterns from DOMAIN_ALLOWLIST and DOMAIN_DENYLIST plus
+// the optional DOMAIN_POLICY_FILE
+function loadDomainPolicy(): DomainPolicyConfig {
+  const config: DomainPolicyConfig = {
+    allow: parseDomainPatterns(CONFIG.domainPolicy.allow),
+    deny: parseDomainPatterns(CONFIG.domainPolicy.deny),
+  };
+  if (CONFIG.domainPolicy.file) {
+    const file = parseDomainPolicyFile(readFileSync(CONFIG.domainPolicy.file, 'utf8'));
+    config.allow.push(...file.allow);
+    config.deny.push(...file.deny);
+  }
+  return config;
+}
+
+const domainPolicy = new DomainPolicy(loadDomainPolicy());
+
+// Every URL the server contacts passes the domain policy, then the egress
+// guard. Allow patterns only limit pages (targets, redirects, followed links),
+// not the subresources they load.
+// direct: the request goes out without a proxy, so a host that does not
+// resolve here is refused too. Defaults to whether any proxy is configured.
+async function checkRequest(url: string, isMainDocument = true, direct = proxyManager.size === 0): Promise<void> {
+  domainPolicy.check(url, isMainDocument ? 'page' : 'subresource');
+  await egressGuard.check(url, { requireResolution: direct });
+}
+
+// API keys from MCP_API_KEYS plus the optional MCP_API_KEYS_FILE
+function loadApiKeyAuthenticator(): ApiKeyAuthenticator {
+  const keys = parseApiKeys(CONFIG.auth.keys);
+  if (CONFIG.auth.keysFile) {
+    keys.push(...parseApiKeysFile(readFileSync(CONFIG.auth.keysFile, 'utf8')));
+  }
+  return new ApiKeyAuthenticator(keys, CONFIG.auth.disabled);
+}
+
+const authenticator = loadApiKeyAuthenticator();
+
+// Per-client request, concurrency and daily budget limits
+const rateLimiter = new RateLimiter(CONFIG.rateLimit);
+
+// The tool call being handled, available wherever its work happens
+// (batches, crawls, web context)
+interface ToolCallContext {
+  // Rate-limit client that pages and LLM tokens are charged to
+  client: string | undefined;
+  // Session the call's browser jobs are queued for
+  session: string;
+  // Aborts when the client cancels the request or disconnects
+  signal?: AbortSignal;
+}
+
+const callContext = new AsyncLocalStorage<ToolCallContext>();
+
+// Count one page load against the calling client's daily budget; throws
+// RateLimitError once it is spent
+async function chargePage(): Promise<void> {
+  const client = callContext.getStore()?.client;
+  if (client) await rateLimiter.consumePages(client);
+}
+
+// Run a browser job through the global queue on behalf of the calling
+// session. Cancelling the call drops or aborts the job.
+function runBrowserJob<T>(job: Job<T>): Promise<T> {
+  const context = callContext.getStore();
+  return jobQueue.run(context?.session ?? 'internal', job, context?.signal);
+}
+
+// Time kept back from a browser job's deadline for capturing the page (HTML,
+// screenshot, network responses) after scrolling or pagination stop early
+const CAPTURE_RESERVE_MS = 15000;
+
+// Release a page as soon as its job is aborted (timeout or cancelled call),
+// which closes it and fails whatever it was doing
+function releaseOnAbort(lease: PoolLease, signal: AbortSignal | undefined): void {
+  if (!signal) return;
+  if (signal.aborted) {
+    void lease.release();
+    return;
+  }
+  signal.addEventListener('abort', () => void lease.release(), { once: true });
+}
+
+// Configured web search provider, or undefined when SEARCH_PROVIDER is unset
+const searchProvider = createSearchProvider(CONFIG.search, fetchSearchPage);
+
+// The search provider for the search tools
+function requireSearchProvider(): SearchProvider {
+  if (!searchProvider) {
+    throw new Error('Web search is not configured: set SEARCH_PROVIDER to searxng or html');
+  }
+  return searchProvider;
+}
+
+// Feed an attempt's outcome into proxy health. Only failures another proxy
+// could fix count against it: a 404 or an invalid URL means the proxy worked,
+// while timeouts, connection errors, 407 and 429 do not. A proxy the engine
+// cannot use (UnsupportedProxyError) is not reported either way.
+function reportProxyOutcome(proxyUrl: string | undefined, error?: unknown, statusCode?: number): void {
+  if (!proxyUrl || error instanceof UnsupportedProxyError) return;
+  if (statusCode === 407 || statusCode === 429) {
+    proxyManager.reportFailure(proxyUrl, `HTTP ${statusCode}`);
+    return;
+  }
+  if (error !== undefined) {
+    const classification = classifyError(error);
+    if (classification.retryable) {
+      proxyManager.reportFailure(proxyUrl, classification.reason);
+      return;
+    }
+  }
+  proxyManager.reportSuccess(proxyUrl);
+}
+
 // Get LLM configuration
 const LLM_PROVIDER_BASE_URL = CONFIG.llm.providerBaseUrl;
 const LLM_MODEL = CONFIG.llm.model;
@@ -1033,6 +2052,10 @@ server.setRequestHandler(
       tools: [
         SCRAPE_TOOL,
         BATCH_SCRAPE_TOOL,
+        CRAWL_SITE_TOOL,
+        MAP_SITE_TOOL,
+        WEB_SEARCH_TOOL,
+        SEARCH_AND_SCRAPE_TOOL,
         EXTRACT_DATA_TOOL,
         EXTRACT_WITH_SCHEMA_TOOL,
         SCREENSHOT_TOOL,
@@ -1041,277 +2064,623 @@ server.setRequestHandler(
   }
 );
 
-server.setRequestHandler(
-  CallToolRequestSchema,
-  async function callToolRequestHandler(request) {
-    const startTime = Date.now();
-    try {
-      const { name, arguments: args } = request.params;
-      
-      // Log incoming request with timestamp
-      safeLog(
-        'info',
-        `[${new Date().toISOString()}] Received request for tool: ${name}`
-      );
+// Run one tool call. Admission against the rate limits and usage accounting
+// happen in the CallTool request handler below.
+async function runToolCall(request: CallToolRequest, client: string | undefined): Promise<CallToolResult> {
+  const startTime = Date.now();
+  try {
+    const { name, arguments: args } = request.params;
+    
+    // Log incoming request with timestamp
+    safeLog(
+      'info',
+      `[${new Date().toISOString()}] Received request for tool: ${name}${client ? ` from client ${client}` : ''}`
+    );
 
-      if (!args) {
-        throw new Error('No arguments provided');
-      }
+    if (!args) {
+      throw new Error('No arguments provided');
+    }
 
-      switch (name) {
-        case 'scrape_page': {
-          if (!isScrapeOptions(args)) {
-            throw new Error('Invalid arguments for scrape_page');
-          }
+    switch (name) {
+      case 'scrape_page': {
+        if (!isScrapeOptions(args)) {
+          throw new Error('Invalid arguments for scrape_page');
+        }
 
-          // SECURITY: Validate URL before processing
-          if (!isValidUrl(args.url)) {
-            throw new Error('Invalid URL format. Only HTTP and HTTPS URLs are allowed.');
-          }
+        // SECURITY: Validate URL before processing
+        if (!isValidUrl(args.url)) {
+          throw new Error('Invalid URL format. Only HTTP and HTTPS URLs are allowed.');
+        }
 
-          const result = await scrapeWebpage(args.url, args.onlyMainContent !== false);
+        const actions = parseActions(args.actions);
+        const engine = parseEngine(args.engine);
+        const fingerprint = parseFingerprint(args.fingerprint);
+        const device = parseDevice(args.device);
+        const location = parseLocation(args.location);
+        const blockResources = parseBlockResources(args.blockResources);
+        const scroll = parseScroll(args.scroll);
+        const pagination = parsePagination(args.pagination);
+        const captureNetwork = parseNetworkCapture(args.captureNetwork);
+        const formats = parseFormats(args.formats);
+        const onlyMainContent = args.onlyMainContent !== false;
+
+        const result = await scrapeWebpage(args.url, onlyMainContent, {
+          actions,
+          engine,
+          fingerprint,
+          device,
+          location,
+          blockResources,
+          captureNetwork,
+          scroll,
+          pagination,
+          screenshot: formats?.includes('screenshot')
+        });
+
+        // Structured JSON with the requested fields
+        if (formats && result.success) {
           return {
-            content: [{ type: 'text', text: result.success ? result.markdown : `Error: ${result.error}` }],
-            isError: !result.success,
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                url: result.url,
+                success: true,
+                ...formatScrapeResult(result, formats, onlyMainContent),
+                actions: result.actions,
+                network: result.network,
+                scroll: result.scroll,
+                pagination: result.pagination
+              }, null, 2)
+            }],
+            isError: false,
           };
         }
 
-        case 'screenshot': {
-          if (!isScreenshotOptions(args)) {
-            throw new Error('Invalid arguments for screenshot');
-          }
+        const content: CallToolResult['content'] = [{ type: 'text', text: result.success ? result.markdown : `Error: ${result.error}` }];
+        if (result.actions) {
+          content.push({ type: 'text', text: `Action results:\n${JSON.stringify(result.actions, null, 2)}` });
+        }
+        if (result.network) {
+          content.push({ type: 'text', text: `Captured network responses:\n${JSON.stringify(result.network, null, 2)}` });
+        }
+        return {
+          content,
+          isError: !result.success,
+        };
+      }
 
-          // SECURITY: Validate URL before processing
-          if (!isValidUrl(args.url)) {
-            throw new Error('Invalid URL format. Only HTTP and HTTPS URLs are allowed.');
-          }
+      case 'screenshot': {
+        if (!isScreenshotOptions(args)) {
+          throw new Error('Invalid arguments for screenshot');
+        }
 
-          const result = await screenshotWebpage(
-            args.url, 
-            args.width || 1920, 
-            args.height || 1080, 
-            args.fullPage || false
-          );
-          
-          if (result.success && result.dataUrl) {
-            return {
-              content: [{ 
-                type: 'text', 
-                text: `Screenshot captured successfully!\n\nMetadata:\n- Format: ${result.metadata?.format}\n- Size: ${result.metadata?.sizeKB}KB\n- Dimensions: ${result.metadata?.dimensions}\n- Full Page: ${result.metadata?.fullPage}\n- URL: ${result.metadata?.url}\n- Timestamp: ${result.metadata?.timestamp}\n\nBase64 Data URL:\n${result.dataUrl}` 
-              }],
-              isError: false,
-            };
-          } else {
-            return {
-              content: [{ 
-                type: 'text', 
-                text: `Screenshot failed: ${result.error}` 
-              }],
-              isError: true,
-            };
-          }
+        // SECURITY: Validate URL before processing
+        if (!isValidUrl(args.url)) {
+          throw new Error('Invalid URL format. Only HTTP and HTTPS URLs are allowed.');
         }
 
-        case 'batch_scrape': {
-          if (!isBatchScrapeOptions(args)) {
-            throw new Error('Invalid arguments for batch_scrape: urls array required');
-          }
+        const actions = parseActions(args.actions);
+        const fingerprint = parseFingerprint(args.fingerprint);
+        const device = parseDevice(args.device);
+        const location = parseLocation(args.location);
+        const blockResources = parseBlockResources(args.blockResources);
+
+        const result = await screenshotWebpage(
+          args.url, 
+          args.width, 
+          args.height, 
+          args.fullPage || false,
+          { actions, fingerprint, device, location, blockResources }
+        );
+        
+        if (result.success && result.dataUrl) {
+          const actionReport = result.actions
+            ? `\n\nAction results:\n${JSON.stringify(result.actions, null, 2)}`
+            : '';
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Screenshot captured successfully!\n\nMetadata:\n- Format: ${result.metadata?.format}\n- Size: ${result.metadata?.sizeKB}KB\n- Dimensions: ${result.metadata?.dimensions}\n- Full Page: ${result.metadata?.fullPage}\n- URL: ${result.metadata?.url}\n- Timestamp: ${result.metadata?.timestamp}${result.metadata?.blockedRequests !== undefined ? `\n- Blocked Requests: ${result.metadata.blockedRequests}` : ''}${actionReport}\n\nBase64 Data URL:\n${result.dataUrl}` 
+            }],
+            isError: false,
+          };
+        } else {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Screenshot failed: ${result.error}` 
+            }],
+            isError: true,
+          };
+        }
+      }
 
-          // SECURITY: Validate all URLs before processing
-          const invalidUrls = args.urls.filter(url => !isValidUrl(url));
-          if (invalidUrls.length > 0) {
-            throw new Error(`Invalid URL format detected: ${invalidUrls.join(', ')}. Only HTTP and HTTPS URLs are allowed.`);
-          }
+      case 'batch_scrape': {
+        if (!isBatchScrapeOptions(args)) {
+          throw new Error('Invalid arguments for batch_scrape: urls array required');
+        }
 
-          // SECURITY: Limit batch size to prevent abuse
-          if (args.urls.length > 10) {
-            throw new Error('Batch size limited to 10 URLs maximum for security and performance reasons.');
-          }
+        // SECURITY: Validate all URLs before processing
+        const invalidUrls = args.urls.filter(url => !isValidUrl(url));
+        if (invalidUrls.length > 0) {
+          throw new Error(`Invalid URL format detected: ${invalidUrls.join(', ')}. Only HTTP and HTTPS URLs are allowed.`);
+        }
 
-          const results = [];
-          for (const url of args.urls) {
-            try {
-              const result = await scrapeWebpage(url, args.onlyMainContent !== false);
+        // SECURITY: Limit batch size to prevent abuse
+        if (args.urls.length > 10) {
+          throw new Error('Batch size limited to 10 URLs maximum for security and performance reasons.');
+        }
+
+        const engine = parseEngine(args.engine);
+        const fingerprint = parseFingerprint(args.fingerprint);
+        const device = parseDevice(args.device);
+        const location = parseLocation(args.location);
+        const blockResources = parseBlockResources(args.blockResources);
+        const scroll = parseScroll(args.scroll);
+        const pagination = parsePagination(args.pagination);
+        const formats = parseFormats(args.formats);
+        const onlyMainContent = args.onlyMainContent !== false;
+
+        const results = [];
+        for (const url of args.urls) {
+          try {
+            const result = await scrapeWebpage(url, onlyMainContent, {
+              engine,
+              fingerprint,
+              device,
+              location,
+              blockResources,
+              scroll,
+              pagination,
+              screenshot: formats?.includes('screenshot')
+            });
+            if (formats && result.success) {
               results.push({
                 url,
-                success: result.success,
+                success: true,
                 title: result.title,
-                content: result.success ? result.markdown : `Error: ${result.error}`
+                ...formatScrapeResult(result, formats, onlyMainContent)
               });
-            } catch (error) {
+            } else {
               results.push({
                 url,
-                success: false,
-                error: error instanceof Error ? error.message : String(error)
+                success: result.success,
+                title: result.title,
+                content: result.success ? result.markdown : `Error: ${result.error}`
               });
             }
-            // Add random delay between requests to avoid rate limiting
-            const batchDelay = Math.floor(Math.random() * (CONFIG.scraping.batchDelayMax - CONFIG.scraping.batchDelayMin)) + CONFIG.scraping.batchDelayMin;
-            await delay(batchDelay);
+          } catch (error) {
+            if (error instanceof RateLimitError) throw error;
+            results.push({
+              url,
+              success: false,
+              error: error instanceof Error ? error.message : String(error)
+            });
           }
-          return {
-            content: [{ type: 'text', text: JSON.stringify(results, null, 2) }],
-            isError: false,
-          };
+          // Add random delay between requests to avoid rate limiting
+          const batchDelay = Math.floor(Math.random() * (CONFIG.scraping.batchDelayMax - CONFIG.scraping.batchDelayMin)) + CONFIG.scraping.batchDelayMin;
+          await delay(batchDelay);
         }
+        return {
+          content: [{ type: 'text', text: JSON.stringify(results, null, 2) }],
+          isError: false,
+        };
+      }
 
-        case 'extract_data': {
-          if (!isExtractOptions(args)) {
-            throw new Error('Invalid arguments for extract_data: urls array and prompt required');
-          }
+      case 'crawl_site': {
+        if (!isCrawlOptions(args)) {
+          throw new Error('Invalid arguments for crawl_site: url required, path filters must be string arrays');
+        }
 
-          // SECURITY: Validate all URLs
-          const invalidUrls = args.urls.filter(url => !isValidUrl(url));
-          if (invalidUrls.length > 0) {
-            throw new Error(`Invalid URL format detected: ${invalidUrls.join(', ')}. Only HTTP and HTTPS URLs are allowed.`);
-          }
+        // SECURITY: Validate URL before processing
+        if (!isValidUrl(args.url)) {
+          throw new Error('Invalid URL format. Only HTTP and HTTPS URLs are allowed.');
+        }
 
-          // SECURITY: Validate prompt
-          if (!validatePrompt(args.prompt)) {
-            throw new Error('Invalid prompt. Prompt must be between 1 and 10,000 characters.');
+        const engine = parseEngine(args.engine);
+        const fingerprint = parseFingerprint(args.fingerprint);
+        const device = parseDevice(args.device);
+        const location = parseLocation(args.location);
+        const blockResources = parseBlockResources(args.blockResources);
+
+        const results = await crawlSite(args.url, args, async (url) => {
+          let page;
+          let html: string | undefined;
+          let finalUrl: string | undefined;
+          try {
+            const result = await scrapeWebpage(url, args.onlyMainContent !== false, { engine, fingerprint, device, location, blockResources });
+            page = {
+              url,
+              success: result.success,
+              title: result.title,
+              content: result.success ? result.markdown : `Error: ${result.error}`
+            };
+            html = result.success ? result.html : undefined;
+            finalUrl = result.finalUrl;
+          } catch (error) {
+            if (error instanceof RateLimitError) throw error;
+            page = {
+              url,
+              success: false,
+              error: error instanceof Error ? error.message : String(error)
+            };
           }
+          // Add random delay between requests to avoid rate limiting
+          const batchDelay = Math.floor(Math.random() * (CONFIG.scraping.batchDelayMax - CONFIG.scraping.batchDelayMin)) + CONFIG.scraping.batchDelayMin;
+          await delay(batchDelay);
+          return { result: page, html, finalUrl };
+        }, (url) => domainPolicy.allows(url));
+
+        return {
+          content: [{ type: 'text', text: JSON.stringify(results, null, 2) }],
+          isError: false,
+        };
+      }
 
-          // SECURITY: Limit batch size
-          if (args.urls.length > 5) {
-            throw new Error('Extraction limited to 5 URLs maximum for security and performance reasons.');
-          }
+      case 'map_site': {
+        if (!isMapSiteOptions(args)) {
+          throw new Error('Invalid arguments for map_site');
+        }
 
-          const results = [];
-          for (const url of args.urls) {
-            try {
-              const result = await extractDataWithLLM(url, args.prompt);
-              results.push({
-                url,
-                success: result.success,
-                data: result.success ? result.data : `Error: ${result.error}`
-              });
-            } catch (error) {
-              results.push({
-                url,
-                success: false,
-                error: error instanceof Error ? error.message : String(error)
-              });
-            }
-            // Add delay between requests
-            await delay(1000);
-          }
+        // SECURITY: Validate URL before processing
+        if (!isValidUrl(args.url)) {
+          throw new Error('Invalid URL format. Only HTTP and HTTPS URLs are allowed.');
+        }
 
-          return {
-            content: [{ type: 'text', text: JSON.stringify(results, null, 2) }],
-            isError: false,
-          };
+        const result = await mapSite(sanitizeUrl(args.url), args, {
+          fetchResource,
+          harvestLinks: async (url) => {
+            const page = await scrapeWebpage(url, false);
+            return page.success ? extractLinks(page.html, page.finalUrl ?? url) : [];
+          },
+        });
+
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          isError: false,
+        };
+      }
+
+      case 'web_search': {
+        if (!isWebSearchOptions(args)) {
+          throw new Error('Invalid arguments for web_search: query required');
         }
+        const provider = requireSearchProvider();
 
-        case 'extract_with_schema': {
-          if (!isExtractWithSchemaOptions(args)) {
-            throw new Error('Invalid arguments for extract_with_schema: urls array and schema object are required');
-          }
+        const query = args.query.trim();
+        if (!validatePrompt(query)) {
+          throw new Error('Invalid query. Query must be between 1 and 10,000 characters.');
+        }
+        const limit = parseSearchLimit(args.limit);
 
-          // Security validations
-          if (!Array.isArray(args.urls) || args.urls.length === 0) {
-            throw new Error('Invalid arguments: urls must be a non-empty array');
+        const results = await provider.search({ query, limit });
+
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ query, provider: provider.name, results }, null, 2) }],
+          isError: false,
+        };
+      }
+
+      case 'search_and_scrape': {
+        if (!isSearchAndScrapeOptions(args)) {
+          throw new Error('Invalid arguments for search_and_scrape: query required');
+        }
+        const provider = requireSearchProvider();
+
+        const query = args.query.trim();
+        if (!validatePrompt(query)) {
+          throw new Error('Invalid query. Query must be between 1 and 10,000 characters.');
+        }
+        const limit = parseSearchLimit(args.limit, DEFAULT_SEARCH_SCRAPE_RESULTS, MAX_SEARCH_SCRAPE_LIMIT);
+        const includeDomains = parseDomainList(args.includeDomains, 'includeDomains');
+        const excludeDomains = parseDomainList(args.excludeDomains, 'excludeDomains');
+        const timeRange = parseTimeRange(args.timeRange);
+        const engine = parseEngine(args.engine);
+        const fingerprint = parseFingerprint(args.fingerprint);
+        const device = parseDevice(args.device);
+        const location = parseLocation(args.location);
+        const blockResources = parseBlockResources(args.blockResources);
+        const onlyMainContent = args.onlyMainContent !== false;
+
+        // Domain filters apply to the results, so ask for extra ones to
+        // still fill the limit afterwards
+        const filtered = includeDomains.length > 0 || excludeDomains.length > 0;
+        const found = await provider.search({
+          query: scopeQuery(query, includeDomains),
+          limit: filtered ? MAX_SEARCH_LIMIT : limit,
+          timeRange,
+        });
+        const hits = filterResultsByDomain(found, includeDomains, excludeDomains).slice(0, limit);
+
+        const results = [];
+        for (const hit of hits) {
+          try {
+            const page = await scrapeWebpage(hit.url, onlyMainContent, { engine, fingerprint, device, location, blockResources });
+            results.push({
+              ...hit,
+              title: hit.title || page.title,
+              success: page.success,
+              ...(page.success ? { markdown: page.markdown } : { error: page.error })
+            });
+          } catch (error) {
+            if (error instanceof RateLimitError) throw error;
+            results.push({
+              ...hit,
+              success: false,
+              error: error instanceof Error ? error.message : String(error)
+            });
           }
+        }
+
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ query, provider: provider.name, results }, null, 2) }],
+          isError: false,
+        };
+      }
+
+      case 'extract_data': {
+        if (!isExtractOptions(args)) {
+          throw new Error('Invalid arguments for extract_data: urls array and prompt required');
+        }
 
-          if (args.urls.length > MAX_URLS_PER_REQUEST) {
-            throw new Error(`Too many URLs: maximum ${MAX_URLS_PER_REQUEST} URLs allowed per request`);
+        // SECURITY: Validate all URLs
+        const invalidUrls = args.urls.filter(url => !isValidUrl(url));
+        if (invalidUrls.length > 0) {
+          throw new Error(`Invalid URL format detected: ${invalidUrls.join(', ')}. Only HTTP and HTTPS URLs are allowed.`);
+        }
+
+        // SECURITY: Validate prompt
+        if (!validatePrompt(args.prompt)) {
+          throw new Error('Invalid prompt. Prompt must be between 1 and 10,000 characters.');
+        }
+
+        // SECURITY: Limit batch size
+        if (args.urls.length > 5) {
+          throw new Error('Extraction limited to 5 URLs maximum for security and performance reasons.');
+        }
+
+        const actions = parseActions(args.actions);
+        const engine = parseEngine(args.engine);
+        const fingerprint = parseFingerprint(args.fingerprint);
+        const device = parseDevice(args.device);
+        const location = parseLocation(args.location);
+        const blockResources = parseBlockResources(args.blockResources);
+        const scroll = parseScroll(args.scroll);
+        const pagination = parsePagination(args.pagination);
+        const captureNetwork = parseNetworkCapture(args.captureNetwork);
+
+        // One search per request; its pages are shared context for every URL
+        const webContext = args.enableWebSearch
+          ? await gatherWebSearchContext(args.prompt, args.urls, { engine, fingerprint, device, location, blockResources })
+          : [];
+
+        const results = [];
+        for (const url of args.urls) {
+          try {
+            const result = await extractDataWithLLM(url, args.prompt, undefined, { actions, engine, fingerprint, device, location, blockResources, captureNetwork, scroll, pagination }, webContext);
+            results.push({
+              url,
+              success: result.success,
+              data: result.success ? result.data : `Error: ${result.error}`,
+              actions: result.actions,
+              webSources: result.webSources
+            });
+          } catch (error) {
+            if (error instanceof RateLimitError) throw error;
+            results.push({
+              url,
+              success: false,
+              error: error instanceof Error ? error.message : String(error)
+            });
           }
+          // Add delay between requests
+          await delay(1000);
+        }
 
-          // Validate and sanitize each URL
-          const sanitizedUrls: string[] = [];
-          for (const url of args.urls) {
-            if (typeof url !== 'string') {
-              throw new Error('Invalid URL format: all URLs must be strings');
-            }
+        return {
+          content: [{ type: 'text', text: JSON.stringify(results, null, 2) }],
+          isError: false,
+        };
+      }
 
-            if (!isValidUrl(url)) {
-              throw new Error(`Invalid URL: ${url}`);
-            }
+      case 'extract_with_schema': {
+        if (!isExtractWithSchemaOptions(args)) {
+          throw new Error('Invalid arguments for extract_with_schema: urls array and schema object are required');
+        }
 
-            const sanitizedUrl = sanitizeUrl(url);
-            if (!sanitizedUrl) {
-              throw new Error(`Failed to sanitize URL: ${url}`);
-            }
+        // Security validations
+        if (!Array.isArray(args.urls) || args.urls.length === 0) {
+          throw new Error('Invalid arguments: urls must be a non-empty array');
+        }
 
-            sanitizedUrls.push(sanitizedUrl);
+        if (args.urls.length > MAX_URLS_PER_REQUEST) {
+          throw new Error(`Too many URLs: maximum ${MAX_URLS_PER_REQUEST} URLs allowed per request`);
+        }
+
+        // Validate and sanitize each URL
+        const sanitizedUrls: string[] = [];
+        for (const url of args.urls) {
+          if (typeof url !== 'string') {
+            throw new Error('Invalid URL format: all URLs must be strings');
           }
 
-          // Prompt is optional for schema-based extraction; the schema drives
-          // the extraction. Validate it only if the caller supplied one.
-          let sanitizedPrompt = 'Extract data matching the provided JSON schema.';
-          if (args.prompt !== undefined) {
-            if (typeof args.prompt !== 'string') {
-              throw new Error('Invalid prompt: must be a string');
-            }
-            if (!validatePrompt(args.prompt)) {
-              throw new Error('Invalid prompt: must be between 1 and 10,000 characters');
-            }
-            sanitizedPrompt = args.prompt.trim();
+          if (!isValidUrl(url)) {
+            throw new Error(`Invalid URL: ${url}`);
           }
 
-          // Validate schema (basic validation)
-          if (typeof args.schema !== 'object' || args.schema === null) {
-            throw new Error('Invalid schema: must be a valid object');
+          const sanitizedUrl = sanitizeUrl(url);
+          if (!sanitizedUrl) {
+            throw new Error(`Failed to sanitize URL: ${url}`);
           }
 
-          const results = [];
-          for (const url of sanitizedUrls) {
-            try {
-              const result = await extractDataWithLLM(url, sanitizedPrompt, args.schema);
-              results.push({
-                url,
-                success: result.success,
-                data: result.success ? result.data : `Error: ${result.error}`
-              });
-            } catch (error) {
-              // Prevent information disclosure in error messages
-              const safeErrorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-              results.push({
-                url,
-                success: false,
-                error: safeErrorMessage.replace(/[^\w\s\-.:]/g, '') // Remove potentially sensitive characters
-              });
-            }
-            // Add delay between requests to prevent rate limiting
-            await delay(1000);
+          sanitizedUrls.push(sanitizedUrl);
+        }
+
+        // Prompt is optional for schema-based extraction; the schema drives
+        // the extraction. Validate it only if the caller supplied one.
+        let sanitizedPrompt = 'Extract data matching the provided JSON schema.';
+        if (args.prompt !== undefined) {
+          if (typeof args.prompt !== 'string') {
+            throw new Error('Invalid prompt: must be a string');
+          }
+          if (!validatePrompt(args.prompt)) {
+            throw new Error('Invalid prompt: must be between 1 and 10,000 characters');
           }
+          sanitizedPrompt = args.prompt.trim();
+        }
 
-          return {
-            content: [{ type: 'text', text: JSON.stringify(results, null, 2) }],
-            isError: false,
-          };
+        // Validate schema (basic validation)
+        if (typeof args.schema !== 'object' || args.schema === null) {
+          throw new Error('Invalid schema: must be a valid object');
         }
 
-        default:
-          return {
-            content: [{ type: 'text', text: `Unknown tool: ${name}` }],
-            isError: true,
-          };
+        const actions = parseActions(args.actions);
+        const engine = parseEngine(args.engine);
+        const fingerprint = parseFingerprint(args.fingerprint);
+        const device = parseDevice(args.device);
+        const location = parseLocation(args.location);
+        const blockResources = parseBlockResources(args.blockResources);
+        const scroll = parseScroll(args.scroll);
+        const pagination = parsePagination(args.pagination);
+        const captureNetwork = parseNetworkCapture(args.captureNetwork);
+
+        // One search per request; its pages are shared context for every URL.
+        // Without a prompt, the schema's field names are the best query.
+        const webContext = args.enableWebSearch
+          ? await gatherWebSearchContext(
+              args.prompt !== undefined ? sanitizedPrompt : Object.keys(args.schema.properties ?? {}).join(' ') || sanitizedPrompt,
+              sanitizedUrls,
+              { engine, fingerprint, device, location, blockResources }
+            )
+          : [];
+
+        const results = [];
+        for (const url of sanitizedUrls) {
+          try {
+            const result = await extractDataWithLLM(url, sanitizedPrompt, args.schema, { actions, engine, fingerprint, device, location, blockResources, captureNetwork, scroll, pagination }, webContext);
+            results.push({
+              url,
+              success: result.success,
+              data: result.success ? result.data : `Error: ${result.error}`,
+              actions: result.actions,
+              webSources: result.webSources
+            });
+          } catch (error) {
+            if (error instanceof RateLimitError) throw error;
+            // Prevent information disclosure in error messages
+            const safeErrorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            results.push({
+              url,
+              success: false,
+              error: safeErrorMessage.replace(/[^\w\s\-.:]/g, '') // Remove potentially sensitive characters
+            });
+          }
+          // Add delay between requests to prevent rate limiting
+          await delay(1000);
+        }
+
+        return {
+          content: [{ type: 'text', text: JSON.stringify(results, null, 2) }],
+          isError: false,
+        };
+      }
+
+      default:
+        return {
+          content: [{ type: 'text', text: `Unknown tool: ${name}` }],
+          isError: true,
+        };
+    }
+  } catch (error) {
+    // Becomes a rate-limit error for the client in callToolRequestHandler
+    if (error instanceof RateLimitError) throw error;
+    // Log detailed error information
+    safeLog('error', {
+      message: `Request failed: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      tool: request.params.name,
+      client,
+      arguments: request.params.arguments,
+      timestamp: new Date().toISOString(),
+      duration: Date.now() - startTime,
+    });
+    return {
+      content: [
+        {
+          type: 'text',
+          text: trimResponseText(
+            `Error: ${error instanceof Error ? error.message : String(error)}`
+          ),
+        },
+      ],
+      isError: true,
+    };
+  } finally {
+    // Log request completion with performance metrics
+    safeLog('info', `Request completed in ${Date.now() - startTime}ms`);
+  }
+}
+
+// Daily budgets each tool draws on (see rateLimit.ts); pages are counted as
+// they are loaded, LLM tokens as the provider reports them
+const TOOL_BUDGETS: Record<string, ToolBudgets> = {
+  scrape_page: { pages: true },
+  batch_scrape: { pages: true },
+  crawl_site: { pages: true },
+  map_site: { pages: true },
+  search_and_scrape: { pages: true },
+  screenshot: { pages: true },
+  extract_data: { pages: true, llmTokens: true },
+  extract_with_schema: { pages: true, llmTokens: true },
+};
+
+// Who a tool call counts against: the API key it authenticated with, else
+// the configured client header, else its MCP session. Undefined on stdio,
+// which is not rate limited.
+function rateLimitClient(extra: { authInfo?: AuthInfo; sessionId?: string; requestInfo?: RequestInfo }): string | undefined {
+  if (extra.authInfo?.clientId) return `key:${extra.authInfo.clientId}`;
+  const header = CONFIG.rateLimit.clientHeader ? extra.requestInfo?.headers[CONFIG.rateLimit.clientHeader] : undefined;
+  const headerValue = (Array.isArray(header) ? header[0] : header)?.trim();
+  if (headerValue) return `header:${headerValue}`;
+  return extra.sessionId ? `session:${extra.sessionId}` : undefined;
+}
+
+// A refused call as a JSON-RPC error rather than a failed tool result, so
+// clients can back off for data.retryAfterSeconds
+function rateLimitedError(error: RateLimitError): McpError {
+  return new McpError(RATE_LIMITED_ERROR_CODE, error.message, {
+    kind: error.kind,
+    limit: error.limit,
+    retryAfterSeconds: error.retryAfterSeconds,
+  });
+}
+
+server.setRequestHandler(
+  CallToolRequestSchema,
+  async function callToolRequestHandler(request, extra) {
+    const client = rateLimitClient(extra);
+    let release: (() => Promise<void>) | undefined;
+    if (client && rateLimiter.enabled) {
+      try {
+        release = await rateLimiter.admit(client, TOOL_BUDGETS[request.params.name]);
+      } catch (error) {
+        if (!(error instanceof RateLimitError)) throw error;
+        safeLog('warning', `Refused ${request.params.name} from ${client}: ${error.message}`);
+        throw rateLimitedError(error);
       }
+    }
+
+    try {
+      const context = { client, session: extra.sessionId ?? 'stdio', signal: extra.signal };
+      return await callContext.run(context, () => runToolCall(request, client));
     } catch (error) {
-      // Log detailed error information
-      safeLog('error', {
-        message: `Request failed: ${
-          error instanceof Error ? error.message : String(error)
-        }`,
-        tool: request.params.name,
-        arguments: request.params.arguments,
-        timestamp: new Date().toISOString(),
-        duration: Date.now() - startTime,
-      });
-      return {
-        content: [
-          {
-            type: 'text',
-            text: trimResponseText(
-              `Error: ${error instanceof Error ? error.message : String(error)}`
-            ),
-          },
-        ],
-        isError: true,
-      };
+      // A page budget spent part-way through the call
+      if (!(error instanceof RateLimitError)) throw error;
+      safeLog('warning', `Stopped ${request.params.name} for ${client}: ${error.message}`);
+      throw rateLimitedError(error);
     } finally {
-      // Log request completion with performance metrics
-      safeLog('info', `Request completed in ${Date.now() - startTime}ms`);
+      await release?.();
     }
   }
 );
@@ -1340,6 +2709,15 @@ async function runLocalServer() {
 
     await server.connect(transport);
 
+    // Close pooled browsers on exit so no Chrome processes are orphaned
+    const shutdown = async () => {
+      await browserPool.closeAll();
+      process.exit(0);
+    };
+    server.onclose = shutdown;
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+
     // Now that we're connected, we can send logging messages
     safeLog('info', 'Firecrawl Lite MCP Server initialized successfully');
     safeLog(
@@ -1353,6 +2731,32 @@ async function runLocalServer() {
     process.exit(1);
   }
 }
+// Express request carrying the authenticated key, in the shape the MCP
+// transports hand to request handlers as authInfo
+type AuthenticatedRequest = Request & { auth?: AuthInfo };
+
+// Name of the API key a request authenticated with
+function clientOf(req: Request): string | undefined {
+  return (req as AuthenticatedRequest).auth?.clientId;
+}
+
+// SECURITY: Require a configured API key on the MCP endpoints (/health stays
+// open) and attach its name to the request
+function requireApiKey(req: Request, res: Response, next: NextFunction): void {
+  if (!authenticator.enabled) {
+    next();
+    return;
+  }
+  const result = authenticator.authenticate(req.headers);
+  if (!result.ok) {
+    if (result.status === 401) res.set('WWW-Authenticate', 'Bearer realm="firecrawl-lite"');
+    res.status(result.status).json({ error: result.error });
+    return;
+  }
+  (req as AuthenticatedRequest).auth = { token: result.token, clientId: result.apiKey.name, scopes: [] };
+  next();
+}
+
 async function runHTTPStreamableServer() {
   const app = express();
   app.use(express.json());
@@ -1367,21 +2771,44 @@ async function runHTTPStreamableServer() {
       endpoints: {
         mcp: CONFIG.endpoints.enableHttpStreamableEndpoint ? 'enabled' : 'disabled',
         sse: CONFIG.endpoints.enableSseEndpoint ? 'enabled' : 'disabled'
-      }
+      },
+      authentication: authenticator.enabled ? 'api-key' : 'none',
+      browserPool: browserPool.stats(),
+      jobQueue: jobQueue.stats(),
+      proxies: proxyManager.summary()
     });
   });
 
+  // Per-proxy detail names proxy hosts and their last errors (which can
+  // include scraped URLs), so it needs an API key
+  app.get('/health/proxies', requireApiKey, (_req, res) => {
+    res.status(200).json(proxyManager.health());
+  });
+
   const transports: { [sessionId: string]: StreamableHTTPServerTransport } = {};
+  // API key name each session was opened with; other keys cannot use it
+  const sessionClients: { [sessionId: string]: string | undefined } = {};
   let sseTransport: SSEServerTransport | null = null;
 
   // MCP endpoint - only if enabled
   if (CONFIG.endpoints.enableHttpStreamableEndpoint) {
-    app.all('/mcp', async (req: Request, res: Response) => {
+    app.all('/mcp', requireApiKey, async (req: Request, res: Response) => {
     try {
       const sessionId = req.headers['mcp-session-id'] as string | undefined;
       let transport: StreamableHTTPServerTransport;
 
       if (sessionId && transports[sessionId]) {
+        if (sessionClients[sessionId] !== clientOf(req)) {
+          res.status(403).json({
+            jsonrpc: '2.0',
+            error: {
+              code: -32000,
+              message: 'Session belongs to a different API key',
+            },
+            id: null,
+          });
+          return;
+        }
         transport = transports[sessionId];
       } else if (
         !sessionId &&
@@ -1397,6 +2824,8 @@ async function runHTTPStreamableServer() {
           },
           onsessioninitialized: (sid: string) => {
             transports[sid] = transport;
+            sessionClients[sid] = clientOf(req);
+            console.log(`MCP session ${sid} opened${clientOf(req) ? ` by client ${clientOf(req)}` : ''}`);
           },
         });
 
@@ -1404,6 +2833,7 @@ async function runHTTPStreamableServer() {
           const sid = transport.sessionId;
           if (sid && transports[sid]) {
             delete transports[sid];
+            delete sessionClients[sid];
           }
         };
         console.log('Creating server instance');
@@ -1442,26 +2872,36 @@ async function runHTTPStreamableServer() {
 
   // SSE endpoint - only if enabled  
   if (CONFIG.endpoints.enableSseEndpoint) {
-    // Map to store SSE transports per session
+    // Map to store SSE transports per session, with the API key name each
+    // was opened with
     const sseTransports = new Map<string, SSEServerTransport>();
+    const sseClients = new Map<string, string | undefined>();
     
-    app.get('/sse', async (req, res) => {
+    app.get('/sse', requireApiKey, async (req, res) => {
       try {
         const sessionId = req.query.sessionId as string || randomUUID();
-        console.log(`SSE connection established for session: ${sessionId}`);
+        // SECURITY: Do not let one client take over another's session ID
+        if (sseTransports.has(sessionId) && sseClients.get(sessionId) !== clientOf(req)) {
+          res.status(403).json({ error: 'Session belongs to a different API key' });
+          return;
+        }
+        console.log(`SSE connection established for session: ${sessionId}${clientOf(req) ? ` (client ${clientOf(req)})` : ''}`);
         
         const transport = new SSEServerTransport(`/messages?sessionId=${sessionId}`, res);
         sseTransports.set(sessionId, transport);
+        sseClients.set(sessionId, clientOf(req));
         
         res.on('close', () => {
           console.log(`SSE connection closed for session: ${sessionId}`);
           sseTransports.delete(sessionId);
+          sseClients.delete(sessionId);
           transport.close?.();
         });
         
         res.on('error', (error) => {
           console.error(`SSE error for session ${sessionId}:`, error);
           sseTransports.delete(sessionId);
+          sseClients.delete(sessionId);
           transport.close?.();
         });
         
@@ -1472,13 +2912,15 @@ async function runHTTPStreamableServer() {
       }
     });
 
-    app.post('/messages', async (req, res) => {
+    app.post('/messages', requireApiKey, async (req, res) => {
       try {
         const sessionId = req.query.sessionId as string;
-        // First try exact match, then fallback to any available transport
-        let transport = sessionId ? sseTransports.get(sessionId) : null;
+        // First try exact match, then fallback to any available transport,
+        // only ever among the sessions opened with the caller's API key
+        const ownSessions = Array.from(sseTransports.keys()).filter((id) => sseClients.get(id) === clientOf(req));
+        let transport = sessionId && ownSessions.includes(sessionId) ? sseTransports.get(sessionId) : null;
         if (!transport) {
-          transport = Array.from(sseTransports.values())[0];
+          transport = ownSessions.length > 0 ? sseTransports.get(ownSessions[0]) : undefined;
         }
         
         if (transport) {
@@ -1489,7 +2931,7 @@ async function runHTTPStreamableServer() {
           res.status(503).json({
             error: 'SSE transport not available. Connect to /sse first.',
             sessionId: sessionId,
-            activeSessions: Array.from(sseTransports.keys())
+            activeSessions: ownSessions
           });
         }
       } catch (error) {
@@ -1504,6 +2946,9 @@ async function runHTTPStreamableServer() {
   const appServer = app.listen(PORT, () => {
     console.log(`🚀 Firecrawl Lite MCP Server listening on port ${PORT}`);
     console.log(`📊 Health endpoint: http://localhost:${PORT}/health`);
+    if (!authenticator.enabled) {
+      console.warn('⚠️  No API keys configured (MCP_API_KEYS / MCP_API_KEYS_FILE): the MCP endpoints accept any client');
+    }
     if (CONFIG.endpoints.enableHttpStreamableEndpoint) {
       console.log(`🔌 MCP endpoint: http://localhost:${PORT}/mcp`);
     }
@@ -1513,7 +2958,7 @@ async function runHTTPStreamableServer() {
     }
   });
 
-  process.on('SIGINT', async () => {
+  const shutdown = async () => {
     console.log('Shutting down server...');
     
     // Close MCP transports
@@ -1540,12 +2985,18 @@ async function runHTTPStreamableServer() {
         console.error('Error closing SSE transport:', error);
       }
     }
+
+    // Close pooled browsers
+    await browserPool.closeAll();
     
     appServer.close(() => {
       console.log('Server shutdown complete');
       process.exit(0);
     });
-  });
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
 }
 // Server startup - conditional based on enabled endpoints
 if (CONFIG.endpoints.enableHttpStreamableEndpoint || CONFIG.endpoints.enableSseEndpoint) {
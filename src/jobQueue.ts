@@ -0,0 +1,219 @@
+// Global work queue for browser jobs. Every browser page load (a scrape or
+// screenshot attempt, from any tool, session or transport) runs as a job, so
+// the number of pages open at once stays bounded however many calls arrive.
+// Waiting jobs are taken round-robin across sessions, so one session's batch
+// cannot starve another's single scrape. Jobs that run too long are aborted.
+
+// Wait times of this many recently started jobs are averaged for stats()
+const WAIT_SAMPLE_SIZE = 100;
+
+export interface JobQueueOptions {
+  maxConcurrent: number;
+  // Jobs waiting at once, over all sessions and per session
+  maxQueueDepth: number;
+  maxQueueDepthPerSession: number;
+  // Run time after which a job is aborted, from when it starts (not queued)
+  jobTimeoutMs: number;
+}
+
+// A job refused because the queue is full. The message starts with the typed
+// code, e.g. "queue-full (100 jobs waiting)".
+export class QueueFullError extends Error {
+  constructor(message: string) {
+    super(`queue-full (${message})`);
+    this.name = 'QueueFullError';
+  }
+}
+
+// A job aborted after running past the job timeout.
+export class JobTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`job-timeout (no result after ${timeoutMs}ms)`);
+    this.name = 'JobTimeoutError';
+  }
+}
+
+// A job whose caller went away (e.g. the MCP request was cancelled).
+export class JobCancelledError extends Error {
+  constructor() {
+    super('job-cancelled (the request was cancelled)');
+    this.name = 'JobCancelledError';
+  }
+}
+
+export interface JobQueueStats {
+  running: number;
+  queued: number;
+  // Sessions with jobs waiting
+  queuedSessions: number;
+  maxConcurrent: number;
+  maxQueueDepth: number;
+  // Mean queue wait of recently started jobs
+  averageWaitMs: number;
+  // How long the oldest waiting job has been queued
+  oldestWaitMs: number;
+  completed: number;
+  timedOut: number;
+  rejected: number;
+}
+
+// Receives an AbortSignal that fires on timeout or cancellation; the job
+// should stop and free its resources when it does. deadline is when the
+// timeout fires (epoch ms), so long jobs can wind down and return what they
+// have before then.
+export type Job<T> = (signal: AbortSignal, deadline: number) => Promise<T>;
+
+interface PendingJob {
+  enqueuedAt: number;
+  start(): void;
+}
+
+export class JobQueue {
+  // Waiting jobs per session, in round-robin order: the session served next
+  // is first, and moves to the back after each dispatch
+  private readonly queues = new Map<string, PendingJob[]>();
+  private readonly waits: number[] = [];
+  private running = 0;
+  private queued = 0;
+  private completed = 0;
+  private timedOut = 0;
+  private rejected = 0;
+
+  constructor(
+    private readonly options: JobQueueOptions,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  // Run the job once a slot is free, on behalf of session. Rejects with
+  // QueueFullError when too many jobs are waiting, JobTimeoutError when the job
+  // runs past the timeout, and JobCancelledError when signal aborts first.
+  // A timed-out job keeps its slot until it actually settles, so jobs that
+  // ignore the abort cannot push the queue past maxConcurrent.
+  run<T>(session: string, job: Job<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) return Promise.reject(new JobCancelledError());
+    const waiting = this.queues.get(session);
+    if (this.queued >= this.options.maxQueueDepth) {
+      this.rejected++;
+      return Promise.reject(new QueueFullError(`${this.queued} jobs waiting`));
+    }
+    if ((waiting?.length ?? 0) >= this.options.maxQueueDepthPerSession) {
+      this.rejected++;
+      return Promise.reject(new QueueFullError(`${waiting!.length} jobs waiting for this session`));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const pending: PendingJob = {
+        enqueuedAt: this.now(),
+        start: () => this.start(pending, job, signal, resolve, reject),
+      };
+
+      const onCancel = () => {
+        const queue = this.queues.get(session);
+        const index = queue?.indexOf(pending) ?? -1;
+        if (index === -1) return;
+        queue!.splice(index, 1);
+        if (queue!.length === 0) this.queues.delete(session);
+        this.queued--;
+        reject(new JobCancelledError());
+      };
+      signal?.addEventListener('abort', onCancel, { once: true });
+      const start = pending.start;
+      pending.start = () => {
+        signal?.removeEventListener('abort', onCancel);
+        start();
+      };
+
+      if (waiting) waiting.push(pending);
+      else this.queues.set(session, [pending]);
+      this.queued++;
+      this.dispatch();
+    });
+  }
+
+  stats(): JobQueueStats {
+    const now = this.now();
+    let oldest = now;
+    for (const queue of this.queues.values()) {
+      oldest = Math.min(oldest, queue[0].enqueuedAt);
+    }
+    return {
+      running: this.running,
+      queued: this.queued,
+      queuedSessions: this.queues.size,
+      maxConcurrent: this.options.maxConcurrent,
+      maxQueueDepth: this.options.maxQueueDepth,
+      averageWaitMs: this.waits.length > 0 ? Math.round(this.waits.reduce((sum, wait) => sum + wait, 0) / this.waits.length) : 0,
+      oldestWaitMs: now - oldest,
+      completed: this.completed,
+      timedOut: this.timedOut,
+      rejected: this.rejected,
+    };
+  }
+
+  // Start waiting jobs while slots are free, one session at a time
+  private dispatch(): void {
+    while (this.running < this.options.maxConcurrent && this.queues.size > 0) {
+      const [session, queue] = this.queues.entries().next().value!;
+      const pending = queue.shift()!;
+      this.queues.delete(session);
+      if (queue.length > 0) this.queues.set(session, queue);
+      this.queued--;
+      pending.start();
+    }
+  }
+
+  private start<T>(
+    pending: PendingJob,
+    job: Job<T>,
+    signal: AbortSignal | undefined,
+    resolve: (value: T) => void,
+    reject: (error: Error) => void
+  ): void {
+    this.running++;
+    this.waits.push(this.now() - pending.enqueuedAt);
+    if (this.waits.length > WAIT_SAMPLE_SIZE) this.waits.shift();
+
+    const deadline = this.now() + this.options.jobTimeoutMs;
+    const controller = new AbortController();
+    let settled = false;
+    const finish = (error?: Error) => {
+      if (settled) return false;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onCancel);
+      if (error) controller.abort(error);
+      return true;
+    };
+    const timer = setTimeout(() => {
+      if (finish(new JobTimeoutError(this.options.jobTimeoutMs))) {
+        this.timedOut++;
+        reject(new JobTimeoutError(this.options.jobTimeoutMs));
+      }
+    }, this.options.jobTimeoutMs);
+    const onCancel = () => {
+      if (finish(new JobCancelledError())) reject(new JobCancelledError());
+    };
+    signal?.addEventListener('abort', onCancel, { once: true });
+
+    let result: Promise<T>;
+    try {
+      result = job(controller.signal, deadline);
+    } catch (error) {
+      result = Promise.reject(error);
+    }
+    result
+      .then(
+        (value) => {
+          if (finish()) resolve(value);
+        },
+        (error: unknown) => {
+          if (finish()) reject(error instanceof Error ? error : new Error(String(error)));
+        }
+      )
+      .finally(() => {
+        this.running--;
+        this.completed++;
+        this.dispatch();
+      });
+  }
+}
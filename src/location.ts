@@ -0,0 +1,210 @@
+// Per-request location emulation for the `location` tool parameter: country,
+// languages, timezone and geolocation. Languages and timezone are folded into
+// the request's fingerprint profile (Accept-Language, navigator.languages,
+// Intl locale, emulated timezone); geolocation is granted and set on the page.
+// The country also selects a proxy tagged with it (see parseProxyEndpoint).
+
+import { FingerprintProfile } from './fingerprints.js';
+
+export interface Geolocation {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+}
+
+export interface LocationOptions {
+  // ISO 3166-1 alpha-2 code, upper-cased
+  country?: string;
+  languages?: string[];
+  timezone?: string;
+  geolocation?: Geolocation;
+}
+
+// Languages and timezone used for a country when the request leaves them out.
+const COUNTRY_DEFAULTS: Record<string, { languages: string[]; timezone: string }> = {
+  US: { languages: ['en-US', 'en'], timezone: 'America/New_York' },
+  CA: { languages: ['en-CA', 'fr-CA'], timezone: 'America/Toronto' },
+  MX: { languages: ['es-MX', 'es'], timezone: 'America/Mexico_City' },
+  BR: { languages: ['pt-BR', 'pt'], timezone: 'America/Sao_Paulo' },
+  AR: { languages: ['es-AR', 'es'], timezone: 'America/Argentina/Buenos_Aires' },
+  GB: { languages: ['en-GB', 'en'], timezone: 'Europe/London' },
+  IE: { languages: ['en-IE', 'en'], timezone: 'Europe/Dublin' },
+  DE: { languages: ['de-DE', 'de'], timezone: 'Europe/Berlin' },
+  AT: { languages: ['de-AT', 'de'], timezone: 'Europe/Vienna' },
+  CH: { languages: ['de-CH', 'fr-CH'], timezone: 'Europe/Zurich' },
+  FR: { languages: ['fr-FR', 'fr'], timezone: 'Europe/Paris' },
+  BE: { languages: ['nl-BE', 'fr-BE'], timezone: 'Europe/Brussels' },
+  NL: { languages: ['nl-NL', 'nl'], timezone: 'Europe/Amsterdam' },
+  ES: { languages: ['es-ES', 'es'], timezone: 'Europe/Madrid' },
+  PT: { languages: ['pt-PT', 'pt'], timezone: 'Europe/Lisbon' },
+  IT: { languages: ['it-IT', 'it'], timezone: 'Europe/Rome' },
+  SE: { languages: ['sv-SE', 'sv'], timezone: 'Europe/Stockholm' },
+  NO: { languages: ['nb-NO', 'no'], timezone: 'Europe/Oslo' },
+  DK: { languages: ['da-DK', 'da'], timezone: 'Europe/Copenhagen' },
+  FI: { languages: ['fi-FI', 'fi'], timezone: 'Europe/Helsinki' },
+  PL: { languages: ['pl-PL', 'pl'], timezone: 'Europe/Warsaw' },
+  TR: { languages: ['tr-TR', 'tr'], timezone: 'Europe/Istanbul' },
+  RU: { languages: ['ru-RU', 'ru'], timezone: 'Europe/Moscow' },
+  IN: { languages: ['en-IN', 'hi-IN'], timezone: 'Asia/Kolkata' },
+  JP: { languages: ['ja-JP', 'ja'], timezone: 'Asia/Tokyo' },
+  KR: { languages: ['ko-KR', 'ko'], timezone: 'Asia/Seoul' },
+  CN: { languages: ['zh-CN', 'zh'], timezone: 'Asia/Shanghai' },
+  HK: { languages: ['zh-HK', 'en-HK'], timezone: 'Asia/Hong_Kong' },
+  TW: { languages: ['zh-TW', 'zh'], timezone: 'Asia/Taipei' },
+  SG: { languages: ['en-SG', 'zh-SG'], timezone: 'Asia/Singapore' },
+  AU: { languages: ['en-AU', 'en'], timezone: 'Australia/Sydney' },
+  NZ: { languages: ['en-NZ', 'en'], timezone: 'Pacific/Auckland' },
+  ZA: { languages: ['en-ZA', 'en'], timezone: 'Africa/Johannesburg' },
+  AE: { languages: ['ar-AE', 'en'], timezone: 'Asia/Dubai' },
+};
+
+// JSON schema fragment for the tools' `location` parameter.
+export const LOCATION_SCHEMA = {
+  type: 'object',
+  description:
+    'Where the browser should appear to be. Sets Accept-Language, navigator.languages, the timezone and ' +
+    'geolocation, and prefers proxies tagged with the country.',
+  properties: {
+    country: {
+      type: 'string',
+      description: 'ISO 3166-1 alpha-2 country code, e.g. "DE". Supplies default languages and timezone.',
+    },
+    languages: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Preferred languages in order, e.g. ["de-DE", "en"]',
+    },
+    timezone: { type: 'string', description: 'IANA timezone, e.g. "Europe/Berlin"' },
+    geolocation: {
+      type: 'object',
+      properties: {
+        latitude: { type: 'number' },
+        longitude: { type: 'number' },
+        accuracy: { type: 'number' },
+      },
+      required: ['latitude', 'longitude'],
+    },
+  },
+};
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isLanguageTag(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    return Intl.getCanonicalLocales(value).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+function parseGeolocation(input: unknown): Geolocation {
+  if (typeof input !== 'object' || input === null) {
+    throw new Error('Invalid location: geolocation must be an object with latitude and longitude');
+  }
+  const { latitude, longitude, accuracy } = input as Record<string, unknown>;
+  if (typeof latitude !== 'number' || latitude < -90 || latitude > 90) {
+    throw new Error('Invalid location: geolocation.latitude must be a number between -90 and 90');
+  }
+  if (typeof longitude !== 'number' || longitude < -180 || longitude > 180) {
+    throw new Error('Invalid location: geolocation.longitude must be a number between -180 and 180');
+  }
+  if (accuracy !== undefined && (typeof accuracy !== 'number' || accuracy < 0)) {
+    throw new Error('Invalid location: geolocation.accuracy must be a non-negative number');
+  }
+  return accuracy === undefined ? { latitude, longitude } : { latitude, longitude, accuracy };
+}
+
+// Validate untrusted tool input and fill in the country's default languages
+// and timezone. Returns undefined when no location was given.
+export function parseLocation(input: unknown): LocationOptions | undefined {
+  if (input === undefined) return undefined;
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('Invalid location: must be an object');
+  }
+
+  const raw = input as Record<string, unknown>;
+  const location: LocationOptions = {};
+
+  if (raw.country !== undefined) {
+    if (typeof raw.country !== 'string' || !/^[A-Za-z]{2}$/.test(raw.country)) {
+      throw new Error('Invalid location: country must be a two-letter ISO 3166-1 code');
+    }
+    location.country = raw.country.toUpperCase();
+  }
+
+  if (raw.languages !== undefined) {
+    if (!Array.isArray(raw.languages) || raw.languages.length === 0 || !raw.languages.every(isLanguageTag)) {
+      throw new Error('Invalid location: languages must be a non-empty array of language tags');
+    }
+    location.languages = raw.languages.map((tag) => Intl.getCanonicalLocales(tag)[0]);
+  }
+
+  if (raw.timezone !== undefined) {
+    if (typeof raw.timezone !== 'string' || !isValidTimezone(raw.timezone)) {
+      throw new Error(`Invalid location: unknown timezone "${String(raw.timezone)}"`);
+    }
+    location.timezone = raw.timezone;
+  }
+
+  if (raw.geolocation !== undefined) {
+    location.geolocation = parseGeolocation(raw.geolocation);
+  }
+
+  const defaults = location.country ? COUNTRY_DEFAULTS[location.country] : undefined;
+  if (defaults) {
+    location.languages ??= defaults.languages;
+    location.timezone ??= defaults.timezone;
+  }
+
+  return location;
+}
+
+// Accept-Language for a language list, the way Chrome builds it: each
+// regional tag is followed by its base language, with descending q-values.
+export function acceptLanguageHeader(languages: string[]): string {
+  const tags: string[] = [];
+  for (const language of languages) {
+    if (!tags.includes(language)) tags.push(language);
+    const base = language.split('-')[0];
+    if (!tags.includes(base) && !languages.includes(base)) tags.push(base);
+  }
+  return tags
+    .map((tag, i) => (i === 0 ? tag : `${tag};q=${Math.max(0.1, 1 - i / 10).toFixed(1)}`))
+    .join(',');
+}
+
+// Fold a location into a fingerprint profile (languages and timezone only;
+// geolocation is set on the page by applyGeolocation).
+export function applyLocation(profile: FingerprintProfile, location?: LocationOptions): FingerprintProfile {
+  if (!location) return profile;
+  const languages = location.languages ?? profile.languages;
+  return {
+    ...profile,
+    locale: languages[0],
+    languages,
+    acceptLanguage: location.languages ? acceptLanguageHeader(languages) : profile.acceptLanguage,
+    timezone: location.timezone ?? profile.timezone,
+  };
+}
+
+// The puppeteer Page methods applyGeolocation needs.
+export interface GeolocationPage {
+  browserContext(): { overridePermissions(origin: string, permissions: string[]): Promise<void> };
+  setGeolocation(geolocation: Geolocation): Promise<void>;
+}
+
+// Grant the geolocation permission to the target's origin and set the
+// position it reports.
+export async function applyGeolocation(page: GeolocationPage, url: string, geolocation?: Geolocation): Promise<void> {
+  if (!geolocation) return;
+  await page.browserContext().overridePermissions(new URL(url).origin, ['geolocation']);
+  await page.setGeolocation(geolocation);
+}
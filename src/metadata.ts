@@ -0,0 +1,178 @@
+// Page metadata extraction. Runs on the raw HTML *before* cleaning, because
+// clean() strips <head>, <meta> and <link> along with the rest of the noise.
+
+import { load } from 'cheerio/slim';
+
+export interface MicrodataItem {
+  type?: string;
+  properties: Record<string, unknown>;
+}
+
+export interface PageMetadata {
+  description?: string;
+  canonicalUrl?: string;
+  language?: string;
+  favicon?: string;
+  author?: string;
+  keywords?: string;
+  publishedTime?: string;
+  modifiedTime?: string;
+  openGraph?: Record<string, string>;
+  twitter?: Record<string, string>;
+  jsonLd?: unknown[];
+  microdata?: MicrodataItem[];
+}
+
+type CheerioRoot = ReturnType<typeof load>;
+
+// Resolve a possibly-relative URL against the page, leaving it as-is if it
+// can't be parsed.
+function absolute(url: string | undefined, baseUrl?: string): string | undefined {
+  if (!url) return undefined;
+  try {
+    return new URL(url, baseUrl).href;
+  } catch {
+    return url;
+  }
+}
+
+// First non-empty `content` among the given <meta> selectors.
+function metaContent($: CheerioRoot, ...selectors: string[]): string | undefined {
+  for (const selector of selectors) {
+    const value = $(selector).first().attr('content')?.trim();
+    if (value) return value;
+  }
+  return undefined;
+}
+
+// Collect <meta property|name="prefix:..."> tags into a flat key → value map
+// (keys without the prefix, e.g. og:image:width → image:width).
+function prefixedMeta($: CheerioRoot, prefix: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  $('meta').each((_, el) => {
+    const key = ($(el).attr('property') || $(el).attr('name') || '').trim();
+    const content = $(el).attr('content')?.trim();
+    if (!key.toLowerCase().startsWith(`${prefix}:`) || !content) return;
+    // The first tag wins, as with the other meta fields
+    const name = key.slice(prefix.length + 1);
+    if (!(name in values)) values[name] = content;
+  });
+  return values;
+}
+
+function parseJsonLd($: CheerioRoot): unknown[] {
+  const blocks: unknown[] = [];
+  $('script[type="application/ld+json"]').each((_, el) => {
+    const raw = $(el).text().trim();
+    if (!raw) return;
+    try {
+      const parsed = JSON.parse(raw);
+      // Flatten top-level arrays so each entity is its own entry.
+      blocks.push(...(Array.isArray(parsed) ? parsed : [parsed]));
+    } catch {
+      /* malformed JSON-LD is common in the wild — skip it */
+    }
+  });
+  return blocks;
+}
+
+// Value of a microdata property element, per the HTML microdata spec.
+function itempropValue($: CheerioRoot, el: any, baseUrl?: string): unknown {
+  const $el = $(el);
+  if ($el.is('[itemscope]')) return parseMicrodataItem($, el, baseUrl);
+  if ($el.is('meta')) return $el.attr('content') ?? '';
+  if ($el.is('a, link, area')) return absolute($el.attr('href'), baseUrl) ?? '';
+  if ($el.is('img, audio, video, source, iframe, embed')) return absolute($el.attr('src'), baseUrl) ?? '';
+  if ($el.is('time')) return $el.attr('datetime') ?? $el.text().trim();
+  if ($el.is('data, meter')) return $el.attr('value') ?? $el.text().trim();
+  return $el.text().replace(/\s+/g, ' ').trim();
+}
+
+function parseMicrodataItem($: CheerioRoot, scope: any, baseUrl?: string): MicrodataItem {
+  const item: MicrodataItem = { properties: {} };
+  const type = $(scope).attr('itemtype')?.trim();
+  if (type) item.type = type;
+
+  // Only properties whose nearest enclosing scope is this item.
+  $(scope)
+    .find('[itemprop]')
+    .filter((_, el) => $(el).parent().closest('[itemscope]')[0] === scope)
+    .each((_, el) => {
+      const value = itempropValue($, el, baseUrl);
+      for (const name of ($(el).attr('itemprop') || '').split(/\s+/).filter(Boolean)) {
+        const existing = item.properties[name];
+        if (existing === undefined) {
+          item.properties[name] = value;
+        } else if (Array.isArray(existing)) {
+          existing.push(value);
+        } else {
+          item.properties[name] = [existing, value];
+        }
+      }
+    });
+
+  return item;
+}
+
+function parseMicrodata($: CheerioRoot, baseUrl?: string): MicrodataItem[] {
+  return $('[itemscope]')
+    .filter((_, el) => !$(el).is('[itemprop]') && $(el).parents('[itemscope]').length === 0)
+    .map((_, el) => parseMicrodataItem($, el, baseUrl))
+    .get();
+}
+
+// First string value of `key` found in any JSON-LD entity (including @graph).
+function jsonLdField(blocks: unknown[], key: string): string | undefined {
+  const queue = [...blocks];
+  while (queue.length > 0) {
+    const node = queue.shift();
+    if (!node || typeof node !== 'object') continue;
+    const record = node as Record<string, unknown>;
+    const value = record[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    if (value && typeof value === 'object') {
+      const named = value as Record<string, unknown>;
+      if (typeof named.name === 'string') return named.name;
+    }
+    if (Array.isArray(record['@graph'])) queue.push(...record['@graph']);
+  }
+  return undefined;
+}
+
+// Extract page metadata from raw HTML. Empty fields are omitted.
+export function extractMetadata(html: string, baseUrl?: string): PageMetadata {
+  const $ = load(html);
+  const openGraph = prefixedMeta($, 'og');
+  const twitter = prefixedMeta($, 'twitter');
+  const jsonLd = parseJsonLd($);
+  const microdata = parseMicrodata($, baseUrl);
+
+  const metadata: PageMetadata = {
+    description: metaContent($, 'meta[name="description" i]') ?? openGraph.description ?? twitter.description,
+    canonicalUrl: absolute($('link[rel~="canonical" i]').first().attr('href'), baseUrl) ?? absolute(openGraph.url, baseUrl),
+    language: $('html').attr('lang')?.trim() || metaContent($, 'meta[http-equiv="content-language" i]'),
+    favicon: absolute(
+      $('link[rel~="icon" i]').first().attr('href') ?? $('link[rel="apple-touch-icon" i]').first().attr('href'),
+      baseUrl
+    ),
+    author:
+      metaContent($, 'meta[name="author" i]', 'meta[property="article:author"]') ??
+      jsonLdField(jsonLd, 'author'),
+    keywords: metaContent($, 'meta[name="keywords" i]'),
+    publishedTime:
+      metaContent($, 'meta[property="article:published_time"]', 'meta[name="date" i]', 'meta[itemprop="datePublished"]') ??
+      jsonLdField(jsonLd, 'datePublished'),
+    modifiedTime:
+      metaContent($, 'meta[property="article:modified_time"]', 'meta[property="og:updated_time"]', 'meta[itemprop="dateModified"]') ??
+      jsonLdField(jsonLd, 'dateModified'),
+    openGraph: Object.keys(openGraph).length > 0 ? openGraph : undefined,
+    twitter: Object.keys(twitter).length > 0 ? twitter : undefined,
+    jsonLd: jsonLd.length > 0 ? jsonLd : undefined,
+    microdata: microdata.length > 0 ? microdata : undefined,
+  };
+
+  for (const key of Object.keys(metadata) as Array<keyof PageMetadata>) {
+    if (metadata[key] === undefined) delete metadata[key];
+  }
+  return metadata;
+}
@@ -0,0 +1,217 @@
+// Capture of the page's own XHR/fetch responses during a browser scrape. SPAs
+// often load their data as clean JSON from their API; recording those bodies
+// (the `captureNetwork` tool parameter) gives callers and the extraction LLM
+// the data directly instead of reverse-engineering it from Markdown.
+
+export interface NetworkCaptureOptions {
+  // URL substrings, or patterns with * wildcards matched against the whole
+  // URL; empty captures every URL
+  urlPatterns: string[];
+  // Content-type substrings to accept, e.g. "json" or "application/ld+json"
+  contentTypes: string[];
+  maxResponses: number;
+}
+
+export interface CapturedResponse {
+  url: string;
+  method: string;
+  status: number;
+  contentType: string;
+  // Parsed JSON, or the raw text when the body is not valid JSON; left out
+  // when truncated
+  body?: unknown;
+  // Set when the capture's total size cap was reached before this body
+  truncated?: true;
+}
+
+export const DEFAULT_CAPTURE_CONTENT_TYPES = ['json'];
+export const DEFAULT_MAX_CAPTURED_RESPONSES = 20;
+const MAX_CAPTURED_RESPONSES = 100;
+// Larger bodies are skipped rather than returned in a tool response
+const MAX_CAPTURED_BODY_CHARS = 1_000_000;
+// Total body size kept per page; later responses are listed without a body
+export const MAX_CAPTURED_TOTAL_BYTES = 5 * 1024 * 1024;
+
+const CAPTURED_RESOURCE_TYPES = ['xhr', 'fetch'];
+
+// JSON schema fragment for the tools' `captureNetwork` parameter.
+export const NETWORK_CAPTURE_SCHEMA = {
+  oneOf: [
+    {
+      type: 'boolean',
+      description: 'Record the JSON responses of XHR/fetch requests made while the page loads (browser only)',
+    },
+    {
+      type: 'object',
+      description: 'Record matching XHR/fetch responses made while the page loads (browser only)',
+      properties: {
+        urlPatterns: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'URL substrings or * wildcard patterns, e.g. "/api/" or "https://api.example.com/*/items*"',
+        },
+        contentTypes: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Content-type substrings to capture (default: ["json"])',
+        },
+        maxResponses: {
+          type: 'number',
+          description: `Maximum responses to keep (default: ${DEFAULT_MAX_CAPTURED_RESPONSES}, max: ${MAX_CAPTURED_RESPONSES})`,
+        },
+      },
+    },
+  ],
+};
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string' && item.trim().length > 0);
+}
+
+// Validate untrusted tool input. `true` captures JSON from any URL; `false`
+// or nothing returns undefined.
+export function parseNetworkCapture(input: unknown): NetworkCaptureOptions | undefined {
+  if (input === undefined || input === false) return undefined;
+  if (input === true) {
+    return { urlPatterns: [], contentTypes: DEFAULT_CAPTURE_CONTENT_TYPES, maxResponses: DEFAULT_MAX_CAPTURED_RESPONSES };
+  }
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('Invalid captureNetwork: must be a boolean or an object');
+  }
+
+  const { urlPatterns = [], contentTypes = DEFAULT_CAPTURE_CONTENT_TYPES, maxResponses = DEFAULT_MAX_CAPTURED_RESPONSES } =
+    input as Record<string, unknown>;
+  if (!isStringArray(urlPatterns)) {
+    throw new Error('Invalid captureNetwork: urlPatterns must be an array of strings');
+  }
+  if (!isStringArray(contentTypes) || contentTypes.length === 0) {
+    throw new Error('Invalid captureNetwork: contentTypes must be a non-empty array of strings');
+  }
+  if (typeof maxResponses !== 'number' || !Number.isInteger(maxResponses) || maxResponses < 1 || maxResponses > MAX_CAPTURED_RESPONSES) {
+    throw new Error(`Invalid captureNetwork: maxResponses must be an integer between 1 and ${MAX_CAPTURED_RESPONSES}`);
+  }
+  return {
+    urlPatterns,
+    contentTypes: contentTypes.map((type) => type.toLowerCase()),
+    maxResponses,
+  };
+}
+
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  if (!pattern.includes('*')) return url.includes(pattern);
+  const escaped = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}$`).test(url);
+}
+
+// What shouldCaptureResponse looks at for one response.
+export interface ResponseInfo {
+  url: string;
+  resourceType: string;
+  status: number;
+  contentType: string;
+}
+
+export function shouldCaptureResponse(options: NetworkCaptureOptions, response: ResponseInfo): boolean {
+  if (!CAPTURED_RESOURCE_TYPES.includes(response.resourceType)) return false;
+  // Redirects and empty responses have no body to read
+  if (response.status === 204 || (response.status >= 300 && response.status < 400)) return false;
+  const contentType = response.contentType.toLowerCase();
+  if (!options.contentTypes.some((type) => contentType.includes(type))) return false;
+  return options.urlPatterns.length === 0 || options.urlPatterns.some((pattern) => matchesUrlPattern(response.url, pattern));
+}
+
+// The puppeteer HTTPResponse/Page methods captureNetworkResponses needs.
+export interface CapturableResponse {
+  url(): string;
+  status(): number;
+  headers(): Record<string, string>;
+  request(): { method(): string; resourceType(): string };
+  text(): Promise<string>;
+}
+
+export interface CapturablePage {
+  on(event: 'response', handler: (response: CapturableResponse) => void): unknown;
+}
+
+export interface NetworkCapture {
+  // Wait for bodies still being read and return the captured responses in
+  // the order they arrived
+  collect(): Promise<CapturedResponse[]>;
+}
+
+// Start recording matching responses on a page. Call before navigation.
+// Once maxTotalBytes of bodies are kept, further responses are recorded as
+// truncated, without reading their bodies.
+export function captureNetworkResponses(
+  page: CapturablePage,
+  options: NetworkCaptureOptions,
+  maxTotalBytes: number = MAX_CAPTURED_TOTAL_BYTES
+): NetworkCapture {
+  const slots: Promise<CapturedResponse | undefined>[] = [];
+  let totalBytes = 0;
+  // Responses kept so far; bodies still being read may yet be skipped, so
+  // they do not count, and collect() trims any overshoot
+  let kept = 0;
+  const keep = (captured: CapturedResponse): CapturedResponse => {
+    kept++;
+    return captured;
+  };
+
+  page.on('response', (response) => {
+    if (kept >= options.maxResponses) return;
+    const headers = response.headers();
+    const info = {
+      url: response.url(),
+      resourceType: response.request().resourceType(),
+      status: response.status(),
+      contentType: headers['content-type'] ?? '',
+    };
+    if (!shouldCaptureResponse(options, info)) return;
+
+    const truncated = (): CapturedResponse => ({
+      url: info.url,
+      method: response.request().method(),
+      status: info.status,
+      contentType: info.contentType,
+      truncated: true,
+    });
+    if (totalBytes >= maxTotalBytes) {
+      slots.push(Promise.resolve(keep(truncated())));
+      return;
+    }
+
+    slots.push(
+      response.text().then(
+        (text): CapturedResponse | undefined => {
+          if (text.length > MAX_CAPTURED_BODY_CHARS) return undefined;
+          // Counted as bodies finish reading. The first body that does not
+          // fit closes the capture, so later ones are truncated too
+          const bytes = Buffer.byteLength(text, 'utf8');
+          if (totalBytes + bytes > maxTotalBytes) {
+            totalBytes = maxTotalBytes;
+            return keep(truncated());
+          }
+          totalBytes += bytes;
+          let body: unknown = text;
+          try {
+            body = JSON.parse(text);
+          } catch {
+            // Not JSON after all; keep the text
+          }
+          return keep({ url: info.url, method: response.request().method(), status: info.status, contentType: info.contentType, body });
+        },
+        // The body can be gone (page closed, preflight, evicted from cache)
+        () => undefined
+      )
+    );
+  });
+
+  return {
+    async collect() {
+      const captured = await Promise.all(slots);
+      return captured
+        .filter((response): response is CapturedResponse => response !== undefined)
+        .slice(0, options.maxResponses);
+    },
+  };
+}
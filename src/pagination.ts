@@ -0,0 +1,249 @@
+// Getting past the first screen of a page: `scroll` keeps scrolling an
+// infinite feed until no new content appears, and `pagination` follows "next"
+// links or buttons and collects each page. Both wait for the page with the
+// caller's settle function (waitForContentToSettle) after every step.
+
+export interface ScrollOptions {
+  maxScrolls: number;
+  maxTimeMs: number;
+  // Stop once this many elements match itemSelector
+  itemSelector?: string;
+  maxItems?: number;
+}
+
+export interface ScrollResult {
+  scrolls: number;
+  items?: number;
+  stoppedBy: 'no-new-content' | 'max-scrolls' | 'max-items' | 'time';
+}
+
+export interface PaginationOptions {
+  maxPages: number;
+  // Element whose href is followed, or which is clicked; defaults to rel=next
+  nextSelector?: string;
+}
+
+export interface PaginatedPage {
+  url: string;
+  html: string;
+}
+
+export interface PaginationResult {
+  // Pages after the first, in order
+  pages: PaginatedPage[];
+  stoppedBy: 'no-next' | 'max-pages' | 'unchanged' | 'loop' | 'time' | 'error';
+  error?: string;
+}
+
+export const DEFAULT_MAX_SCROLLS = 10;
+export const DEFAULT_SCROLL_TIME_MS = 30000;
+export const DEFAULT_MAX_PAGES = 5;
+const MAX_SCROLLS = 50;
+const MAX_SCROLL_TIME_MS = 120000;
+const MAX_PAGES = 20;
+// Scroll rounds without growth before the feed counts as exhausted; loaders
+// are sometimes slower than one settle
+const IDLE_SCROLLS_TO_STOP = 2;
+const NAVIGATION_TIMEOUT_MS = 30000;
+// How long a clicked "next" button gets to start a navigation before the
+// update is assumed to happen in place
+const CLICK_NAVIGATION_WAIT_MS = 3000;
+
+// JSON schema fragments for the tools' `scroll` and `pagination` parameters.
+export const SCROLL_SCHEMA = {
+  oneOf: [
+    { type: 'boolean', description: 'Keep scrolling an infinite-scroll page until no new content appears (browser only)' },
+    {
+      type: 'object',
+      description: 'Keep scrolling an infinite-scroll page until no new content appears or a limit is hit (browser only)',
+      properties: {
+        maxScrolls: { type: 'number', description: `Maximum scrolls (default: ${DEFAULT_MAX_SCROLLS}, max: ${MAX_SCROLLS})` },
+        maxTimeMs: { type: 'number', description: `Time budget in ms (default: ${DEFAULT_SCROLL_TIME_MS}, max: ${MAX_SCROLL_TIME_MS})` },
+        itemSelector: { type: 'string', description: 'CSS selector of one feed item, e.g. "article.post"' },
+        maxItems: { type: 'number', description: 'Stop once this many items match itemSelector' },
+      },
+    },
+  ],
+};
+
+export const PAGINATION_SCHEMA = {
+  type: 'object',
+  description:
+    'Follow "next" links for several pages and concatenate their Markdown with page separators (browser only)',
+  properties: {
+    maxPages: { type: 'number', description: `Total pages including the first (default: ${DEFAULT_MAX_PAGES}, max: ${MAX_PAGES})` },
+    nextSelector: {
+      type: 'string',
+      description: 'CSS selector of the "next" link or button; defaults to rel="next" links',
+    },
+  },
+};
+
+function optionalInteger(input: Record<string, unknown>, field: string, name: string, max: number): number | undefined {
+  const value = input[field];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > max) {
+    throw new Error(`Invalid ${name}: ${field} must be an integer between 1 and ${max}`);
+  }
+  return value;
+}
+
+function optionalSelector(input: Record<string, unknown>, field: string, name: string): string | undefined {
+  const value = input[field];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw new Error(`Invalid ${name}: ${field} must be a non-empty CSS selector`);
+  }
+  return value;
+}
+
+// Validate untrusted tool input. `true` uses the defaults; `false` or
+// nothing returns undefined.
+export function parseScroll(input: unknown): ScrollOptions | undefined {
+  if (input === undefined || input === false) return undefined;
+  if (input === true) return { maxScrolls: DEFAULT_MAX_SCROLLS, maxTimeMs: DEFAULT_SCROLL_TIME_MS };
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('Invalid scroll: must be a boolean or an object');
+  }
+
+  const raw = input as Record<string, unknown>;
+  const options: ScrollOptions = {
+    maxScrolls: optionalInteger(raw, 'maxScrolls', 'scroll', MAX_SCROLLS) ?? DEFAULT_MAX_SCROLLS,
+    maxTimeMs: optionalInteger(raw, 'maxTimeMs', 'scroll', MAX_SCROLL_TIME_MS) ?? DEFAULT_SCROLL_TIME_MS,
+  };
+  const itemSelector = optionalSelector(raw, 'itemSelector', 'scroll');
+  const maxItems = optionalInteger(raw, 'maxItems', 'scroll', Number.MAX_SAFE_INTEGER);
+  if (maxItems !== undefined && itemSelector === undefined) {
+    throw new Error('Invalid scroll: maxItems requires itemSelector');
+  }
+  if (itemSelector !== undefined) options.itemSelector = itemSelector;
+  if (maxItems !== undefined) options.maxItems = maxItems;
+  return options;
+}
+
+export function parsePagination(input: unknown): PaginationOptions | undefined {
+  if (input === undefined) return undefined;
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('Invalid pagination: must be an object');
+  }
+
+  const raw = input as Record<string, unknown>;
+  const options: PaginationOptions = {
+    maxPages: optionalInteger(raw, 'maxPages', 'pagination', MAX_PAGES) ?? DEFAULT_MAX_PAGES,
+  };
+  const nextSelector = optionalSelector(raw, 'nextSelector', 'pagination');
+  if (nextSelector !== undefined) options.nextSelector = nextSelector;
+  return options;
+}
+
+// Scroll to the bottom repeatedly, settling after each scroll, until the page
+// height and item count stop growing or a limit is reached. deadline (epoch
+// ms) ends scrolling early, like maxTimeMs, so the caller still has time to
+// capture the page before its job times out.
+export async function scrollToEnd(
+  page: any,
+  options: ScrollOptions,
+  settle: (page: any) => Promise<void>,
+  now: () => number = Date.now,
+  deadline: number = Infinity
+): Promise<ScrollResult> {
+  const start = now();
+  const measure = (): Promise<{ height: number; items: number }> =>
+    page.evaluate(
+      (selector: string | null) => ({
+        height: document.body?.scrollHeight ?? 0,
+        items: selector ? document.querySelectorAll(selector).length : 0,
+      }),
+      options.itemSelector ?? null
+    );
+
+  let last = await measure();
+  let idle = 0;
+  let scrolls = 0;
+  const result = (stoppedBy: ScrollResult['stoppedBy']): ScrollResult =>
+    options.itemSelector ? { scrolls, items: last.items, stoppedBy } : { scrolls, stoppedBy };
+
+  for (;;) {
+    if (options.maxItems !== undefined && last.items >= options.maxItems) return result('max-items');
+    if (scrolls >= options.maxScrolls) return result('max-scrolls');
+    if (now() - start >= options.maxTimeMs || now() >= deadline) return result('time');
+
+    await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+    scrolls++;
+    await settle(page);
+
+    const current = await measure();
+    const grew = current.height > last.height || current.items > last.items;
+    last = current;
+    idle = grew ? 0 : idle + 1;
+    if (idle >= IDLE_SCROLLS_TO_STOP) return result('no-new-content');
+  }
+}
+
+// Follow "next" for up to maxPages - 1 further pages. A next element with an
+// http(s) href is navigated to; one without (a button, or a javascript: link)
+// is clicked. Stops when there is no next element, a URL repeats, the page
+// stops changing, navigation fails, or deadline (epoch ms) is reached; pages
+// collected so far are kept.
+export async function followPagination(
+  page: any,
+  options: PaginationOptions,
+  settle: (page: any) => Promise<void>,
+  isAllowedUrl: (url: string) => boolean,
+  deadline: number = Infinity,
+  now: () => number = Date.now
+): Promise<PaginationResult> {
+  const pages: PaginatedPage[] = [];
+  const visited = new Set<string>([page.url()]);
+  let previousHtml = await page.content();
+
+  try {
+    while (pages.length < options.maxPages - 1) {
+      if (now() >= deadline) return { pages, stoppedBy: 'time' };
+      const next: { href: string | null } | null = await page.evaluate((selector: string | null) => {
+        const element = document.querySelector(selector ?? 'a[rel~="next"][href], link[rel~="next"][href]');
+        if (!element) return null;
+        const href = element.getAttribute('href');
+        return { href: href ? new URL(href, document.baseURI).href : null };
+      }, options.nextSelector ?? null);
+      if (!next) return { pages, stoppedBy: 'no-next' };
+
+      if (next.href && isAllowedUrl(next.href)) {
+        if (visited.has(next.href)) return { pages, stoppedBy: 'loop' };
+        // Navigation may not run past the deadline either
+        const timeout = Math.max(1, Math.min(NAVIGATION_TIMEOUT_MS, deadline - now()));
+        await page.goto(next.href, { waitUntil: 'networkidle2', timeout });
+      } else if (options.nextSelector) {
+        await Promise.all([
+          page.waitForNavigation({ waitUntil: 'networkidle2', timeout: CLICK_NAVIGATION_WAIT_MS }).catch(() => undefined),
+          page.click(options.nextSelector),
+        ]);
+      } else {
+        return { pages, stoppedBy: 'no-next' };
+      }
+      await settle(page);
+
+      const html: string = await page.content();
+      if (html === previousHtml) return { pages, stoppedBy: 'unchanged' };
+      const url: string = page.url();
+      visited.add(url);
+      pages.push({ url, html });
+      previousHtml = html;
+    }
+  } catch (error) {
+    if (now() >= deadline) return { pages, stoppedBy: 'time' };
+    return { pages, stoppedBy: 'error', error: error instanceof Error ? error.message : String(error) };
+  }
+  return { pages, stoppedBy: 'max-pages' };
+}
+
+// Concatenate per-page Markdown or text, marking where each later page starts.
+export function joinPages(parts: { url: string; text: string }[], format: 'markdown' | 'text'): string {
+  return parts
+    .map(({ url, text }, index) => {
+      if (index === 0) return text;
+      const separator = format === 'markdown' ? `---\n\n<!-- Page ${index + 1}: ${url} -->` : `--- Page ${index + 1}: ${url} ---`;
+      return `${separator}\n\n${text}`;
+    })
+    .join('\n\n');
+}
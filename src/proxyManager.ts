@@ -0,0 +1,243 @@
+// Health-aware proxy selection.
+//
+// Proxies are handed out round-robin, but each one keeps a success/failure
+// record: a failing proxy is put into exponential cooldown and skipped until
+// it expires, so one dead port in a range no longer fails every Nth request.
+// A target domain can also be pinned to the proxy that last served it, so a
+// multi-request session (crawls, retries after success, pagination) keeps one
+// exit IP for as long as the session stays active. Proxies tagged with an
+// exit country (#country=XX) can be requested by country.
+
+import { parseProxyEndpoint } from './utils.js';
+
+export interface ProxyManagerOptions {
+  // Cooldown after the first consecutive failure; doubles with each further one.
+  cooldownBaseMs: number;
+  // Upper bound on a single cooldown.
+  cooldownMaxMs: number;
+  // How long a domain stays pinned to its proxy after last use (0 disables).
+  stickySessionMs: number;
+  now?: () => number;
+}
+
+export interface ProxyHealth {
+  proxy: string;
+  country?: string;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  coolingDown: boolean;
+  cooldownUntil?: string;
+  lastError?: string;
+}
+
+// Aggregate counts only, safe to show without authentication
+export interface ProxyHealthSummary {
+  total: number;
+  available: number;
+  coolingDown: number;
+  stickySessions: number;
+}
+
+export interface ProxyHealthReport extends ProxyHealthSummary {
+  proxies: ProxyHealth[];
+}
+
+interface ProxyState {
+  url: string;
+  country?: string;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  cooldownUntil: number;
+  lastError?: string;
+}
+
+interface StickySession {
+  proxy: string;
+  expiresAt: number;
+}
+
+// Hostname used as the stickiness key, or undefined for non-URL targets.
+function domainOf(target: string | undefined): string | undefined {
+  if (!target) return undefined;
+  try {
+    return new URL(target).hostname.toLowerCase() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Exit country tag of a proxy URL, if any.
+function countryOf(proxyUrl: string): string | undefined {
+  try {
+    return parseProxyEndpoint(proxyUrl).country;
+  } catch {
+    return undefined;
+  }
+}
+
+// Proxy URL safe to show in logs and /health (inline credentials removed).
+export function redactProxyUrl(proxyUrl: string): string {
+  try {
+    const parsed = new URL(proxyUrl);
+    if (!parsed.username && !parsed.password) return proxyUrl;
+    parsed.username = '';
+    parsed.password = '';
+    return parsed.href.replace(/\/$/, '');
+  } catch {
+    return proxyUrl;
+  }
+}
+
+// A proxy the current engine cannot use at all (e.g. Chrome with an
+// authenticated SOCKS proxy). The message starts with the typed code, e.g.
+// "proxy-unsupported: Chrome does not support authenticated SOCKS proxies".
+// It says nothing about the proxy's health, so it is not reported.
+export class UnsupportedProxyError extends Error {
+  constructor(reason: string) {
+    super(`proxy-unsupported: ${reason}`);
+    this.name = 'UnsupportedProxyError';
+  }
+}
+
+export class ProxyManager {
+  private readonly states: ProxyState[];
+  private readonly sticky = new Map<string, StickySession>();
+  private readonly now: () => number;
+  private nextIndex = 0;
+  // When expired sticky sessions were last swept
+  private lastPruned = 0;
+
+  constructor(proxies: string[], private readonly options: ProxyManagerOptions) {
+    this.states = [...new Set(proxies)].map((url) => ({
+      url,
+      country: countryOf(url),
+      successes: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      cooldownUntil: 0,
+    }));
+    this.now = options.now ?? Date.now;
+  }
+
+  get size(): number {
+    return this.states.length;
+  }
+
+  // Pick a proxy for a request to `targetUrl`. Prefers the domain's sticky
+  // proxy, then the next healthy one in rotation. When every proxy is cooling
+  // down, the one closest to recovery is used rather than none at all. With a
+  // `country`, only proxies tagged with it are considered, if there are any.
+  acquire(targetUrl?: string, country?: string): string | undefined {
+    if (this.states.length === 0) return undefined;
+
+    const now = this.now();
+    this.pruneSticky(now);
+    const domain = domainOf(targetUrl);
+    const tagged = country ? this.states.filter((state) => state.country === country.toUpperCase()) : [];
+    const candidates = tagged.length > 0 ? tagged : this.states;
+
+    if (domain && this.options.stickySessionMs > 0) {
+      const session = this.sticky.get(domain);
+      const state = session && this.find(session.proxy);
+      if (session && state && candidates.includes(state) && session.expiresAt > now && state.cooldownUntil <= now) {
+        session.expiresAt = now + this.options.stickySessionMs;
+        return state.url;
+      }
+      this.sticky.delete(domain);
+    }
+
+    let chosen: ProxyState | undefined;
+    for (let i = 0; i < this.states.length; i++) {
+      const state = this.states[(this.nextIndex + i) % this.states.length];
+      if (candidates.includes(state) && state.cooldownUntil <= now) {
+        chosen = state;
+        this.nextIndex = (this.nextIndex + i + 1) % this.states.length;
+        break;
+      }
+    }
+    if (!chosen) {
+      chosen = candidates.reduce((a, b) => (b.cooldownUntil < a.cooldownUntil ? b : a));
+    }
+
+    if (domain && this.options.stickySessionMs > 0) {
+      this.sticky.set(domain, { proxy: chosen.url, expiresAt: now + this.options.stickySessionMs });
+    }
+    return chosen.url;
+  }
+
+  reportSuccess(proxyUrl: string): void {
+    const state = this.find(proxyUrl);
+    if (!state) return;
+    state.successes++;
+    state.consecutiveFailures = 0;
+    state.cooldownUntil = 0;
+  }
+
+  // Record a failure and cool the proxy down for base × 2^(n-1), where n is
+  // its run of consecutive failures. Sticky sessions on it are released.
+  reportFailure(proxyUrl: string, reason?: string): void {
+    const state = this.find(proxyUrl);
+    if (!state) return;
+    state.failures++;
+    state.consecutiveFailures++;
+    state.lastError = reason;
+    const cooldown = Math.min(
+      this.options.cooldownMaxMs,
+      this.options.cooldownBaseMs * Math.pow(2, state.consecutiveFailures - 1)
+    );
+    state.cooldownUntil = this.now() + cooldown;
+
+    for (const [domain, session] of this.sticky) {
+      if (session.proxy === state.url) this.sticky.delete(domain);
+    }
+  }
+
+  health(): ProxyHealthReport {
+    const now = this.now();
+    this.pruneSticky(now, true);
+
+    const proxies = this.states.map((state): ProxyHealth => {
+      const coolingDown = state.cooldownUntil > now;
+      return {
+        proxy: redactProxyUrl(state.url),
+        ...(state.country ? { country: state.country } : {}),
+        successes: state.successes,
+        failures: state.failures,
+        consecutiveFailures: state.consecutiveFailures,
+        coolingDown,
+        ...(coolingDown ? { cooldownUntil: new Date(state.cooldownUntil).toISOString() } : {}),
+        ...(state.lastError ? { lastError: state.lastError } : {}),
+      };
+    });
+    const coolingDown = proxies.filter((p) => p.coolingDown).length;
+
+    return {
+      total: proxies.length,
+      available: proxies.length - coolingDown,
+      coolingDown,
+      stickySessions: this.sticky.size,
+      proxies,
+    };
+  }
+
+  summary(): ProxyHealthSummary {
+    const { proxies: _proxies, ...summary } = this.health();
+    return summary;
+  }
+
+  // Drop expired sticky sessions, so the map does not grow with every domain
+  // ever scraped. Sweeps at most once per stickySessionMs unless forced.
+  private pruneSticky(now: number, force = false): void {
+    if (!force && now - this.lastPruned < this.options.stickySessionMs) return;
+    this.lastPruned = now;
+    for (const [domain, session] of this.sticky) {
+      if (session.expiresAt <= now) this.sticky.delete(domain);
+    }
+  }
+
+  private find(proxyUrl: string): ProxyState | undefined {
+    return this.states.find((state) => state.url === proxyUrl);
+  }
+}
@@ -0,0 +1,217 @@
+// Per-client admission control for tool calls on the HTTP transport: requests
+// per minute, concurrent calls, and daily budgets of scraped pages and LLM
+// tokens. A client is the API key it authenticated with, a configured client
+// header, or else its MCP session. Counters live in a RateLimitStore, in
+// memory by default; a shared store (e.g. Redis) can be plugged in to
+// enforce limits across replicas.
+
+// JSON-RPC error code of a refused call, next to the -32000 server error
+// range ("429")
+export const RATE_LIMITED_ERROR_CODE = -32029;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// Concurrency slots are counters too; they expire in case a release is lost
+// (e.g. a replica dies mid-call)
+const CONCURRENCY_TTL_MS = 60 * MINUTE_MS;
+// Suggested wait when every concurrency slot is taken
+const CONCURRENCY_RETRY_AFTER_SECONDS = 5;
+
+export type RateLimitKind = 'requests' | 'concurrency' | 'pages' | 'llm-tokens';
+
+const LIMIT_UNITS: Record<RateLimitKind, string> = {
+  requests: 'tool calls per minute',
+  concurrency: 'concurrent tool calls',
+  pages: 'pages per day',
+  'llm-tokens': 'LLM tokens per day',
+};
+
+// A call refused by a limit. The message starts with the typed code, e.g.
+// "rate-limited:requests (limit of 30 tool calls per minute reached; retry after 12s)".
+export class RateLimitError extends Error {
+  readonly kind: RateLimitKind;
+  readonly limit: number;
+  readonly retryAfterSeconds: number;
+
+  constructor(kind: RateLimitKind, limit: number, retryAfterSeconds: number) {
+    super(`rate-limited:${kind} (limit of ${limit} ${LIMIT_UNITS[kind]} reached; retry after ${retryAfterSeconds}s)`);
+    this.name = 'RateLimitError';
+    this.kind = kind;
+    this.limit = limit;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export interface RateLimitConfig {
+  // 0 disables a limit
+  requestsPerMinute: number;
+  maxConcurrent: number;
+  dailyPages: number;
+  dailyLlmTokens: number;
+  // Request header naming the client, for deployments without API keys
+  clientHeader?: string;
+}
+
+function limitFromEnv(value: string | undefined, name: string): number {
+  if (value === undefined || value.trim() === '') return 0;
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 0) {
+    throw new Error(`Invalid ${name} "${value}": must be a whole number (0 for no limit)`);
+  }
+  return limit;
+}
+
+// Read the RATE_LIMIT_* env vars. Throws on malformed numbers.
+export function parseRateLimitConfig(env: Record<string, string | undefined>): RateLimitConfig {
+  return {
+    requestsPerMinute: limitFromEnv(env.RATE_LIMIT_REQUESTS_PER_MINUTE, 'RATE_LIMIT_REQUESTS_PER_MINUTE'),
+    maxConcurrent: limitFromEnv(env.RATE_LIMIT_MAX_CONCURRENT, 'RATE_LIMIT_MAX_CONCURRENT'),
+    dailyPages: limitFromEnv(env.RATE_LIMIT_DAILY_PAGES, 'RATE_LIMIT_DAILY_PAGES'),
+    dailyLlmTokens: limitFromEnv(env.RATE_LIMIT_DAILY_LLM_TOKENS, 'RATE_LIMIT_DAILY_LLM_TOKENS'),
+    clientHeader: env.RATE_LIMIT_CLIENT_HEADER?.trim().toLowerCase() || undefined,
+  };
+}
+
+// Counter storage. Implementations must make add() atomic, since concurrent
+// calls race on the same counters.
+export interface RateLimitStore {
+  // Add delta (possibly negative) to the counter and return the new value.
+  // A counter that does not exist or has expired starts at 0; expiresAt
+  // (epoch ms) replaces the counter's expiry.
+  add(key: string, delta: number, expiresAt: number): Promise<number>;
+  // Current value, 0 when missing or expired.
+  get(key: string): Promise<number>;
+}
+
+// Expired counters are swept once the map grows past this
+const MAX_MEMORY_COUNTERS = 10000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly counters = new Map<string, { value: number; expiresAt: number }>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  // Reads and writes the map in one synchronous step, so concurrent calls
+  // cannot interleave between the read and the write
+  async add(key: string, delta: number, expiresAt: number): Promise<number> {
+    if (this.counters.size >= MAX_MEMORY_COUNTERS) this.sweep();
+    const value = this.current(key) + delta;
+    this.counters.set(key, { value, expiresAt });
+    return value;
+  }
+
+  async get(key: string): Promise<number> {
+    return this.current(key);
+  }
+
+  private current(key: string): number {
+    const counter = this.counters.get(key);
+    return counter && counter.expiresAt > this.now() ? counter.value : 0;
+  }
+
+  private sweep(): void {
+    const now = this.now();
+    for (const [key, counter] of this.counters) {
+      if (counter.expiresAt <= now) this.counters.delete(key);
+    }
+  }
+}
+
+// Which daily budgets a tool draws on, so calls are refused up front once
+// they are spent
+export interface ToolBudgets {
+  pages?: boolean;
+  llmTokens?: boolean;
+}
+
+export class RateLimiter {
+  constructor(
+    private readonly config: RateLimitConfig,
+    private readonly store: RateLimitStore = new MemoryRateLimitStore(),
+    private readonly now: () => number = Date.now
+  ) {}
+
+  get enabled(): boolean {
+    const { requestsPerMinute, maxConcurrent, dailyPages, dailyLlmTokens } = this.config;
+    return requestsPerMinute > 0 || maxConcurrent > 0 || dailyPages > 0 || dailyLlmTokens > 0;
+  }
+
+  // Admit one tool call, or throw RateLimitError. Refused calls count
+  // against no limit. The returned function frees the concurrency slot and
+  // must be called when the call ends.
+  async admit(client: string, budgets: ToolBudgets = {}): Promise<() => Promise<void>> {
+    const now = this.now();
+    const { requestsPerMinute, maxConcurrent, dailyPages, dailyLlmTokens } = this.config;
+
+    if (budgets.pages && dailyPages > 0 && (await this.store.get(this.dailyKey('pages', client, now))) >= dailyPages) {
+      throw new RateLimitError('pages', dailyPages, this.secondsUntilTomorrow(now));
+    }
+    if (
+      budgets.llmTokens &&
+      dailyLlmTokens > 0 &&
+      (await this.store.get(this.dailyKey('llm-tokens', client, now))) >= dailyLlmTokens
+    ) {
+      throw new RateLimitError('llm-tokens', dailyLlmTokens, this.secondsUntilTomorrow(now));
+    }
+
+    const concurrencyKey = `concurrency:${client}`;
+    if (maxConcurrent > 0) {
+      const running = await this.store.add(concurrencyKey, 1, now + CONCURRENCY_TTL_MS);
+      if (running > maxConcurrent) {
+        await this.store.add(concurrencyKey, -1, now + CONCURRENCY_TTL_MS);
+        throw new RateLimitError('concurrency', maxConcurrent, CONCURRENCY_RETRY_AFTER_SECONDS);
+      }
+    }
+    const release = async () => {
+      if (maxConcurrent > 0) await this.store.add(concurrencyKey, -1, this.now() + CONCURRENCY_TTL_MS);
+    };
+
+    if (requestsPerMinute > 0) {
+      // Fixed one-minute windows
+      const windowStart = now - (now % MINUTE_MS);
+      const key = `requests:${client}:${windowStart}`;
+      const count = await this.store.add(key, 1, windowStart + MINUTE_MS);
+      if (count > requestsPerMinute) {
+        await this.store.add(key, -1, windowStart + MINUTE_MS);
+        await release();
+        throw new RateLimitError('requests', requestsPerMinute, Math.ceil((windowStart + MINUTE_MS - now) / 1000));
+      }
+    }
+    return release;
+  }
+
+  // Count pages a call is about to load, throwing RateLimitError (and
+  // counting nothing) when they would exceed the daily page budget.
+  async consumePages(client: string, pages = 1): Promise<void> {
+    const { dailyPages } = this.config;
+    if (dailyPages <= 0) return;
+    const now = this.now();
+    const key = this.dailyKey('pages', client, now);
+    const used = await this.store.add(key, pages, this.endOfDay(now));
+    if (used > dailyPages) {
+      await this.store.add(key, -pages, this.endOfDay(now));
+      throw new RateLimitError('pages', dailyPages, this.secondsUntilTomorrow(now));
+    }
+  }
+
+  // Count LLM tokens a call has spent. They are always counted, since the
+  // provider has already billed them; the budget refuses the next call.
+  async recordLlmTokens(client: string, tokens: number): Promise<void> {
+    if (this.config.dailyLlmTokens <= 0 || !(tokens > 0)) return;
+    const now = this.now();
+    await this.store.add(this.dailyKey('llm-tokens', client, now), tokens, this.endOfDay(now));
+  }
+
+  // Daily budgets reset at midnight UTC
+  private dailyKey(kind: 'pages' | 'llm-tokens', client: string, now: number): string {
+    return `${kind}:${client}:${Math.floor(now / DAY_MS)}`;
+  }
+
+  private endOfDay(now: number): number {
+    return (Math.floor(now / DAY_MS) + 1) * DAY_MS;
+  }
+
+  private secondsUntilTomorrow(now: number): number {
+    return Math.ceil((this.endOfDay(now) - now) / 1000);
+  }
+}
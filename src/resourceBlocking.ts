@@ -0,0 +1,225 @@
+// Request interception for browser scrapes. Only the rendered HTML is kept, so
+// images, media, fonts and ad/analytics requests are wasted bandwidth and
+// time; the `blockResources` tool parameter (or SCRAPE_BLOCK_RESOURCES)
+// aborts them by resource type and by domain. The main document, scripts and
+// XHR/fetch are never blocked by type, since pages need them to render.
+// The same interception runs the request check (domain policy and egress
+// guard, see domainPolicy.ts and egressGuard.ts) on every request that is not
+// blocked.
+
+export type BlockableResourceType = 'image' | 'media' | 'font' | 'stylesheet';
+
+export const BLOCKABLE_RESOURCE_TYPES: BlockableResourceType[] = ['image', 'media', 'font', 'stylesheet'];
+
+export type BlockResourcesPreset = 'none' | 'trackers' | 'media' | 'all';
+
+export interface ResourceBlocking {
+  types: BlockableResourceType[];
+  // Block the built-in ad and analytics domains
+  trackers: boolean;
+  // Further domains to block (subdomains included)
+  domains: string[];
+}
+
+export const BLOCK_RESOURCES_PRESETS: Record<BlockResourcesPreset, ResourceBlocking> = {
+  none: { types: [], trackers: false, domains: [] },
+  trackers: { types: [], trackers: true, domains: [] },
+  media: { types: ['image', 'media', 'font'], trackers: true, domains: [] },
+  all: { types: ['image', 'media', 'font', 'stylesheet'], trackers: true, domains: [] },
+};
+
+// Common ad, tag-manager and analytics hosts. Matched against the request
+// hostname and its parent domains.
+export const TRACKER_DOMAINS = [
+  'doubleclick.net',
+  'googlesyndication.com',
+  'googleadservices.com',
+  'google-analytics.com',
+  'googletagmanager.com',
+  'googletagservices.com',
+  'adservice.google.com',
+  'connect.facebook.net',
+  'analytics.tiktok.com',
+  'ads.linkedin.com',
+  'snap.licdn.com',
+  'static.ads-twitter.com',
+  'amazon-adsystem.com',
+  'adnxs.com',
+  'criteo.com',
+  'criteo.net',
+  'taboola.com',
+  'outbrain.com',
+  'scorecardresearch.com',
+  'quantserve.com',
+  'hotjar.com',
+  'clarity.ms',
+  'fullstory.com',
+  'mixpanel.com',
+  'segment.io',
+  'cdn.segment.com',
+  'amplitude.com',
+  'nr-data.net',
+  'bat.bing.com',
+];
+
+// JSON schema fragment for the tools' `blockResources` parameter.
+export const BLOCK_RESOURCES_SCHEMA = {
+  oneOf: [
+    {
+      type: 'string',
+      enum: Object.keys(BLOCK_RESOURCES_PRESETS),
+      description:
+        'Requests to block while the page loads: "none", "trackers" (ads and analytics), ' +
+        '"media" (trackers plus images, video/audio and fonts) or "all" (media plus stylesheets)',
+    },
+    {
+      type: 'object',
+      description: 'Custom blocking',
+      properties: {
+        types: { type: 'array', items: { type: 'string', enum: BLOCKABLE_RESOURCE_TYPES } },
+        trackers: { type: 'boolean', description: 'Block common ad and analytics domains' },
+        domains: { type: 'array', items: { type: 'string' }, description: 'Extra domains to block, e.g. "cdn.example.com"' },
+      },
+    },
+  ],
+};
+
+function isPreset(value: unknown): value is BlockResourcesPreset {
+  return typeof value === 'string' && (Object.keys(BLOCK_RESOURCES_PRESETS) as string[]).includes(value);
+}
+
+function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^\*?\./, '');
+}
+
+function parseDomains(input: unknown): string[] {
+  if (!Array.isArray(input) || !input.every((domain) => typeof domain === 'string' && domain.trim())) {
+    throw new Error('Invalid blockResources: domains must be an array of domain names');
+  }
+  return input.map(normalizeDomain);
+}
+
+// Validate untrusted tool input: a preset name or a custom object. Returns
+// undefined when nothing was given.
+export function parseBlockResources(input: unknown): ResourceBlocking | undefined {
+  if (input === undefined) return undefined;
+  if (isPreset(input)) return BLOCK_RESOURCES_PRESETS[input];
+  if (typeof input === 'string') {
+    throw new Error(
+      `Unknown blockResources preset "${input}": must be one of ${Object.keys(BLOCK_RESOURCES_PRESETS).join(', ')}`
+    );
+  }
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('Invalid blockResources: must be a preset name or an object');
+  }
+
+  const { types = [], trackers = false, domains = [] } = input as Record<string, unknown>;
+  if (!Array.isArray(types) || !types.every((type) => (BLOCKABLE_RESOURCE_TYPES as unknown[]).includes(type))) {
+    throw new Error(`Invalid blockResources: types must be drawn from ${BLOCKABLE_RESOURCE_TYPES.join(', ')}`);
+  }
+  if (typeof trackers !== 'boolean') {
+    throw new Error('Invalid blockResources: trackers must be a boolean');
+  }
+  return { types: [...new Set(types as BlockableResourceType[])], trackers, domains: parseDomains(domains) };
+}
+
+// Parse the SCRAPE_BLOCK_RESOURCES preset and SCRAPE_BLOCK_DOMAINS list into
+// the default blocking for page scrapes. Unknown presets fall back to "none".
+export function parseBlockResourcesConfig(preset: string | undefined, domains: string | undefined): ResourceBlocking {
+  const name = preset?.trim();
+  const base = isPreset(name) ? BLOCK_RESOURCES_PRESETS[name] : BLOCK_RESOURCES_PRESETS.none;
+  const extra = (domains ?? '').split(',').map(normalizeDomain).filter(Boolean);
+  return { ...base, domains: [...base.domains, ...extra] };
+}
+
+export function isBlockingEnabled(blocking: ResourceBlocking | undefined): blocking is ResourceBlocking {
+  return !!blocking && (blocking.types.length > 0 || blocking.trackers || blocking.domains.length > 0);
+}
+
+function matchesDomain(hostname: string, domains: string[]): boolean {
+  return domains.some((domain) => hostname === domain || hostname.endsWith(`.${domain}`));
+}
+
+// What shouldBlockRequest looks at for one intercepted request.
+export interface InterceptedRequestInfo {
+  url: string;
+  resourceType: string;
+  // The top-level page navigation, which is never blocked
+  isMainDocument: boolean;
+}
+
+export function shouldBlockRequest(blocking: ResourceBlocking, request: InterceptedRequestInfo): boolean {
+  if (request.isMainDocument) return false;
+  if ((blocking.types as string[]).includes(request.resourceType)) return true;
+
+  let hostname: string;
+  try {
+    hostname = new URL(request.url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  return (
+    matchesDomain(hostname, blocking.domains) ||
+    (blocking.trackers && matchesDomain(hostname, TRACKER_DOMAINS))
+  );
+}
+
+// The puppeteer HTTPRequest/Page methods enableResourceBlocking needs.
+export interface InterceptableRequest {
+  url(): string;
+  resourceType(): string;
+  isNavigationRequest(): boolean;
+  frame(): unknown;
+  abort(errorCode?: string): Promise<void>;
+  continue(): Promise<void>;
+}
+
+export interface InterceptablePage {
+  setRequestInterception(enabled: boolean): Promise<void>;
+  on(event: 'request', handler: (request: InterceptableRequest) => void): unknown;
+  mainFrame(): unknown;
+}
+
+export interface ResourceBlockingStats {
+  blocked: number;
+  // Why the request check refused a main document request (the navigation or
+  // one of its redirects), which otherwise surfaces as net::ERR_ACCESS_DENIED
+  navigationError?: Error;
+}
+
+// Rejects when a request's URL must not be contacted. isMainDocument tells
+// page navigations apart from the subresources a page loads.
+export type RequestCheck = (url: string, isMainDocument: boolean) => Promise<void>;
+
+// Turn on request interception and abort matching requests, and those the
+// request check refuses. The returned stats object keeps counting for the life
+// of the page.
+export async function enableResourceBlocking(
+  page: InterceptablePage,
+  blocking: ResourceBlocking,
+  checkRequest?: RequestCheck
+): Promise<ResourceBlockingStats> {
+  const stats: ResourceBlockingStats = { blocked: 0 };
+  await page.setRequestInterception(true);
+  page.on('request', (request) => {
+    const url = request.url();
+    const isMainDocument = request.isNavigationRequest() && request.frame() === page.mainFrame();
+    const block = shouldBlockRequest(blocking, { url, resourceType: request.resourceType(), isMainDocument });
+    // Either call rejects if the page closed meanwhile; nothing to do then
+    if (block) {
+      stats.blocked++;
+      request.abort('blockedbyclient').catch(() => {});
+    } else if (!checkRequest) {
+      request.continue().catch(() => {});
+    } else {
+      checkRequest(url, isMainDocument).then(
+        () => request.continue().catch(() => {}),
+        (error: Error) => {
+          if (isMainDocument) stats.navigationError ??= error;
+          request.abort('accessdenied').catch(() => {});
+        }
+      );
+    }
+  });
+  return stats;
+}
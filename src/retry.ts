@@ -0,0 +1,203 @@
+// Shared retry engine: classifies failures as retryable or not and retries
+// with jittered exponential backoff driven by CONFIG.retry (the
+// FIRECRAWL_RETRY_* env vars). Used for browser navigation and LLM API calls.
+
+export interface RetryConfig {
+  maxAttempts: number;
+  initialDelay: number;
+  maxDelay: number;
+  backoffFactor: number;
+}
+
+export interface ErrorClassification {
+  retryable: boolean;
+  reason: string;
+  // Server-requested wait before the next attempt (from Retry-After).
+  retryAfterMs?: number;
+}
+
+// A response whose HTTP status made the attempt fail (e.g. under the scrape
+// HTTP error policy). Carries Retry-After so backoff can honor it.
+export class HttpStatusError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly retryAfter?: string
+  ) {
+    super(message);
+    this.name = 'HttpStatusError';
+  }
+}
+
+// Node/axios error codes for transient network failures.
+const RETRYABLE_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'ERR_SOCKET_CONNECTION_TIMEOUT',
+]);
+
+// Error messages that mean the attempt can never succeed as-is.
+const PERMANENT_MESSAGES = [
+  /invalid url/i,
+  /only http and https/i,
+  /net::ERR_NAME_NOT_RESOLVED/,
+  /ENOTFOUND/,
+  /net::ERR_INVALID_URL/,
+  /net::ERR_UNSAFE_PORT/,
+  /net::ERR_ABORTED/,
+  /unsupported content type/i,
+  /require the "browser" or "auto" engine/i,
+  // Targets refused by the egress guard or domain policy (see egressGuard.ts
+  // and domainPolicy.ts)
+  /^egress-blocked:/,
+  /^domain-policy:/,
+  /net::ERR_ACCESS_DENIED/,
+  // Browser jobs the job queue refused, timed out or cancelled (see jobQueue.ts)
+  /^queue-full \(/,
+  /^job-timeout \(/,
+  /^job-cancelled \(/,
+  // A proxy the engine cannot use (see proxyManager.ts)
+  /^proxy-unsupported:/,
+];
+
+// Transient failures reported only through the message (puppeteer errors are
+// plain Errors, and scrape results carry their error as a string).
+const TRANSIENT_MESSAGES = [
+  /timeout/i,
+  /timed out/i,
+  /net::ERR_(PROXY|TUNNEL|CONNECTION|SOCKET|TIMED_OUT|EMPTY_RESPONSE|NETWORK|INTERNET_DISCONNECTED|HTTP2|SSL_PROTOCOL)/,
+  /socket hang up/i,
+  /target closed/i,
+  /session closed/i,
+  /browser has disconnected/i,
+  /page crashed/i,
+  // Bot walls (see blockDetection.ts): another proxy and fingerprint may get through
+  /^blocked:/,
+];
+
+// Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds.
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+// Retryability of an HTTP status: 408/425/429 and 5xx are transient; other
+// 4xx (400 bad request, 401 auth, 404, ...) will fail the same way again.
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 425 || status === 429 || status >= 500;
+}
+
+function headerValue(headers: unknown, name: string): string | undefined {
+  if (!headers || typeof headers !== 'object') return undefined;
+  const getter = (headers as { get?: (key: string) => unknown }).get;
+  const value =
+    typeof getter === 'function'
+      ? getter.call(headers, name)
+      : (headers as Record<string, unknown>)[name] ?? (headers as Record<string, unknown>)[name.toLowerCase()];
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+// Decide whether an error is worth retrying. Understands HttpStatusError,
+// axios-style errors (response.status / code) and plain error messages.
+// Unknown failures default to retryable: a fresh attempt goes through the
+// next proxy and user agent, which is often enough.
+export function classifyError(error: unknown): ErrorClassification {
+  const err = error as {
+    status?: number;
+    retryAfter?: string;
+    code?: string;
+    message?: string;
+    response?: { status?: number; headers?: unknown };
+  };
+
+  const status = error instanceof HttpStatusError ? error.status : err?.response?.status;
+  if (typeof status === 'number') {
+    const retryAfter =
+      error instanceof HttpStatusError ? error.retryAfter : headerValue(err.response?.headers, 'retry-after');
+    return {
+      retryable: isRetryableStatus(status),
+      reason: `HTTP ${status}`,
+      retryAfterMs: parseRetryAfter(retryAfter),
+    };
+  }
+
+  if (err?.code && RETRYABLE_CODES.has(err.code)) {
+    return { retryable: true, reason: err.code };
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (PERMANENT_MESSAGES.some((pattern) => pattern.test(message))) {
+    return { retryable: false, reason: message };
+  }
+  if (TRANSIENT_MESSAGES.some((pattern) => pattern.test(message))) {
+    return { retryable: true, reason: message };
+  }
+  return { retryable: true, reason: message };
+}
+
+// Delay before retry number `attempt` (1 = first retry): exponential growth
+// capped at maxDelay, with "equal jitter" (between half and all of it) so
+// concurrent callers don't retry in lockstep.
+export function computeBackoffDelay(
+  attempt: number,
+  config: RetryConfig,
+  random: () => number = Math.random
+): number {
+  const exponential = config.initialDelay * Math.pow(config.backoffFactor, Math.max(0, attempt - 1));
+  const capped = Math.min(config.maxDelay, exponential);
+  return Math.round(capped / 2 + random() * (capped / 2));
+}
+
+export interface RetryOptions {
+  classify?: (error: unknown) => ErrorClassification;
+  onRetry?: (info: { attempt: number; delayMs: number; classification: ErrorClassification }) => void;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+// Run `operation` until it succeeds, fails with a non-retryable error, or
+// maxAttempts is reached. Always rethrows the original error of the last
+// attempt so callers keep their existing error handling. A Retry-After longer
+// than maxDelay ends retrying rather than stalling the request.
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  config: RetryConfig,
+  options: RetryOptions = {}
+): Promise<T> {
+  const classify = options.classify ?? classifyError;
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+  const maxAttempts = Math.max(1, Math.floor(config.maxAttempts));
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      const classification = classify(error);
+      if (!classification.retryable || attempt >= maxAttempts) {
+        throw error;
+      }
+      if (classification.retryAfterMs !== undefined && classification.retryAfterMs > config.maxDelay) {
+        throw error;
+      }
+
+      const delayMs = Math.max(
+        computeBackoffDelay(attempt, config, options.random),
+        classification.retryAfterMs ?? 0
+      );
+      options.onRetry?.({ attempt, delayMs, classification });
+      await sleep(delayMs);
+    }
+  }
+}
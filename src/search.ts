@@ -0,0 +1,353 @@
+// Web search for the `web_search` and `search_and_scrape` tools and for
+// `enableWebSearch` extraction.
+// Providers sit behind one interface: a SearxNG instance's JSON API, or any
+// HTML results page described by a URL template and CSS selectors (DuckDuckGo's
+// HTML endpoint by default). Network access is injected by the caller.
+
+import { load } from 'cheerio/slim';
+
+import { isValidUrl } from './utils.js';
+import { normalizeUrl } from './crawler.js';
+
+export interface SearchResult {
+  title: string;
+  url: string;
+  snippet?: string;
+}
+
+export type SearchTimeRange = 'day' | 'week' | 'month' | 'year';
+
+export const SEARCH_TIME_RANGES: SearchTimeRange[] = ['day', 'week', 'month', 'year'];
+
+export interface SearchRequest {
+  query: string;
+  limit: number;
+  // Only results published within this period
+  timeRange?: SearchTimeRange;
+}
+
+export interface SearchProvider {
+  readonly name: SearchProviderName;
+  search(request: SearchRequest): Promise<SearchResult[]>;
+}
+
+export type SearchProviderName = 'searxng' | 'html';
+
+export const SEARCH_PROVIDERS: SearchProviderName[] = ['searxng', 'html'];
+
+// Fetch a results page body. Throws on network errors and non-2xx statuses.
+export type FetchText = (url: string, headers?: Record<string, string>) => Promise<string>;
+
+// Where the HTML provider finds each result on the results page.
+export interface HtmlResultSelectors {
+  // One element per organic result
+  result: string;
+  // Within a result: the title element, and the link (defaults to the title)
+  title: string;
+  link?: string;
+  snippet?: string;
+}
+
+export interface SearchConfig {
+  // Unset disables web search
+  provider?: SearchProviderName;
+  searxngUrl?: string;
+  // Results page URL with a {query} and optional {timeRange} placeholder
+  htmlUrl: string;
+  htmlSelectors: HtmlResultSelectors;
+  maxResults: number;
+  // Results scraped as extra context when enableWebSearch is set
+  scrapeResults: number;
+  // Send search requests through the scraping proxies
+  useProxy: boolean;
+}
+
+export const DEFAULT_SEARCH_LIMIT = 5;
+export const MAX_SEARCH_LIMIT = 20;
+export const DEFAULT_SEARCH_SCRAPE_RESULTS = 3;
+export const MAX_SEARCH_SCRAPE_LIMIT = 10;
+export const DEFAULT_SEARCH_HTML_URL = 'https://html.duckduckgo.com/html/?q={query}&df={timeRange}';
+export const DEFAULT_HTML_SELECTORS: HtmlResultSelectors = {
+  result: '.result:not(.result--ad)',
+  title: '.result__a',
+  snippet: '.result__snippet',
+};
+// Search engines cap query length; long extraction prompts are cut here
+const MAX_QUERY_CHARS = 200;
+// Redirect wrappers results pages put around outbound links (DuckDuckGo's
+// uddg, Google's q/url, Bing-style u)
+const REDIRECT_PARAMS = ['uddg', 'url', 'q', 'u'];
+
+// JSON schema fragments for the search tools' filter parameters.
+export const TIME_RANGE_SCHEMA = {
+  type: 'string',
+  enum: SEARCH_TIME_RANGES,
+  description: 'Only return results from the past day, week, month or year',
+};
+
+export const INCLUDE_DOMAINS_SCHEMA = {
+  type: 'array',
+  items: { type: 'string' },
+  description: 'Only return results on these domains (subdomains included), e.g. ["example.com"]',
+};
+
+export const EXCLUDE_DOMAINS_SCHEMA = {
+  type: 'array',
+  items: { type: 'string' },
+  description: 'Drop results on these domains (subdomains included)',
+};
+
+// Validate untrusted tool input for the result count.
+export function parseSearchLimit(input: unknown, fallback = DEFAULT_SEARCH_LIMIT, max = MAX_SEARCH_LIMIT): number {
+  if (input === undefined) return fallback;
+  if (typeof input !== 'number' || !Number.isInteger(input) || input < 1 || input > max) {
+    throw new Error(`Invalid limit: must be an integer between 1 and ${max}`);
+  }
+  return input;
+}
+
+export function parseTimeRange(input: unknown): SearchTimeRange | undefined {
+  if (input === undefined) return undefined;
+  if (!(SEARCH_TIME_RANGES as unknown[]).includes(input)) {
+    throw new Error(`Invalid timeRange: must be one of ${SEARCH_TIME_RANGES.join(', ')}`);
+  }
+  return input as SearchTimeRange;
+}
+
+// Validate a list of domain names, lower-cased and without a leading "*." or
+// "www.". `field` names the parameter in errors.
+export function parseDomainList(input: unknown, field: string): string[] {
+  if (input === undefined) return [];
+  if (!Array.isArray(input) || !input.every((domain) => typeof domain === 'string' && domain.trim())) {
+    throw new Error(`Invalid ${field}: must be an array of domain names`);
+  }
+  return input.map((domain: string) =>
+    domain.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/[/:].*$/, '').replace(/^(\*\.|www\.)/, '')
+  );
+}
+
+function positiveInteger(value: string | undefined, fallback: number, max: number): number {
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed > 0 ? Math.min(parsed, max) : fallback;
+}
+
+// Read the SEARCH_* environment variables. An unknown SEARCH_PROVIDER leaves
+// search disabled.
+export function parseSearchConfig(env: Record<string, string | undefined> = process.env): SearchConfig {
+  const provider = env.SEARCH_PROVIDER?.trim().toLowerCase();
+  return {
+    provider: (SEARCH_PROVIDERS as string[]).includes(provider ?? '') ? (provider as SearchProviderName) : undefined,
+    searxngUrl: env.SEARXNG_URL?.trim() || undefined,
+    htmlUrl: env.SEARCH_HTML_URL?.trim() || DEFAULT_SEARCH_HTML_URL,
+    htmlSelectors: {
+      result: env.SEARCH_HTML_RESULT_SELECTOR?.trim() || DEFAULT_HTML_SELECTORS.result,
+      title: env.SEARCH_HTML_TITLE_SELECTOR?.trim() || DEFAULT_HTML_SELECTORS.title,
+      link: env.SEARCH_HTML_LINK_SELECTOR?.trim() || undefined,
+      snippet: env.SEARCH_HTML_SNIPPET_SELECTOR?.trim() || DEFAULT_HTML_SELECTORS.snippet,
+    },
+    maxResults: positiveInteger(env.SEARCH_MAX_RESULTS, DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT),
+    scrapeResults: positiveInteger(env.SEARCH_SCRAPE_RESULTS, DEFAULT_SEARCH_SCRAPE_RESULTS, MAX_SEARCH_LIMIT),
+    useProxy: env.SEARCH_USE_PROXY === 'true',
+  };
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// Keep http(s) results, drop duplicates (after normalization) and stop at limit.
+function dedupeResults(results: SearchResult[], limit: number): SearchResult[] {
+  const seen = new Set<string>();
+  const kept: SearchResult[] = [];
+  for (const result of results) {
+    if (kept.length >= limit) break;
+    if (!isValidUrl(result.url)) continue;
+    const key = normalizeUrl(result.url) ?? result.url;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    kept.push(result);
+  }
+  return kept;
+}
+
+function onDomain(url: string, domains: string[]): boolean {
+  const hostname = new URL(url).hostname.toLowerCase();
+  return domains.some((domain) => hostname === domain || hostname.endsWith(`.${domain}`));
+}
+
+// Keep results on an included domain (all when none are given) and not on an
+// excluded one.
+export function filterResultsByDomain(
+  results: SearchResult[],
+  includeDomains: string[],
+  excludeDomains: string[]
+): SearchResult[] {
+  return results.filter(
+    (result) =>
+      (includeDomains.length === 0 || onDomain(result.url, includeDomains)) && !onDomain(result.url, excludeDomains)
+  );
+}
+
+// Narrow a query to a single included domain with the site: operator, which
+// SearxNG and the common engines understand. Several domains are left to
+// filterResultsByDomain, since engines disagree on combining site: terms.
+export function scopeQuery(query: string, includeDomains: string[]): string {
+  return includeDomains.length === 1 ? `${query} site:${includeDomains[0]}` : query;
+}
+
+// Results from a SearxNG `format=json` response.
+export function parseSearxngResults(body: string, limit: number): SearchResult[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    throw new Error('SearxNG returned invalid JSON (is the json format enabled in its settings?)');
+  }
+  const results = (data as { results?: unknown })?.results;
+  if (!Array.isArray(results)) {
+    throw new Error('SearxNG response has no results array');
+  }
+
+  return dedupeResults(
+    results
+      .filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null)
+      .filter((item) => typeof item.url === 'string')
+      .map((item) => {
+        const result: SearchResult = {
+          title: typeof item.title === 'string' ? collapseWhitespace(item.title) : '',
+          url: item.url as string,
+        };
+        if (typeof item.content === 'string' && item.content.trim()) result.snippet = collapseWhitespace(item.content);
+        return result;
+      }),
+    limit
+  );
+}
+
+// Resolve a result link against the results page, unwrapping the engine's own
+// click-tracking redirect to the target URL.
+export function resolveResultLink(href: string, pageUrl: string): string | undefined {
+  let url: URL;
+  try {
+    url = new URL(href, pageUrl);
+  } catch {
+    return undefined;
+  }
+  if (url.hostname === new URL(pageUrl).hostname || url.pathname === '/url' || url.pathname === '/l/') {
+    for (const param of REDIRECT_PARAMS) {
+      const target = url.searchParams.get(param);
+      if (target && isValidUrl(target)) return target;
+    }
+  }
+  return url.href;
+}
+
+// Results from an HTML results page.
+export function parseHtmlResults(
+  html: string,
+  pageUrl: string,
+  selectors: HtmlResultSelectors,
+  limit: number
+): SearchResult[] {
+  const $ = load(html);
+  const results: SearchResult[] = [];
+
+  $(selectors.result).each((_, element) => {
+    const item = $(element);
+    const title = item.find(selectors.title).first();
+    const link = selectors.link ? item.find(selectors.link).first() : title;
+    const href = link.attr('href') ?? link.find('a[href]').first().attr('href');
+    const url = href ? resolveResultLink(href, pageUrl) : undefined;
+    if (!url) return;
+
+    const result: SearchResult = { title: collapseWhitespace(title.text()), url };
+    const snippet = selectors.snippet ? collapseWhitespace(item.find(selectors.snippet).first().text()) : '';
+    if (snippet) result.snippet = snippet;
+    results.push(result);
+  });
+
+  return dedupeResults(results, limit);
+}
+
+export class SearxngSearchProvider implements SearchProvider {
+  readonly name = 'searxng';
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly fetchText: FetchText
+  ) {}
+
+  async search({ query, limit, timeRange }: SearchRequest): Promise<SearchResult[]> {
+    const url = new URL('search', this.baseUrl.endsWith('/') ? this.baseUrl : `${this.baseUrl}/`);
+    url.searchParams.set('q', query);
+    url.searchParams.set('format', 'json');
+    if (timeRange) url.searchParams.set('time_range', timeRange);
+    const body = await this.fetchText(url.href, { Accept: 'application/json' });
+    return parseSearxngResults(body, limit);
+  }
+}
+
+export class HtmlSearchProvider implements SearchProvider {
+  readonly name = 'html';
+
+  constructor(
+    private readonly urlTemplate: string,
+    private readonly selectors: HtmlResultSelectors,
+    private readonly fetchText: FetchText
+  ) {}
+
+  // {timeRange} becomes d, w, m or y (DuckDuckGo's df and Google's qdr values)
+  async search({ query, limit, timeRange }: SearchRequest): Promise<SearchResult[]> {
+    if (timeRange && !this.urlTemplate.includes('{timeRange}')) {
+      throw new Error('timeRange is not supported: SEARCH_HTML_URL has no {timeRange} placeholder');
+    }
+    const url = this.urlTemplate
+      .replace('{query}', encodeURIComponent(query))
+      .replace('{timeRange}', timeRange ? timeRange[0] : '');
+    const body = await this.fetchText(url, { Accept: 'text/html' });
+    return parseHtmlResults(body, url, this.selectors, limit);
+  }
+}
+
+// The provider SEARCH_PROVIDER selects, or undefined when search is disabled.
+// Throws on incomplete configuration.
+export function createSearchProvider(config: SearchConfig, fetchText: FetchText): SearchProvider | undefined {
+  switch (config.provider) {
+    case 'searxng':
+      if (!config.searxngUrl || !isValidUrl(config.searxngUrl)) {
+        throw new Error('SEARCH_PROVIDER=searxng requires SEARXNG_URL to be an http(s) URL');
+      }
+      return new SearxngSearchProvider(config.searxngUrl, fetchText);
+    case 'html':
+      if (!config.htmlUrl.includes('{query}') || !isValidUrl(config.htmlUrl.replace('{query}', 'test').replace('{timeRange}', ''))) {
+        throw new Error('SEARCH_HTML_URL must be an http(s) URL containing a {query} placeholder');
+      }
+      return new HtmlSearchProvider(config.htmlUrl, config.htmlSelectors, fetchText);
+    default:
+      return undefined;
+  }
+}
+
+// A search query for an extraction prompt: whitespace collapsed and cut at a
+// word boundary to what search engines accept.
+export function searchQueryFromPrompt(prompt: string): string {
+  const query = collapseWhitespace(prompt);
+  if (query.length <= MAX_QUERY_CHARS) return query;
+  const cut = query.slice(0, MAX_QUERY_CHARS);
+  const lastSpace = cut.lastIndexOf(' ');
+  return lastSpace > 0 ? cut.slice(0, lastSpace) : cut;
+}
+
+// A scraped search result used as extraction context.
+export interface SearchContextPage {
+  url: string;
+  title: string;
+  content: string;
+}
+
+// The "Web Search Results" prompt section, each page's content size-capped.
+export function formatSearchContext(pages: SearchContextPage[], maxCharsPerPage: number): string {
+  return pages
+    .map(({ url, title, content }, index) => `[${index + 1}] ${title || url}\nURL: ${url}\n${content.slice(0, maxCharsPerPage)}`)
+    .join('\n\n');
+}
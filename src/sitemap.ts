@@ -0,0 +1,180 @@
+// Site URL discovery for map_site: robots.txt `Sitemap:` entries, sitemap and
+// sitemap index files (plain or gzipped), with a fallback to links harvested
+// from the rendered homepage. Network access is injected by the caller.
+
+import { gunzipSync } from 'node:zlib';
+import { load } from 'cheerio/slim';
+
+import { isValidUrl, sanitizeUrl } from './utils.js';
+import { normalizeUrl, isSameSite } from './crawler.js';
+
+export const DEFAULT_MAP_LIMIT = 100;
+export const MAX_MAP_LIMIT = 5000;
+// Upper bound on sitemap files fetched per call, so huge nested indexes
+// can't turn one map_site call into hundreds of requests.
+export const MAX_SITEMAP_FETCHES = 25;
+// Decompressed size limit for gzipped sitemaps (the protocol caps a sitemap
+// at 50MB uncompressed)
+export const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+export interface MapSiteOptions {
+  search?: string;
+  limit?: number;
+  allowSubdomains?: boolean;
+}
+
+export interface MapSiteDeps {
+  // Fetch a resource body, or undefined if it is missing/unreachable.
+  fetchResource(url: string): Promise<Buffer | undefined>;
+  // Links found on the rendered page (used when no sitemap yields URLs).
+  harvestLinks(url: string): Promise<string[]>;
+}
+
+export interface MapSiteResult {
+  urls: string[];
+  source: 'sitemap' | 'links';
+  // Sitemaps that were fetched and parsed successfully.
+  sitemaps: string[];
+}
+
+// Sitemap URLs declared in robots.txt (`Sitemap:` is case-insensitive).
+export function parseRobotsSitemaps(robotsTxt: string, baseUrl: string): string[] {
+  const sitemaps: string[] = [];
+  for (const line of robotsTxt.split(/\r?\n/)) {
+    const match = line.match(/^\s*sitemap\s*:\s*(\S+)/i);
+    if (!match) continue;
+    try {
+      const url = new URL(sanitizeUrl(match[1]), baseUrl).href;
+      if (isValidUrl(url)) sitemaps.push(url);
+    } catch {
+      /* skip malformed entries */
+    }
+  }
+  return sitemaps;
+}
+
+// A gzipped sitemap whose decompressed size passes the cap (a gzip bomb or
+// simply oversized).
+export class SitemapTooLargeError extends Error {
+  constructor(maxBytes: number) {
+    super(`sitemap exceeds ${maxBytes} bytes once decompressed`);
+    this.name = 'SitemapTooLargeError';
+  }
+}
+
+// Decode a sitemap body, transparently gunzipping .xml.gz payloads (detected by
+// the gzip magic bytes, since servers often mislabel the content type).
+// Decompression stops at maxBytes and throws SitemapTooLargeError.
+export function decodeSitemapBody(body: Buffer, maxBytes: number = MAX_SITEMAP_BYTES): string {
+  if (body.length >= 2 && body[0] === 0x1f && body[1] === 0x8b) {
+    try {
+      return gunzipSync(body, { maxOutputLength: maxBytes }).toString('utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') throw new SitemapTooLargeError(maxBytes);
+      throw error;
+    }
+  }
+  return body.toString('utf8');
+}
+
+// Parse a sitemap (`<urlset>`) or sitemap index (`<sitemapindex>`) document.
+export function parseSitemap(xml: string): { urls: string[]; sitemaps: string[] } {
+  const $ = load(xml, { xml: true });
+  const locs = (selector: string) =>
+    $(selector)
+      .map((_, el) => $(el).text().trim())
+      .get()
+      .filter((loc) => loc.length > 0);
+
+  return {
+    urls: locs('urlset > url > loc'),
+    sitemaps: locs('sitemapindex > sitemap > loc'),
+  };
+}
+
+// Keep URLs matching any search term (case-insensitive), best matches first.
+export function filterBySearch(urls: string[], search?: string): string[] {
+  const terms = (search ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return urls;
+
+  return urls
+    .map((url) => {
+      const lower = url.toLowerCase();
+      return { url, score: terms.filter((term) => lower.includes(term)).length };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ url }) => url);
+}
+
+// Discover a site's URLs. Sitemaps come from robots.txt plus the conventional
+// /sitemap.xml; nested indexes are followed breadth-first. Only URLs on the
+// requested site are returned, normalized and deduplicated.
+export async function mapSite(
+  siteUrl: string,
+  options: MapSiteOptions,
+  deps: MapSiteDeps
+): Promise<MapSiteResult> {
+  const root = normalizeUrl(siteUrl);
+  if (!root) {
+    throw new Error('Invalid URL format. Only HTTP and HTTPS URLs are allowed.');
+  }
+  const origin = new URL(root).origin;
+  const limit = Math.min(
+    Math.max(Math.floor(options.limit ?? DEFAULT_MAP_LIMIT) || DEFAULT_MAP_LIMIT, 1),
+    MAX_MAP_LIMIT
+  );
+
+  const queue: string[] = [];
+  const robots = await deps.fetchResource(`${origin}/robots.txt`);
+  if (robots) {
+    queue.push(...parseRobotsSitemaps(robots.toString('utf8'), origin));
+  }
+  queue.push(`${origin}/sitemap.xml`);
+
+  const fetched = new Set<string>();
+  const parsed: string[] = [];
+  const found = new Set<string>();
+  const collect = (urls: string[]) => {
+    for (const url of urls) {
+      const normalized = normalizeUrl(url);
+      if (normalized && isSameSite(normalized, root, options.allowSubdomains)) {
+        found.add(normalized);
+      }
+    }
+  };
+
+  while (queue.length > 0 && fetched.size < MAX_SITEMAP_FETCHES) {
+    const sitemapUrl = queue.shift()!;
+    if (fetched.has(sitemapUrl)) continue;
+    fetched.add(sitemapUrl);
+
+    const body = await deps.fetchResource(sitemapUrl);
+    if (!body) continue;
+
+    try {
+      const { urls, sitemaps } = parseSitemap(decodeSitemapBody(body));
+      if (urls.length > 0 || sitemaps.length > 0) parsed.push(sitemapUrl);
+      collect(urls);
+      queue.push(...sitemaps.filter((url) => isValidUrl(url) && !fetched.has(url)));
+    } catch (error) {
+      if (error instanceof SitemapTooLargeError) {
+        console.error(`Skipping sitemap ${sitemapUrl}: ${error.message}`);
+      }
+      /* otherwise corrupt gzip or unparseable XML — skip this sitemap */
+    }
+  }
+
+  let source: MapSiteResult['source'] = 'sitemap';
+  if (found.size === 0) {
+    source = 'links';
+    found.add(root);
+    collect(await deps.harvestLinks(root));
+  }
+
+  return {
+    urls: filterBySearch([...found], options.search).slice(0, limit),
+    source,
+    sitemaps: parsed,
+  };
+}
@@ -30,27 +30,122 @@ export function validatePrompt(prompt: string): boolean {
   return prompt.length > 0 && prompt.length < 10000;
 }
 
-// Parse proxy URL with range support (e.g. https://example.com:10001-10010)
+export type ProxyProtocol = 'http' | 'https' | 'socks4' | 'socks5';
+
+export const PROXY_PROTOCOLS: ProxyProtocol[] = ['http', 'https', 'socks4', 'socks5'];
+
+const DEFAULT_PROXY_PORTS: Record<ProxyProtocol, number> = {
+  http: 80,
+  https: 443,
+  socks4: 1080,
+  socks5: 1080,
+};
+
+// Largest port range a single proxy entry may expand to
+const MAX_PROXY_RANGE = 10000;
+
+export interface ProxyEndpoint {
+  protocol: ProxyProtocol;
+  host: string;
+  port: number;
+  username?: string;
+  password?: string;
+  // Exit country from a #country=XX tag, upper-cased
+  country?: string;
+}
+
+// Parse one proxy URL (scheme://[user:pass@]host[:port][#country=XX]) into
+// its parts. Throws on an unsupported scheme or a malformed URL.
+export function parseProxyEndpoint(proxyUrl: string): ProxyEndpoint {
+  let parsed: URL;
+  try {
+    parsed = new URL(proxyUrl);
+  } catch {
+    throw new Error(`Invalid proxy URL "${redactCredentials(proxyUrl)}"`);
+  }
+
+  const protocol = parsed.protocol.replace(/:$/, '') as ProxyProtocol;
+  if (!PROXY_PROTOCOLS.includes(protocol)) {
+    throw new Error(
+      `Unsupported proxy scheme "${protocol}" in "${redactCredentials(proxyUrl)}": must be one of ${PROXY_PROTOCOLS.join(', ')}`
+    );
+  }
+  if (!parsed.hostname) {
+    throw new Error(`Invalid proxy URL "${redactCredentials(proxyUrl)}": missing host`);
+  }
+
+  const country = new URLSearchParams(parsed.hash.slice(1)).get('country') ?? undefined;
+  if (country !== undefined && !/^[A-Za-z]{2}$/.test(country)) {
+    throw new Error(`Invalid proxy country tag "${country}" in "${redactCredentials(proxyUrl)}": must be a two-letter code`);
+  }
+
+  return {
+    protocol,
+    // URL keeps IPv6 literals bracketed; consumers want the bare address
+    host: parsed.hostname.replace(/^\[(.*)\]$/, '$1'),
+    port: parsed.port ? parseInt(parsed.port, 10) : DEFAULT_PROXY_PORTS[protocol],
+    username: parsed.username ? decodeURIComponent(parsed.username) : undefined,
+    password: parsed.password ? decodeURIComponent(parsed.password) : undefined,
+    ...(country ? { country: country.toUpperCase() } : {}),
+  };
+}
+
+// Value for Chrome's --proxy-server flag. Chrome rejects inline credentials,
+// so those are left out and supplied through page.authenticate() instead.
+export function proxyServerArg(endpoint: ProxyEndpoint): string {
+  const host = endpoint.host.includes(':') ? `[${endpoint.host}]` : endpoint.host;
+  return `${endpoint.protocol}://${host}:${endpoint.port}`;
+}
+
+function redactCredentials(proxyUrl: string): string {
+  return proxyUrl.replace(/\/\/[^/@]*@/, '//');
+}
+
+// Parse a proxy list into individual proxy URLs. Accepts one entry or many,
+// separated by commas or newlines (so a list file's contents can be passed
+// in directly; blank lines and # comments are ignored). Each entry may use
+// http, https, socks4 or socks5, carry inline user:pass@ credentials, and use
+// a port range (e.g. https://example.com:10001-10010) that expands to one
+// proxy per port, and end in a #country=XX tag naming its exit country.
+// Entries without a scheme default to http.
 export function parseProxyUrls(proxyUrl: string): string[] {
   if (!proxyUrl) return [];
 
-  // Check for port range syntax: https://example.com:10001-10010
-  const rangeMatch = proxyUrl.match(/^(https?:\/\/[^:]+):(\d+)-(\d+)$/);
-  if (rangeMatch) {
-    const [, baseUrl, startPort, endPort] = rangeMatch;
-    const start = parseInt(startPort, 10);
-    const end = parseInt(endPort, 10);
-    const proxies: string[] = [];
+  const entries = proxyUrl
+    .split(/\r?\n/)
+    .map((line) => line.replace(/(^|\s)#.*$/, ''))
+    .flatMap((line) => line.split(','))
+    .map((entry) => entry.trim())
+    .filter(Boolean);
 
-    for (let port = start; port <= end; port++) {
-      proxies.push(`${baseUrl}:${port}`);
+  const proxies: string[] = [];
+  for (const entry of entries) {
+    const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(entry) ? entry : `http://${entry}`;
+
+    // Check for port range syntax: https://example.com:10001-10010, keeping
+    // any #country tag on each expanded entry
+    const rangeMatch = withScheme.match(/^(.+):(\d+)-(\d+)(#.*)?$/);
+    if (rangeMatch) {
+      const [, baseUrl, startPort, endPort, tag = ''] = rangeMatch;
+      const start = parseInt(startPort, 10);
+      const end = parseInt(endPort, 10);
+      if (end < start || end - start >= MAX_PROXY_RANGE) {
+        throw new Error(`Invalid proxy port range "${startPort}-${endPort}"`);
+      }
+      parseProxyEndpoint(`${baseUrl}:${start}${tag}`);
+
+      for (let port = start; port <= end; port++) {
+        proxies.push(`${baseUrl}:${port}${tag}`);
+      }
+      continue;
     }
 
-    return proxies;
+    // Single proxy URL
+    parseProxyEndpoint(withScheme);
+    proxies.push(withScheme);
   }
 
-  // Single proxy URL
-  return [proxyUrl];
+  return proxies;
 }
 
 // Parse user agent env value, which may be a JSON array or a single string
@@ -165,3 +260,50 @@ export function buildLlmRequestBody(
 
   return body;
 }
+
+// How scrapers treat a page whose final HTTP status is not 2xx:
+// - ignore:   record the status but keep the scraped content (default)
+// - fail-5xx: treat server errors (5xx) as failed attempts
+// - fail:     treat any non-2xx status as a failed attempt
+export type HttpErrorPolicy = 'ignore' | 'fail-5xx' | 'fail';
+
+export const HTTP_ERROR_POLICIES: HttpErrorPolicy[] = ['ignore', 'fail-5xx', 'fail'];
+
+export function parseHttpErrorPolicy(value: string | undefined): HttpErrorPolicy {
+  const normalized = value?.trim().toLowerCase();
+  return (HTTP_ERROR_POLICIES as string[]).includes(normalized ?? '')
+    ? (normalized as HttpErrorPolicy)
+    : 'ignore';
+}
+
+// Whether a response status should count as a failure under the policy.
+// An unknown status (e.g. no navigation response) never does.
+export function isHttpErrorStatus(
+  status: number | undefined,
+  policy: HttpErrorPolicy
+): boolean {
+  if (status === undefined) return false;
+  switch (policy) {
+    case 'fail':
+      return status < 200 || status >= 300;
+    case 'fail-5xx':
+      return status >= 500;
+    default:
+      return false;
+  }
+}
+
+// Flatten response headers to lowercase names with string values (multi-value
+// headers are comma-joined), whatever client produced them.
+export function normalizeHeaders(
+  raw: Record<string, unknown> | undefined
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(raw ?? {})) {
+    if (value === undefined || value === null) continue;
+    headers[name.toLowerCase()] = Array.isArray(value)
+      ? value.join(', ')
+      : String(value);
+  }
+  return headers;
+}
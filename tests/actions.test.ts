@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { parseActions, runActions, MAX_ACTIONS, MAX_ACTION_WAIT_MS } from '../src/actions.js';
+
+test('parseActions returns an empty list when unset', () => {
+  assert.deepEqual(parseActions(undefined), []);
+});
+
+test('parseActions validates and normalizes each step', () => {
+  const actions = parseActions([
+    { type: 'click', selector: '#more' },
+    { type: 'type', selector: 'input[name=q]', text: 'shoes' },
+    { type: 'press', key: 'Enter' },
+    { type: 'scroll' },
+    { type: 'waitForSelector', selector: '.results', timeout: 999999 },
+    { type: 'wait', milliseconds: 500 },
+    { type: 'executeJavaScript', script: 'document.title' },
+  ]);
+  assert.equal(actions.length, 7);
+  assert.deepEqual(actions[3], { type: 'scroll', direction: 'down', amount: undefined });
+  assert.deepEqual(actions[4], { type: 'waitForSelector', selector: '.results', timeout: MAX_ACTION_WAIT_MS });
+});
+
+test('parseActions rejects malformed input with the step number', () => {
+  assert.throws(() => parseActions('click'), /must be an array/);
+  assert.throws(() => parseActions([{ type: 'click' }]), /action 1 \(click\).*selector/);
+  assert.throws(() => parseActions([{ type: 'wait', milliseconds: 1 }, { type: 'hover' }]), /action 2.*unknown type/);
+  assert.throws(() => parseActions([{ type: 'wait', milliseconds: -5 }]), /non-negative/);
+  assert.throws(() => parseActions([{ type: 'scroll', direction: 'left' }]), /direction/);
+  assert.throws(
+    () => parseActions(Array.from({ length: MAX_ACTIONS + 1 }, () => ({ type: 'press', key: 'Tab' }))),
+    /Too many actions/
+  );
+});
+
+// Records the calls made against it; clicking "#missing" fails like puppeteer does.
+function fakePage() {
+  const calls: string[] = [];
+  return {
+    calls,
+    async click(selector: string) {
+      if (selector === '#missing') throw new Error(`No element found for selector: ${selector}`);
+      calls.push(`click ${selector}`);
+    },
+    async type(selector: string, text: string) {
+      calls.push(`type ${selector} ${text}`);
+    },
+    keyboard: {
+      async press(key: string) {
+        calls.push(`press ${key}`);
+      },
+    },
+    async waitForSelector(selector: string) {
+      calls.push(`waitForSelector ${selector}`);
+    },
+    async evaluate(fn: unknown, ...args: unknown[]) {
+      if (typeof fn === 'string') return `evaluated ${fn}`;
+      calls.push(`evaluate ${JSON.stringify(args)}`);
+      return undefined;
+    },
+  };
+}
+
+test('runActions runs steps in order and reports each outcome', async () => {
+  const page = fakePage();
+  const results = await runActions(
+    page,
+    parseActions([
+      { type: 'type', selector: '#q', text: 'hi' },
+      { type: 'press', key: 'Enter' },
+      { type: 'scroll', direction: 'up', amount: 200 },
+      { type: 'executeJavaScript', script: 'document.title' },
+    ])
+  );
+  assert.deepEqual(page.calls, ['type #q hi', 'press Enter', 'evaluate [-1,200]']);
+  assert.ok(results.every((r) => r.success));
+  assert.equal(results[3].result, 'evaluated document.title');
+});
+
+test('runActions stops at the first failure and skips the rest', async () => {
+  const page = fakePage();
+  const results = await runActions(
+    page,
+    parseActions([
+      { type: 'click', selector: '#accept' },
+      { type: 'click', selector: '#missing' },
+      { type: 'press', key: 'Enter' },
+    ])
+  );
+  assert.deepEqual(
+    results.map((r) => [r.type, r.success, r.skipped ?? false]),
+    [
+      ['click', true, false],
+      ['click', false, false],
+      ['press', false, true],
+    ]
+  );
+  assert.match(results[1].error!, /No element found/);
+  assert.deepEqual(page.calls, ['click #accept']);
+});
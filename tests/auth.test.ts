@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { ApiKeyAuthenticator, credentialFromHeaders, parseApiKeys, parseApiKeysFile } from '../src/auth.js';
+
+const ALICE_KEY = 'alice-0123456789abcdef';
+const BOB_KEY = 'bob-0123456789abcdef00';
+
+test('parseApiKeys reads name:key pairs', () => {
+  assert.deepEqual(parseApiKeys(undefined), []);
+  assert.deepEqual(parseApiKeys(` alice:${ALICE_KEY}, ,bob : ${BOB_KEY} `), [
+    { name: 'alice', key: ALICE_KEY, enabled: true },
+    { name: 'bob', key: BOB_KEY, enabled: true },
+  ]);
+  // Keys may contain colons
+  assert.equal(parseApiKeys('ci:abc:0123456789abcdef')[0].key, 'abc:0123456789abcdef');
+});
+
+test('parseApiKeys rejects malformed entries and short keys', () => {
+  assert.throws(() => parseApiKeys(ALICE_KEY), /expected name:key/);
+  assert.throws(() => parseApiKeys(':0123456789abcdef'), /expected name:key/);
+  assert.throws(() => parseApiKeys('alice:short'), /at least 16 characters/);
+  assert.throws(() => parseApiKeys(`bad name:${ALICE_KEY}`), /Invalid MCP_API_KEYS key name "bad name"/);
+});
+
+test('parseApiKeysFile reads named keys with an enabled flag', () => {
+  const keys = parseApiKeysFile(JSON.stringify([
+    { name: 'alice', key: ALICE_KEY },
+    { name: 'bob', key: BOB_KEY, enabled: false },
+  ]));
+  assert.deepEqual(keys, [
+    { name: 'alice', key: ALICE_KEY, enabled: true },
+    { name: 'bob', key: BOB_KEY, enabled: false },
+  ]);
+
+  assert.throws(() => parseApiKeysFile('alice'), /not valid JSON/);
+  assert.throws(() => parseApiKeysFile('{"keys": []}'), /must be an array/);
+  assert.throws(() => parseApiKeysFile('[{"name": "alice"}]'), /entry 0: "name" and "key" must be strings/);
+  assert.throws(() => parseApiKeysFile(`[{"name": "alice", "key": "${ALICE_KEY}", "enabled": "no"}]`), /entry 0/);
+});
+
+test('credentialFromHeaders reads bearer tokens and X-API-Key', () => {
+  assert.equal(credentialFromHeaders({ authorization: `Bearer ${ALICE_KEY}` }), ALICE_KEY);
+  assert.equal(credentialFromHeaders({ authorization: `bearer  ${ALICE_KEY} ` }), ALICE_KEY);
+  assert.equal(credentialFromHeaders({ 'x-api-key': ` ${BOB_KEY} ` }), BOB_KEY);
+  assert.equal(credentialFromHeaders({ authorization: `Basic ${ALICE_KEY}` }), undefined);
+  assert.equal(credentialFromHeaders({ 'x-api-key': '' }), undefined);
+  assert.equal(credentialFromHeaders({}), undefined);
+});
+
+test('ApiKeyAuthenticator is disabled without keys', () => {
+  assert.equal(new ApiKeyAuthenticator([]).enabled, false);
+  assert.equal(new ApiKeyAuthenticator(parseApiKeys(`alice:${ALICE_KEY}`)).enabled, true);
+});
+
+test('ApiKeyAuthenticator identifies the key a request carries', () => {
+  const authenticator = new ApiKeyAuthenticator(parseApiKeys(`alice:${ALICE_KEY},bob:${BOB_KEY}`));
+  const result = authenticator.authenticate({ authorization: `Bearer ${BOB_KEY}` });
+  assert.ok(result.ok);
+  assert.equal(result.apiKey.name, 'bob');
+  assert.equal(result.token, BOB_KEY);
+
+  assert.deepEqual(authenticator.authenticate({}), {
+    ok: false,
+    status: 401,
+    error: 'Missing API key: send "Authorization: Bearer <key>" or "X-API-Key: <key>"',
+  });
+  assert.deepEqual(authenticator.authenticate({ 'x-api-key': `${ALICE_KEY}x` }), { ok: false, status: 401, error: 'Invalid API key' });
+});
+
+test('ApiKeyAuthenticator refuses disabled keys by flag or name', () => {
+  const keys = [...parseApiKeys(`alice:${ALICE_KEY}`), { name: 'bob', key: BOB_KEY, enabled: false }];
+  const authenticator = new ApiKeyAuthenticator(keys, ['alice']);
+  assert.deepEqual(authenticator.authenticate({ 'x-api-key': ALICE_KEY }), {
+    ok: false,
+    status: 403,
+    error: 'API key "alice" is disabled',
+  });
+  assert.equal(authenticator.authenticate({ 'x-api-key': BOB_KEY }).ok, false);
+});
+
+test('ApiKeyAuthenticator rejects duplicate names and values', () => {
+  assert.throws(() => new ApiKeyAuthenticator(parseApiKeys(`alice:${ALICE_KEY},alice:${BOB_KEY}`)), /Duplicate API key name "alice"/);
+  assert.throws(() => new ApiKeyAuthenticator(parseApiKeys(`alice:${ALICE_KEY},bob:${ALICE_KEY}`)), /"bob" reuses another key's value/);
+});
@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { BlockedError, detectBlock } from '../src/blockDetection.js';
+
+const CLOUDFLARE_CHALLENGE = `<!DOCTYPE html><html><head><title>Just a moment...</title></head>
+<body><div class="main-wrapper"><h1>www.example.com</h1>
+<p>Verifying you are human. This may take a few seconds.</p>
+<script>window._cf_chl_opt = { cvId: '3' };</script></div></body></html>`;
+
+const DATADOME_CAPTCHA = `<html><head><title>example.com</title></head><body>
+<iframe src="https://geo.captcha-delivery.com/captcha/?initialCid=abc" title="DataDome CAPTCHA"></iframe>
+</body></html>`;
+
+const ARTICLE = `<html><head><title>How CAPTCHAs work</title></head><body><article>
+${'<p>CAPTCHAs ask visitors to prove they are human before continuing. '.repeat(60)}</p>
+<div class="g-recaptcha"></div></article></body></html>`;
+
+test('detectBlock recognizes a Cloudflare challenge page', () => {
+  assert.deepEqual(detectBlock({ statusCode: 403, title: 'Just a moment...', html: CLOUDFLARE_CHALLENGE }), {
+    kind: 'cloudflare',
+    reason: 'Cloudflare challenge page',
+  });
+});
+
+test('detectBlock trusts the cf-mitigated header', () => {
+  assert.equal(detectBlock({ statusCode: 403, headers: { 'cf-mitigated': 'challenge' }, html: '' })?.kind, 'cloudflare');
+});
+
+test('detectBlock recognizes a DataDome captcha served with 200', () => {
+  assert.deepEqual(detectBlock({ statusCode: 200, html: DATADOME_CAPTCHA }), { kind: 'captcha', reason: 'DataDome captcha' });
+});
+
+test('detectBlock recognizes access denied pages only on error statuses', () => {
+  const html = '<html><head><title>Access Denied</title></head><body><h1>Access Denied</h1></body></html>';
+  assert.equal(detectBlock({ statusCode: 403, html })?.kind, 'access-denied');
+  assert.equal(detectBlock({ statusCode: 200, html }), undefined);
+});
+
+test('detectBlock treats a captcha widget as a wall only on a blocking status', () => {
+  const html = '<html><head><title>Sign in</title></head><body><form><div class="g-recaptcha"></div></form></body></html>';
+  assert.equal(detectBlock({ statusCode: 200, html }), undefined);
+  assert.equal(detectBlock({ statusCode: 429, html })?.kind, 'captcha');
+});
+
+test('detectBlock ignores long pages that merely mention captchas', () => {
+  assert.equal(detectBlock({ statusCode: 200, html: ARTICLE }), undefined);
+});
+
+test('BlockedError carries a typed message and kind', () => {
+  const error = new BlockedError({ kind: 'captcha', reason: 'DataDome captcha' });
+  assert.equal(error.kind, 'captcha');
+  assert.equal(error.message, 'blocked:captcha (DataDome captcha)');
+});
@@ -0,0 +1,176 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'node:events';
+
+import { BrowserPool, BrowserSpec, browserKey } from '../src/browserPool.js';
+
+// Minimal stand-ins for puppeteer's Browser / BrowserContext / Page.
+class FakePage extends EventEmitter {}
+
+class FakeContext {
+  closed = false;
+  async newPage() {
+    return new FakePage();
+  }
+  async close() {
+    this.closed = true;
+  }
+}
+
+class FakeBrowser extends EventEmitter {
+  closed = false;
+  contexts: FakeContext[] = [];
+  constructor(public spec: BrowserSpec) {
+    super();
+  }
+  async createBrowserContext() {
+    const ctx = new FakeContext();
+    this.contexts.push(ctx);
+    return ctx;
+  }
+  async close() {
+    this.closed = true;
+  }
+}
+
+function makePool(overrides: Partial<{ maxBrowsers: number; maxPagesPerBrowser: number }> = {}) {
+  const launched: FakeBrowser[] = [];
+  const pool = new BrowserPool({
+    maxBrowsers: overrides.maxBrowsers ?? 2,
+    maxPagesPerBrowser: overrides.maxPagesPerBrowser ?? 10,
+    idleTimeoutMs: 60000,
+    launch: async (spec) => {
+      const browser = new FakeBrowser(spec);
+      launched.push(browser);
+      return browser;
+    },
+  });
+  return { pool, launched };
+}
+
+const SPEC_A = {};
+const SPEC_B = { proxyUrl: 'http://proxy:8080' };
+
+test('browserKey distinguishes proxies only', () => {
+  assert.notEqual(browserKey(SPEC_A), browserKey(SPEC_B));
+  assert.equal(browserKey(SPEC_B), browserKey({ proxyUrl: 'http://proxy:8080' }));
+});
+
+test('reuses a warm browser for the same spec with a fresh context', async () => {
+  const { pool, launched } = makePool();
+  const first = await pool.acquire(SPEC_A);
+  await first.release();
+  const second = await pool.acquire(SPEC_A);
+  await second.release();
+
+  assert.equal(launched.length, 1);
+  assert.equal(launched[0].contexts.length, 2);
+  assert.ok(launched[0].contexts.every((ctx) => ctx.closed));
+  await pool.closeAll();
+});
+
+test('launches separate browsers for different specs', async () => {
+  const { pool, launched } = makePool();
+  const a = await pool.acquire(SPEC_A);
+  const b = await pool.acquire(SPEC_B);
+  assert.equal(launched.length, 2);
+  assert.equal(launched[1].spec.proxyUrl, 'http://proxy:8080');
+  await a.release();
+  await b.release();
+  await pool.closeAll();
+});
+
+test('evicts an idle browser when the pool is full', async () => {
+  const { pool, launched } = makePool({ maxBrowsers: 1 });
+  const a = await pool.acquire(SPEC_A);
+  await a.release();
+  const b = await pool.acquire(SPEC_B);
+  assert.equal(launched.length, 2);
+  assert.equal(launched[0].closed, true);
+  assert.equal(pool.stats().browsers, 1);
+  await b.release();
+  await pool.closeAll();
+});
+
+test('waits for a busy browser to be released when the pool is full', async () => {
+  const { pool, launched } = makePool({ maxBrowsers: 1 });
+  const a = await pool.acquire(SPEC_A);
+
+  let acquired = false;
+  const pending = pool.acquire(SPEC_B).then((lease) => {
+    acquired = true;
+    return lease;
+  });
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.equal(acquired, false);
+  assert.equal(pool.stats().waiting, 1);
+
+  await a.release();
+  const b = await pending;
+  assert.equal(launched.length, 2);
+  await b.release();
+  await pool.closeAll();
+});
+
+test('recycles a browser after maxPagesPerBrowser pages', async () => {
+  const { pool, launched } = makePool({ maxPagesPerBrowser: 2 });
+  for (let i = 0; i < 3; i++) {
+    const lease = await pool.acquire(SPEC_A);
+    await lease.release();
+  }
+  assert.equal(launched.length, 2);
+  assert.equal(launched[0].closed, true);
+  assert.equal(launched[1].closed, false);
+  await pool.closeAll();
+});
+
+test('replaces a browser that disconnects', async () => {
+  const { pool, launched } = makePool();
+  const lease = await pool.acquire(SPEC_A);
+  await lease.release();
+  launched[0].emit('disconnected');
+
+  const next = await pool.acquire(SPEC_A);
+  assert.equal(launched.length, 2);
+  await next.release();
+  await pool.closeAll();
+});
+
+test('retires a browser whose page crashed', async () => {
+  const { pool, launched } = makePool();
+  const lease = await pool.acquire(SPEC_A);
+  lease.page.emit('error', new Error('Page crashed!'));
+  await lease.release();
+  assert.equal(launched[0].closed, true);
+  assert.equal(pool.stats().browsers, 0);
+  await pool.closeAll();
+});
+
+test('closeAll shuts every browser and rejects new work', async () => {
+  const { pool, launched } = makePool();
+  const a = await pool.acquire(SPEC_A);
+  await a.release();
+  await pool.closeAll();
+  assert.equal(launched[0].closed, true);
+  await assert.rejects(pool.acquire(SPEC_A), /shut down/);
+});
+
+test('surfaces launch failures and frees the slot', async () => {
+  let fail = true;
+  const pool = new BrowserPool({
+    maxBrowsers: 1,
+    maxPagesPerBrowser: 10,
+    idleTimeoutMs: 60000,
+    launch: async (spec) => {
+      if (fail) throw new Error('launch failed');
+      return new FakeBrowser(spec);
+    },
+  });
+  await assert.rejects(pool.acquire(SPEC_A), /launch failed/);
+  assert.equal(pool.stats().browsers, 0);
+
+  fail = false;
+  const lease = await pool.acquire(SPEC_A);
+  await lease.release();
+  await pool.closeAll();
+});
@@ -0,0 +1,169 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  normalizeUrl,
+  globToRegExp,
+  isSameSite,
+  matchesPathFilters,
+  extractLinks,
+  crawlSite,
+  DEFAULT_CRAWL_MAX_PAGES,
+} from '../src/crawler.js';
+
+test('normalizeUrl drops fragments, tracking params and trailing slashes', () => {
+  assert.equal(
+    normalizeUrl('https://Example.com/docs/?utm_source=x&b=2&a=1#intro'),
+    'https://example.com/docs?a=1&b=2'
+  );
+  assert.equal(normalizeUrl('https://example.com/'), 'https://example.com/');
+  assert.equal(normalizeUrl('https://example.com:443/a'), 'https://example.com/a');
+});
+
+test('normalizeUrl resolves relative links and rejects non-http(s)', () => {
+  assert.equal(normalizeUrl('../b', 'https://example.com/a/c'), 'https://example.com/b');
+  assert.equal(normalizeUrl('ftp://example.com/file'), undefined);
+  assert.equal(normalizeUrl('http://['), undefined);
+});
+
+test('globToRegExp distinguishes * from **', () => {
+  assert.equal(globToRegExp('/blog/*').test('/blog/post'), true);
+  assert.equal(globToRegExp('/blog/*').test('/blog/2024/post'), false);
+  assert.equal(globToRegExp('/blog/**').test('/blog/2024/post'), true);
+  assert.equal(globToRegExp('/a?c').test('/abc'), true);
+  assert.equal(globToRegExp('/file.html').test('/fileXhtml'), false);
+});
+
+test('isSameSite ignores www and gates subdomains', () => {
+  const seed = 'https://www.example.com/';
+  assert.equal(isSameSite('https://example.com/a', seed), true);
+  assert.equal(isSameSite('https://docs.example.com/a', seed), false);
+  assert.equal(isSameSite('https://docs.example.com/a', seed, true), true);
+  assert.equal(isSameSite('https://notexample.com/a', seed, true), false);
+});
+
+test('matchesPathFilters applies includes and lets excludes win', () => {
+  const url = 'https://example.com/blog/drafts/post';
+  assert.equal(matchesPathFilters(url), true);
+  assert.equal(matchesPathFilters(url, ['/blog/**']), true);
+  assert.equal(matchesPathFilters(url, ['/docs/**']), false);
+  assert.equal(matchesPathFilters(url, ['/blog/**'], ['/blog/drafts/**']), false);
+});
+
+test('extractLinks returns normalized, deduplicated http(s) links', () => {
+  const html = `<a href="/a">A</a><a href="/a#top">A again</a>
+    <a href="mailto:x@example.com">mail</a><a href="javascript:void(0)">js</a>
+    <a href="https://other.com/x/">other</a>`;
+  assert.deepEqual(extractLinks(html, 'https://example.com/'), [
+    'https://example.com/a',
+    'https://other.com/x',
+  ]);
+});
+
+// A tiny in-memory site: each path maps to the paths it links to.
+const SITE: Record<string, string[]> = {
+  '/': ['/a', '/b', 'https://other.com/', 'https://docs.example.com/'],
+  '/a': ['/a/1', '/'],
+  '/b': ['/b/1', '/private/x'],
+  '/a/1': ['/a/1/deep'],
+  '/b/1': [],
+  '/private/x': [],
+};
+
+function fakeVisit(visited: string[]) {
+  return async (url: string) => {
+    visited.push(url);
+    const path = new URL(url).pathname;
+    const links = SITE[path] ?? [];
+    return {
+      result: url,
+      html: links.map((href) => `<a href="${href}">link</a>`).join(''),
+    };
+  };
+}
+
+test('crawlSite visits breadth-first within depth and domain', async () => {
+  const visited: string[] = [];
+  const results = await crawlSite('https://example.com', { maxDepth: 1 }, fakeVisit(visited));
+  assert.deepEqual(results, [
+    'https://example.com/',
+    'https://example.com/a',
+    'https://example.com/b',
+  ]);
+  assert.deepEqual(visited, results);
+});
+
+test('crawlSite honors maxPages', async () => {
+  const results = await crawlSite('https://example.com', { maxDepth: 5, maxPages: 2 }, fakeVisit([]));
+  assert.equal(results.length, 2);
+});
+
+test('crawlSite applies path filters to discovered links', async () => {
+  const results = await crawlSite(
+    'https://example.com',
+    { maxDepth: 3, excludePaths: ['/private/**', '/a/**'] },
+    fakeVisit([])
+  );
+  assert.deepEqual(results, [
+    'https://example.com/',
+    'https://example.com/a',
+    'https://example.com/b',
+    'https://example.com/b/1',
+  ]);
+});
+
+test('crawlSite follows subdomains only when allowed', async () => {
+  const results = await crawlSite(
+    'https://example.com',
+    { maxDepth: 1, allowSubdomains: true },
+    fakeVisit([])
+  );
+  assert.ok(results.includes('https://docs.example.com/'));
+  assert.ok(!results.includes('https://other.com/'));
+});
+
+test('crawlSite skips links isAllowed rejects', async () => {
+  const results = await crawlSite(
+    'https://example.com',
+    { maxDepth: 1 },
+    fakeVisit([]),
+    (url) => !url.endsWith('/a')
+  );
+  assert.deepEqual(results, ['https://example.com/', 'https://example.com/b']);
+});
+
+test('crawlSite fetches URLs as found and resolves links against the loaded page', async () => {
+  const visited: string[] = [];
+  const pages: Record<string, { html: string; finalUrl?: string }> = {
+    'https://x.example/docs/': { html: '<a href="intro">Intro</a><a href="/old">Old</a>' },
+    'https://x.example/docs/intro': { html: '' },
+    'https://x.example/old': { html: '<a href="guide">Guide</a>', finalUrl: 'https://x.example/new/' },
+    'https://x.example/new/guide': { html: '' },
+  };
+  const results = await crawlSite('https://x.example/docs/', { maxDepth: 2 }, async (url) => {
+    visited.push(url);
+    return { result: url, ...pages[url] };
+  });
+  assert.deepEqual(visited, [
+    'https://x.example/docs/',
+    'https://x.example/docs/intro',
+    'https://x.example/old',
+    'https://x.example/new/guide',
+  ]);
+  assert.equal(results.length, 4);
+});
+
+test('crawlSite does not follow links from failed pages', async () => {
+  const results = await crawlSite('https://example.com', {}, async (url) => ({ result: url }));
+  assert.deepEqual(results, ['https://example.com/']);
+});
+
+test('crawlSite clamps out-of-range limits', async () => {
+  const results = await crawlSite(
+    'https://example.com',
+    { maxDepth: 100, maxPages: Number.NaN },
+    fakeVisit([])
+  );
+  assert.ok(results.length <= DEFAULT_CRAWL_MAX_PAGES);
+  await assert.rejects(crawlSite('ftp://example.com', {}, fakeVisit([])), /Invalid URL/);
+});
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { emulateDevice, parseDevice } from '../src/devices.js';
+import { getFingerprintProfile } from '../src/fingerprints.js';
+
+const DESKTOP = getFingerprintProfile('edge-windows')!;
+
+test('parseDevice returns undefined when no device is given', () => {
+  assert.equal(parseDevice(undefined), undefined);
+});
+
+test("parseDevice resolves Puppeteer's known devices case-insensitively", () => {
+  const device = parseDevice('  iphone 15 ')!;
+  assert.equal(device.name, 'iPhone 15');
+  assert.match(device.userAgent!, /iPhone/);
+  assert.equal(device.viewport.isMobile, true);
+  assert.equal(device.viewport.hasTouch, true);
+  assert.equal(device.viewport.deviceScaleFactor, 3);
+  assert.equal('isLandscape' in device.viewport, false);
+});
+
+test('parseDevice knows newer phones missing from Puppeteer', () => {
+  const device = parseDevice('Pixel 8')!;
+  assert.match(device.userAgent!, /Android 14; Pixel 8/);
+  assert.equal(device.viewport.width, 412);
+});
+
+test('parseDevice accepts an explicit viewport object', () => {
+  assert.deepEqual(parseDevice({ width: 800, height: 600, isMobile: true }), {
+    viewport: { width: 800, height: 600, isMobile: true },
+  });
+});
+
+test('parseDevice rejects unknown devices and malformed viewports', () => {
+  assert.throws(() => parseDevice('Nokia 3310'), /Unknown device "Nokia 3310"/);
+  assert.throws(() => parseDevice({ width: 0, height: 600 }), /width must be an integer/);
+  assert.throws(() => parseDevice({ width: 800, height: 600, deviceScaleFactor: 9 }), /deviceScaleFactor/);
+  assert.throws(() => parseDevice({ width: 800, height: 600, hasTouch: 'yes' }), /hasTouch must be a boolean/);
+  assert.throws(() => parseDevice(42), /must be a device name or a viewport object/);
+});
+
+test('emulateDevice swaps in the device browser but keeps locale and timezone', () => {
+  const profile = emulateDevice(DESKTOP, parseDevice('Pixel 8'));
+  assert.equal(profile.name, 'device:Pixel 8');
+  assert.match(profile.userAgent, /Pixel 8/);
+  assert.equal(profile.clientHints?.platform, 'Android');
+  assert.equal(profile.clientHints?.mobile, true);
+  assert.equal(profile.viewport.isMobile, true);
+  assert.ok(profile.maxTouchPoints > 0);
+  assert.equal(profile.locale, 'en-GB');
+  assert.equal(profile.timezone, 'Europe/London');
+});
+
+test('emulateDevice with a viewport object only resizes the profile', () => {
+  const profile = emulateDevice(DESKTOP, parseDevice({ width: 800, height: 600, hasTouch: true }));
+  assert.equal(profile.userAgent, DESKTOP.userAgent);
+  assert.deepEqual(profile.viewport, { ...DESKTOP.viewport, width: 800, height: 600, hasTouch: true });
+  assert.equal(profile.maxTouchPoints, 1);
+});
+
+test('emulateDevice leaves the profile alone without a device', () => {
+  assert.equal(emulateDevice(DESKTOP, undefined), DESKTOP);
+});
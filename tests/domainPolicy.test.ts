@@ -0,0 +1,107 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  DomainPolicy,
+  DomainPolicyError,
+  matchesDomainPattern,
+  parseDomainPattern,
+  parseDomainPatterns,
+  parseDomainPolicyFile,
+} from '../src/domainPolicy.js';
+
+test('parseDomainPattern reads hosts, wildcards and path prefixes', () => {
+  assert.deepEqual(parseDomainPattern(' Example.COM '), { source: 'Example.COM', host: 'example.com', subdomains: false });
+  assert.deepEqual(parseDomainPattern('*.example.com'), { source: '*.example.com', host: 'example.com', subdomains: true });
+  assert.deepEqual(parseDomainPattern('https://docs.example.com:8443/api/v2?x=1'), {
+    source: 'https://docs.example.com:8443/api/v2?x=1',
+    host: 'docs.example.com',
+    subdomains: false,
+    pathPrefix: '/api/v2',
+  });
+  assert.equal(parseDomainPattern('example.com/').pathPrefix, undefined);
+  assert.equal(parseDomainPattern('bücher.example').host, 'xn--bcher-kva.example');
+});
+
+test('parseDomainPattern rejects invalid hosts', () => {
+  assert.throws(() => parseDomainPattern(''), /Invalid domain pattern/);
+  assert.throws(() => parseDomainPattern('*.'), /Invalid domain pattern/);
+  assert.throws(() => parseDomainPattern('ex*ample.com'), /Invalid domain pattern "ex\*ample\.com"/);
+  assert.throws(() => parseDomainPattern('user@example.com'), /Invalid domain pattern/);
+});
+
+test('parseDomainPatterns splits a comma-separated list', () => {
+  assert.deepEqual(parseDomainPatterns(undefined), []);
+  assert.deepEqual(
+    parseDomainPatterns(' example.com, ,*.example.org ').map((pattern) => pattern.source),
+    ['example.com', '*.example.org']
+  );
+});
+
+test('parseDomainPolicyFile reads allow and deny arrays', () => {
+  const config = parseDomainPolicyFile('{"allow": ["example.com"], "deny": ["*.ads.example.com", "example.com/admin"]}');
+  assert.deepEqual(config.allow.map((pattern) => pattern.host), ['example.com']);
+  assert.deepEqual(config.deny.map((pattern) => pattern.source), ['*.ads.example.com', 'example.com/admin']);
+  assert.deepEqual(parseDomainPolicyFile('{}'), { allow: [], deny: [] });
+
+  assert.throws(() => parseDomainPolicyFile('allow: example.com'), /not valid JSON/);
+  assert.throws(() => parseDomainPolicyFile('["example.com"]'), /must be an object/);
+  assert.throws(() => parseDomainPolicyFile('{"deny": "example.com"}'), /"deny" must be an array of strings/);
+});
+
+test('matchesDomainPattern distinguishes exact hosts, subdomains and paths', () => {
+  const exact = parseDomainPattern('example.com');
+  const wildcard = parseDomainPattern('*.example.com');
+  const path = parseDomainPattern('example.com/blog/');
+
+  assert.ok(matchesDomainPattern(new URL('https://EXAMPLE.com./x'), exact));
+  assert.ok(!matchesDomainPattern(new URL('https://www.example.com/'), exact));
+  assert.ok(matchesDomainPattern(new URL('https://a.b.example.com/'), wildcard));
+  assert.ok(!matchesDomainPattern(new URL('https://example.com/'), wildcard));
+  assert.ok(!matchesDomainPattern(new URL('https://notexample.com/'), wildcard));
+  assert.ok(matchesDomainPattern(new URL('http://example.com/blog/post'), path));
+  assert.ok(!matchesDomainPattern(new URL('http://example.com/blogroll'), path));
+});
+
+test('DomainPolicy without patterns allows everything', () => {
+  const policy = new DomainPolicy({ allow: [], deny: [] });
+  policy.check('https://example.com/');
+  assert.ok(policy.allows('https://anything.test/path'));
+});
+
+test('DomainPolicy refuses denied URLs with a typed error', () => {
+  const policy = new DomainPolicy({ allow: [], deny: parseDomainPatterns('*.ads.example.com,example.com/admin') });
+  assert.throws(() => policy.check('https://cdn.ads.example.com/x.js', 'subresource'), (error: unknown) => {
+    assert.ok(error instanceof DomainPolicyError);
+    assert.equal(error.rule, 'denied');
+    assert.equal(error.url, 'https://cdn.ads.example.com/x.js');
+    assert.equal(
+      error.message,
+      'domain-policy:denied (https://cdn.ads.example.com/x.js matches deny pattern "*.ads.example.com")'
+    );
+    return true;
+  });
+  assert.throws(() => policy.check('https://example.com/admin/users'), /domain-policy:denied/);
+  policy.check('https://example.com/about');
+});
+
+test('DomainPolicy limits pages, not subresources, to the allow patterns', () => {
+  const policy = new DomainPolicy({
+    allow: parseDomainPatterns('example.com,*.docs.test'),
+    deny: parseDomainPatterns('private.docs.test'),
+  });
+  policy.check('https://example.com/');
+  policy.check('https://api.docs.test/v1');
+  assert.throws(() => policy.check('https://other.test/'), /domain-policy:not-allowed \(https:\/\/other\.test\/ matches no allow pattern\)/);
+  policy.check('https://cdn.other.test/app.js', 'subresource');
+  // Deny wins over allow
+  assert.throws(() => policy.check('https://private.docs.test/'), /domain-policy:denied/);
+  assert.ok(!policy.allows('https://other.test/'));
+});
+
+test('DomainPolicy leaves non-network and unparseable URLs alone', () => {
+  const policy = new DomainPolicy({ allow: parseDomainPatterns('example.com'), deny: [] });
+  policy.check('data:text/html,hello');
+  policy.check('about:blank');
+  policy.check('not a url');
+});
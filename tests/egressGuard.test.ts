@@ -0,0 +1,205 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import { classifyAddress, EgressBlockedError, EgressGuard, parseEgressAllowlist } from '../src/egressGuard.js';
+
+const NO_ALLOWLIST = parseEgressAllowlist(undefined);
+
+// A resolver backed by a fixed table, counting lookups
+function fakeResolver(table: Record<string, string[]>) {
+  const calls: string[] = [];
+  const resolve = async (hostname: string) => {
+    calls.push(hostname);
+    const addresses = table[hostname];
+    if (!addresses) throw Object.assign(new Error(`getaddrinfo ENOTFOUND ${hostname}`), { code: 'ENOTFOUND' });
+    return addresses;
+  };
+  return { resolve, calls };
+}
+
+test('classifyAddress flags non-public IPv4 ranges', () => {
+  assert.equal(classifyAddress('169.254.169.254'), 'cloud metadata service');
+  assert.equal(classifyAddress('100.100.100.200'), 'cloud metadata service');
+  assert.equal(classifyAddress('127.0.0.1'), 'loopback');
+  assert.equal(classifyAddress('10.1.2.3'), 'private network');
+  assert.equal(classifyAddress('172.31.255.255'), 'private network');
+  assert.equal(classifyAddress('192.168.0.10'), 'private network');
+  assert.equal(classifyAddress('169.254.1.1'), 'link-local');
+  assert.equal(classifyAddress('100.64.0.1'), 'shared address space');
+  assert.equal(classifyAddress('0.0.0.0'), 'unspecified address');
+  assert.equal(classifyAddress('224.0.0.1'), 'multicast');
+
+  assert.equal(classifyAddress('172.32.0.1'), undefined);
+  assert.equal(classifyAddress('8.8.8.8'), undefined);
+  assert.equal(classifyAddress('93.184.216.34'), undefined);
+});
+
+test('classifyAddress flags non-public IPv6 ranges and embedded IPv4', () => {
+  assert.equal(classifyAddress('::1'), 'loopback');
+  assert.equal(classifyAddress('::'), 'unspecified address');
+  assert.equal(classifyAddress('fe80::1%eth0'), 'link-local');
+  assert.equal(classifyAddress('fd12:3456::1'), 'unique local address');
+  assert.equal(classifyAddress('fd00:ec2::254'), 'cloud metadata service');
+  assert.equal(classifyAddress('ff02::1'), 'multicast');
+  assert.equal(classifyAddress('::ffff:127.0.0.1'), 'loopback');
+  assert.equal(classifyAddress('::ffff:a9fe:a9fe'), 'cloud metadata service');
+  assert.equal(classifyAddress('64:ff9b::10.0.0.1'), 'private network');
+  assert.equal(classifyAddress('2002:c0a8:0101::1'), 'private network');
+
+  assert.equal(classifyAddress('2606:4700::6810:84e5'), undefined);
+  assert.equal(classifyAddress('::ffff:8.8.8.8'), undefined);
+  assert.equal(classifyAddress('not-an-ip'), undefined);
+});
+
+test('parseEgressAllowlist reads hosts, addresses and networks', () => {
+  const allowlist = parseEgressAllowlist(' intranet.example.com, *.corp.example.com ,10.0.0.0/8, 192.168.1.5, [fd00::]/8 ');
+  assert.deepEqual(allowlist.hosts, ['intranet.example.com', '*.corp.example.com']);
+  assert.deepEqual(allowlist.networks.map((network) => network.prefix), [8, 32, 8]);
+  assert.throws(() => parseEgressAllowlist('10.0.0.0/33'), /prefix must be 0-32/);
+  assert.throws(() => parseEgressAllowlist('intranet/8'), /Invalid EGRESS_ALLOWLIST network/);
+});
+
+test('EgressGuard refuses literal private addresses and local hostnames', async () => {
+  const guard = new EgressGuard(NO_ALLOWLIST, fakeResolver({}).resolve);
+  await assert.rejects(guard.check('http://169.254.169.254/latest/meta-data/'), (error: unknown) => {
+    assert.ok(error instanceof EgressBlockedError);
+    assert.equal(error.message, 'egress-blocked: 169.254.169.254 (cloud metadata service)');
+    return true;
+  });
+  await assert.rejects(guard.check('http://[::1]:8080/'), /egress-blocked: ::1 \(loopback\)/);
+  // The URL parser normalizes integer and hex forms to dotted quads
+  await assert.rejects(guard.check('http://2130706433/'), /egress-blocked: 127\.0\.0\.1/);
+  await assert.rejects(guard.check('http://0x7f.1/'), /egress-blocked: 127\.0\.0\.1/);
+  await assert.rejects(guard.check('http://localhost:3000/'), /local hostname/);
+  await assert.rejects(guard.check('http://app.localhost/'), /local hostname/);
+  await assert.rejects(guard.check('http://metadata.google.internal./computeMetadata/v1/'), /local hostname/);
+  await assert.rejects(guard.check('file:///etc/passwd'), /file URLs are not allowed/);
+});
+
+test('EgressGuard resolves hostnames and refuses any private answer', async () => {
+  const { resolve } = fakeResolver({
+    'public.example.com': ['93.184.216.34', '2606:2800:220:1::'],
+    'internal.example.com': ['10.0.0.5'],
+    'mixed.example.com': ['93.184.216.34', '127.0.0.1'],
+  });
+  const guard = new EgressGuard(NO_ALLOWLIST, resolve);
+
+  await guard.check('https://public.example.com/page');
+  await assert.rejects(
+    guard.check('https://internal.example.com/'),
+    /egress-blocked: internal\.example\.com \(resolves to 10\.0\.0\.5, private network\)/
+  );
+  await assert.rejects(guard.check('https://mixed.example.com/'), /resolves to 127\.0\.0\.1, loopback/);
+  await assert.rejects(guard.check('wss://internal.example.com/socket'), /private network/);
+});
+
+test('EgressGuard lets through local schemes, bad URLs and unresolvable hosts', async () => {
+  const guard = new EgressGuard(NO_ALLOWLIST, fakeResolver({}).resolve);
+  await guard.check('data:image/png;base64,AAAA');
+  await guard.check('blob:https://example.com/1234');
+  await guard.check('about:blank');
+  await guard.check('not a url');
+  await guard.check('https://does-not-resolve.example/');
+});
+
+test('EgressGuard refuses unresolvable hosts when resolution is required', async () => {
+  const guard = new EgressGuard(NO_ALLOWLIST, fakeResolver({}).resolve);
+  await assert.rejects(
+    guard.check('https://does-not-resolve.example/', { requireResolution: true }),
+    /egress-blocked: does-not-resolve\.example \(does not resolve\)/
+  );
+});
+
+test('EgressGuard honours the allowlist', async () => {
+  const { resolve } = fakeResolver({
+    'wiki.corp.example.com': ['10.1.0.7'],
+    'build.internal.test': ['192.168.1.5'],
+    'other.internal.test': ['192.168.1.6'],
+  });
+  const guard = new EgressGuard(parseEgressAllowlist('*.corp.example.com,192.168.1.5,localhost'), resolve);
+
+  await guard.check('https://wiki.corp.example.com/');
+  await guard.check('https://build.internal.test/');
+  await guard.check('http://localhost:3000/');
+  await assert.rejects(guard.check('https://other.internal.test/'), /192\.168\.1\.6/);
+  await assert.rejects(guard.check('http://127.0.0.1:3000/'), /loopback/);
+});
+
+test('EgressGuard caches lookups for the TTL and retries failed ones', async () => {
+  let now = 0;
+  const { resolve, calls } = fakeResolver({ 'public.example.com': ['93.184.216.34'] });
+  const guard = new EgressGuard(NO_ALLOWLIST, resolve, 1000, () => now);
+
+  await guard.check('https://public.example.com/a');
+  await guard.check('https://public.example.com/b');
+  assert.deepEqual(calls, ['public.example.com']);
+
+  now = 1500;
+  await guard.check('https://public.example.com/c');
+  assert.equal(calls.length, 2);
+
+  await guard.check('https://missing.example.com/');
+  await guard.check('https://missing.example.com/');
+  assert.equal(calls.filter((host) => host === 'missing.example.com').length, 2);
+});
+
+// Run the guard's socket lookup, resolving to its callback arguments
+function runLookup(guard: EgressGuard, hostname: string, options: { family?: number; all?: boolean } = {}) {
+  return new Promise<unknown>((resolve, reject) => {
+    guard.lookup(hostname, options, (error, address, family) => (error ? reject(error) : resolve({ address, family })));
+  });
+}
+
+test('EgressGuard lookup checks the addresses it hands to the socket', async () => {
+  const { resolve, calls } = fakeResolver({
+    'public.example.com': ['93.184.216.34', '2606:2800:220:1::1'],
+    'rebind.example.com': ['93.184.216.34', '10.0.0.5'],
+    'wiki.corp.example.com': ['10.1.0.7'],
+  });
+  const guard = new EgressGuard(parseEgressAllowlist('*.corp.example.com'), resolve);
+
+  assert.deepEqual(await runLookup(guard, 'public.example.com'), { address: '93.184.216.34', family: 4 });
+  assert.deepEqual(await runLookup(guard, 'public.example.com', { family: 6 }), { address: '2606:2800:220:1::1', family: 6 });
+  assert.deepEqual(await runLookup(guard, 'public.example.com', { all: true }), {
+    address: [
+      { address: '93.184.216.34', family: 4 },
+      { address: '2606:2800:220:1::1', family: 6 },
+    ],
+    family: undefined,
+  });
+  await assert.rejects(runLookup(guard, 'rebind.example.com'), EgressBlockedError);
+  assert.deepEqual(await runLookup(guard, 'wiki.corp.example.com'), { address: '10.1.0.7', family: 4 });
+  await assert.rejects(runLookup(guard, 'missing.example.com'), /ENOTFOUND/);
+
+  // Never cached: a rebinding answer is seen on every connection
+  await runLookup(guard, 'public.example.com');
+  assert.equal(calls.filter((host) => host === 'public.example.com').length, 4);
+});
+
+test('EgressGuard lookup stops an agent connecting to a rebound address', async () => {
+  const server = http.createServer((_req, res) => res.end('internal'));
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const get = (guard: EgressGuard) =>
+    new Promise<string>((resolve, reject) => {
+      const agent = new http.Agent({ lookup: guard.lookup });
+      http
+        .get(`http://rebind.example.com:${port}/`, { agent }, (res) => {
+          res.setEncoding('utf8');
+          let body = '';
+          res.on('data', (chunk) => (body += chunk));
+          res.on('end', () => resolve(body));
+        })
+        .on('error', reject);
+    });
+
+  try {
+    const { resolve } = fakeResolver({ 'rebind.example.com': ['127.0.0.1'] });
+    await assert.rejects(get(new EgressGuard(NO_ALLOWLIST, resolve)), /egress-blocked: rebind\.example\.com \(resolves to 127\.0\.0\.1, loopback\)/);
+    assert.equal(await get(new EgressGuard(parseEgressAllowlist('127.0.0.1'), resolve)), 'internal');
+  } finally {
+    server.close();
+  }
+});
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { detectJsRendering, extractTitle, isScrapeEngine } from '../src/fetchEngine.js';
+
+const ARTICLE = `<html><head><title> Docs Page </title></head><body>
+  <main><h1>Install</h1><p>${'Static documentation text that renders without JavaScript. '.repeat(5)}</p></main>
+</body></html>`;
+
+test('isScrapeEngine accepts only the known engines', () => {
+  assert.equal(isScrapeEngine('fetch'), true);
+  assert.equal(isScrapeEngine('auto'), true);
+  assert.equal(isScrapeEngine('browser'), true);
+  assert.equal(isScrapeEngine('chrome'), false);
+  assert.equal(isScrapeEngine(undefined), false);
+});
+
+test('extractTitle reads the document title', () => {
+  assert.equal(extractTitle(ARTICLE), 'Docs Page');
+  assert.equal(extractTitle('<p>no title</p>'), '');
+});
+
+test('detectJsRendering accepts a static page with real content', () => {
+  assert.equal(detectJsRendering(ARTICLE), undefined);
+});
+
+test('detectJsRendering flags an empty SPA shell', () => {
+  const html = '<html><body><div id="root"></div><script src="/bundle.js"></script></body></html>';
+  assert.equal(detectJsRendering(html), 'empty SPA root element');
+});
+
+test('detectJsRendering flags an empty body', () => {
+  assert.equal(detectJsRendering('<html><body>   </body></html>'), 'empty body');
+});
+
+test('detectJsRendering flags a noscript warning', () => {
+  const html = `<body><noscript>You need to enable JavaScript to run this app.</noscript>${ARTICLE}</body>`;
+  assert.equal(detectJsRendering(html), 'noscript warning');
+});
+
+test('detectJsRendering flags a tiny text-to-markup ratio', () => {
+  const markup = '<div class="x"><span class="y"></span></div>'.repeat(400);
+  const html = `<body><p>${'Loading the application shell now. '.repeat(4)}</p>${markup}</body>`;
+  assert.equal(detectJsRendering(html), 'low text-to-markup ratio');
+});
+
+test('detectJsRendering ignores inline script weight on content-rich pages', () => {
+  const state = `<script>window.__STATE__=${JSON.stringify('x'.repeat(100000))}</script>`;
+  const html = `<body><article>${'Server-rendered paragraph. '.repeat(60)}</article>${state}</body>`;
+  assert.equal(detectJsRendering(html), undefined);
+});
@@ -0,0 +1,120 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  applyFingerprint,
+  DEFAULT_FINGERPRINT_ROTATION,
+  FINGERPRINT_PROFILES,
+  fingerprintHeaders,
+  getFingerprintProfile,
+  parseFingerprintProfiles,
+  profileForUserAgent,
+} from '../src/fingerprints.js';
+
+function fakePage() {
+  const calls: Array<[string, ...unknown[]]> = [];
+  const page = {
+    setUserAgent: async (...args: unknown[]) => { calls.push(['setUserAgent', ...args]); },
+    setViewport: async (...args: unknown[]) => { calls.push(['setViewport', ...args]); },
+    emulateTimezone: async (...args: unknown[]) => { calls.push(['emulateTimezone', ...args]); },
+    setExtraHTTPHeaders: async (...args: unknown[]) => { calls.push(['setExtraHTTPHeaders', ...args]); },
+    evaluateOnNewDocument: async (_fn: unknown, ...args: unknown[]) => { calls.push(['evaluateOnNewDocument', ...args]); },
+    _client: () => ({
+      send: async (...args: unknown[]) => { calls.push(['cdp', ...args]); },
+    }),
+  };
+  return { page, calls };
+}
+
+test('every profile is internally consistent', () => {
+  for (const profile of FINGERPRINT_PROFILES) {
+    const mobileUa = /Mobile|iPhone|Android/.test(profile.userAgent);
+    assert.equal(profile.viewport.isMobile, mobileUa, profile.name);
+    assert.equal(profile.viewport.hasTouch, profile.maxTouchPoints > 0, profile.name);
+    assert.equal(profile.languages[0], profile.locale, profile.name);
+    assert.ok(profile.acceptLanguage.startsWith(profile.locale), profile.name);
+    // Only Chromium-based browsers send client hints
+    assert.equal(profile.clientHints !== undefined, /Chrome\//.test(profile.userAgent), profile.name);
+    if (profile.clientHints) assert.equal(profile.clientHints.mobile, mobileUa, profile.name);
+  }
+});
+
+test('parseFingerprintProfiles defaults to the desktop rotation', () => {
+  assert.deepEqual(parseFingerprintProfiles(undefined).map((p) => p.name), DEFAULT_FINGERPRINT_ROTATION);
+  assert.equal(parseFingerprintProfiles('all').length, FINGERPRINT_PROFILES.length);
+});
+
+test('parseFingerprintProfiles selects named profiles and rejects unknown ones', () => {
+  assert.deepEqual(
+    parseFingerprintProfiles(' safari-iphone , chrome-android ').map((p) => p.name),
+    ['safari-iphone', 'chrome-android']
+  );
+  assert.throws(() => parseFingerprintProfiles('netscape'), /Unknown fingerprint profile "netscape"/);
+});
+
+test('parseFingerprintProfiles wraps custom user agents in matching profiles', () => {
+  const iphone =
+    'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+  const [profile] = parseFingerprintProfiles(undefined, [iphone]);
+  assert.equal(profile.userAgent, iphone);
+  assert.equal(profile.name, 'custom:safari-iphone');
+  assert.equal(profile.viewport.isMobile, true);
+  assert.equal(profile.clientHints, undefined);
+});
+
+test('profileForUserAgent aligns client hint versions with the UA', () => {
+  const profile = profileForUserAgent(
+    'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+  );
+  assert.equal(profile.platform, 'MacIntel');
+  assert.equal(profile.clientHints?.platform, 'macOS');
+  assert.deepEqual(
+    profile.clientHints?.brands.map((b) => b.version),
+    ['120', '120', '24']
+  );
+});
+
+test('fingerprintHeaders sends client hints only for Chromium profiles', () => {
+  const chrome = fingerprintHeaders(getFingerprintProfile('chrome-android')!);
+  assert.equal(chrome['Sec-CH-UA-Mobile'], '?1');
+  assert.equal(chrome['Sec-CH-UA-Platform'], '"Android"');
+  assert.match(chrome['Sec-CH-UA'], /"Google Chrome";v="131"/);
+
+  const safari = fingerprintHeaders(getFingerprintProfile('safari-mac')!);
+  assert.deepEqual(Object.keys(safari), ['User-Agent', 'Accept-Language']);
+});
+
+test('applyFingerprint sets every part of the profile on the page', async () => {
+  const profile = getFingerprintProfile('safari-iphone')!;
+  const { page, calls } = fakePage();
+  await applyFingerprint(page, profile);
+
+  const byName = Object.fromEntries(calls.map(([name, ...args]) => [name, args]));
+  assert.deepEqual(byName.setUserAgent, [profile.userAgent, undefined]);
+  assert.deepEqual(byName.setViewport, [profile.viewport]);
+  assert.deepEqual(byName.emulateTimezone, [profile.timezone]);
+  assert.deepEqual(byName.setExtraHTTPHeaders, [{ 'Accept-Language': profile.acceptLanguage }]);
+  assert.deepEqual(byName.cdp, ['Emulation.setLocaleOverride', { locale: 'en-US' }]);
+  assert.deepEqual(byName.evaluateOnNewDocument, [{
+    platform: 'iPhone',
+    vendor: 'Apple Computer, Inc.',
+    languages: ['en-US'],
+    hardwareConcurrency: 4,
+    maxTouchPoints: 5,
+    isMobile: true,
+    chromium: false,
+  }]);
+});
+
+test('applyFingerprint passes client hints metadata and honors a size override', async () => {
+  const profile = getFingerprintProfile('chrome-mac')!;
+  const { page, calls } = fakePage();
+  await applyFingerprint(page, profile, { width: 800, height: 600 });
+
+  const [, , metadata] = calls.find(([name]) => name === 'setUserAgent')!;
+  assert.equal((metadata as any).platform, 'macOS');
+  assert.equal((metadata as any).fullVersion, profile.clientHints!.fullVersion);
+
+  const [, viewport] = calls.find(([name]) => name === 'setViewport')!;
+  assert.deepEqual(viewport, { ...profile.viewport, width: 800, height: 600 });
+});
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { parseFormats, formatScrapeResult } from '../src/formats.js';
+
+const RESULT = {
+  url: 'https://example.com/page',
+  title: 'Example',
+  markdown: '# Hello',
+  content: 'Hello',
+  html: '<html><body><nav><a href="/home">Home</a></nav><main><h1>Hello</h1><a href="/next#x">Next</a></main><script>x()</script></body></html>',
+  engine: 'browser',
+  screenshot: 'data:image/png;base64,AAAA',
+  statusCode: 200,
+  finalUrl: 'https://example.com/page',
+};
+
+test('parseFormats returns undefined when unset and dedupes', () => {
+  assert.equal(parseFormats(undefined), undefined);
+  assert.deepEqual(parseFormats(['markdown', 'links', 'markdown']), ['markdown', 'links']);
+});
+
+test('parseFormats rejects unknown formats and empty lists', () => {
+  assert.throws(() => parseFormats(['markdown', 'pdf']), /Invalid format "pdf"/);
+  assert.throws(() => parseFormats([]), /non-empty array/);
+  assert.throws(() => parseFormats('markdown'), /non-empty array/);
+});
+
+test('formatScrapeResult returns only the requested fields', () => {
+  const output = formatScrapeResult(RESULT, ['markdown', 'text']);
+  assert.deepEqual(output, { markdown: '# Hello', text: 'Hello' });
+});
+
+test('formatScrapeResult builds html, rawHtml, links, metadata and screenshot', () => {
+  const output = formatScrapeResult(
+    RESULT,
+    ['html', 'rawHtml', 'links', 'metadata', 'screenshot'],
+    true
+  );
+  assert.equal(output.rawHtml, RESULT.html);
+  assert.doesNotMatch(output.html as string, /<script|Home/);
+  assert.match(output.html as string, /<h1>Hello<\/h1>/);
+  assert.deepEqual(output.links, ['https://example.com/home', 'https://example.com/next']);
+  assert.deepEqual(output.metadata, {
+    title: 'Example',
+    url: 'https://example.com/page',
+    finalUrl: 'https://example.com/page',
+    statusCode: 200,
+    engine: 'browser',
+  });
+  assert.equal(output.screenshot, RESULT.screenshot);
+});
+
+test('formatScrapeResult resolves links against the final URL of a redirected page', () => {
+  const redirected = { ...RESULT, url: 'https://example.com/page', finalUrl: 'https://www.example.org/docs/page' };
+  const output = formatScrapeResult(redirected, ['html', 'links']);
+  assert.deepEqual(output.links, ['https://www.example.org/home', 'https://www.example.org/next']);
+  assert.match(output.html as string, /href="https:\/\/www\.example\.org\/next/);
+});
+
+test('formatScrapeResult reports blocked requests in the metadata', () => {
+  const output = formatScrapeResult({ ...RESULT, blockedRequests: 12 }, ['metadata']);
+  assert.equal((output.metadata as Record<string, unknown>).blockedRequests, 12);
+});
@@ -1,7 +1,7 @@
 import { test } from 'node:test';
 import assert from 'node:assert/strict';
 
-import { htmlToMarkdown, htmlToText } from '../src/htmlToMarkdown.js';
+import { htmlToMarkdown, htmlToText, cleanHtml } from '../src/htmlToMarkdown.js';
 
 const SAMPLE = `
 <html>
@@ -122,3 +122,10 @@ test('tidy removes empty links and images', () => {
   assert.doesNotMatch(md, /\]\(\s*\)/); // no empty-target links
   assert.match(md, /\[ok\]\(https:\/\/example\.com\/ok\)/);
 });
+
+test('cleanHtml strips noise but keeps markup and absolute links', () => {
+  const html = cleanHtml(SAMPLE, { onlyMainContent: true, baseUrl: 'https://example.com' });
+  assert.match(html, /<h1>Main Title<\/h1>/);
+  assert.match(html, /href="https:\/\/example\.com\/docs"/);
+  assert.doesNotMatch(html, /<script|<style|Copyright/);
+});
@@ -0,0 +1,147 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { JobCancelledError, JobQueue, JobQueueOptions, JobTimeoutError, QueueFullError } from '../src/jobQueue.js';
+
+const OPTIONS: JobQueueOptions = { maxConcurrent: 1, maxQueueDepth: 10, maxQueueDepthPerSession: 10, jobTimeoutMs: 1000 };
+
+// A job that runs until finished by hand, recording when it starts
+function manualJob(name: string, started: string[]) {
+  let finish!: (value: string) => void;
+  let signal!: AbortSignal;
+  const job = (jobSignal: AbortSignal) => {
+    started.push(name);
+    signal = jobSignal;
+    return new Promise<string>((resolve) => { finish = resolve; });
+  };
+  return { job, finish: () => finish(name), signal: () => signal };
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+test('JobQueue runs jobs up to the concurrency limit', async () => {
+  const started: string[] = [];
+  const queue = new JobQueue({ ...OPTIONS, maxConcurrent: 2 });
+  const jobs = ['a', 'b', 'c'].map((name) => manualJob(name, started));
+  const results = jobs.map((job) => queue.run('s', job.job));
+
+  assert.deepEqual(started, ['a', 'b']);
+  assert.equal(queue.stats().running, 2);
+  assert.equal(queue.stats().queued, 1);
+
+  jobs[0].finish();
+  assert.equal(await results[0], 'a');
+  await tick();
+  assert.deepEqual(started, ['a', 'b', 'c']);
+  jobs[1].finish();
+  jobs[2].finish();
+  assert.deepEqual(await Promise.all(results), ['a', 'b', 'c']);
+  assert.equal(queue.stats().completed, 3);
+});
+
+test('JobQueue takes waiting jobs round-robin across sessions', async () => {
+  const started: string[] = [];
+  const queue = new JobQueue(OPTIONS);
+  const first = manualJob('a1', started);
+  const all = [queue.run('a', first.job)];
+  const rest = [manualJob('a2', started), manualJob('a3', started), manualJob('b1', started), manualJob('c1', started)];
+  all.push(queue.run('a', rest[0].job), queue.run('a', rest[1].job), queue.run('b', rest[2].job), queue.run('c', rest[3].job));
+
+  first.finish();
+  for (const job of [rest[0], rest[2], rest[3], rest[1]]) {
+    await tick();
+    job.finish();
+  }
+  await Promise.all(all);
+  assert.deepEqual(started, ['a1', 'a2', 'b1', 'c1', 'a3']);
+});
+
+test('JobQueue refuses jobs past the queue depth limits', async () => {
+  const queue = new JobQueue({ ...OPTIONS, maxQueueDepth: 2, maxQueueDepthPerSession: 1 });
+  const running = manualJob('run', []);
+  const first = queue.run('a', running.job);
+  const waiting = queue.run('a', async () => 'a2');
+  await assert.rejects(queue.run('a', async () => 'a3'), /^QueueFullError: queue-full \(1 jobs waiting for this session\)$/);
+  const other = queue.run('b', async () => 'b1');
+  await assert.rejects(queue.run('c', async () => 'c1'), (error: unknown) => {
+    assert.ok(error instanceof QueueFullError);
+    assert.equal(error.message, 'queue-full (2 jobs waiting)');
+    return true;
+  });
+  assert.equal(queue.stats().rejected, 2);
+
+  running.finish();
+  assert.deepEqual(await Promise.all([first, waiting, other]), ['run', 'a2', 'b1']);
+});
+
+test('JobQueue aborts jobs that run past the timeout but keeps their slot until they settle', async () => {
+  const started: string[] = [];
+  const queue = new JobQueue({ ...OPTIONS, jobTimeoutMs: 10 });
+  const slow = manualJob('slow', started);
+  const next = manualJob('next', started);
+  const slowResult = queue.run('s', slow.job);
+  const nextResult = queue.run('s', next.job);
+
+  await assert.rejects(slowResult, JobTimeoutError);
+  assert.ok(slow.signal().aborted);
+  assert.ok(slow.signal().reason instanceof JobTimeoutError);
+  assert.deepEqual(started, ['slow']);
+  assert.equal(queue.stats().timedOut, 1);
+
+  slow.finish();
+  await tick();
+  assert.deepEqual(started, ['slow', 'next']);
+  next.finish();
+  assert.equal(await nextResult, 'next');
+});
+
+test('JobQueue drops waiting jobs and aborts running ones when the caller cancels', async () => {
+  const started: string[] = [];
+  const queue = new JobQueue(OPTIONS);
+  const running = manualJob('running', started);
+  const runningCaller = new AbortController();
+  const waitingCaller = new AbortController();
+  const first = queue.run('s', running.job, runningCaller.signal);
+  const second = queue.run('s', manualJob('waiting', started).job, waitingCaller.signal);
+
+  waitingCaller.abort();
+  await assert.rejects(second, JobCancelledError);
+  assert.equal(queue.stats().queued, 0);
+
+  runningCaller.abort();
+  await assert.rejects(first, JobCancelledError);
+  assert.ok(running.signal().aborted);
+  assert.deepEqual(started, ['running']);
+
+  await assert.rejects(queue.run('s', async () => 'x', runningCaller.signal), JobCancelledError);
+});
+
+test('JobQueue passes through job errors and reports wait times', async () => {
+  let now = 0;
+  const queue = new JobQueue(OPTIONS, () => now);
+  const blocker = manualJob('blocker', []);
+  const first = queue.run('s', blocker.job);
+  const failing = queue.run('s', async () => { throw new Error('boom'); });
+  now = 300;
+  assert.equal(queue.stats().oldestWaitMs, 300);
+
+  blocker.finish();
+  await first;
+  await assert.rejects(failing, /boom/);
+  const stats = queue.stats();
+  assert.equal(stats.averageWaitMs, 150);
+  assert.equal(stats.oldestWaitMs, 0);
+  assert.equal(stats.running, 0);
+});
+
+test('JobQueue tells each job when it will time out', async () => {
+  let now = 500;
+  const queue = new JobQueue(OPTIONS, () => now);
+  const blocker = manualJob('blocker', []);
+  const first = queue.run('s', blocker.job);
+  const deadline = queue.run('s', async (_signal, jobDeadline) => jobDeadline);
+  now = 800;
+  blocker.finish();
+  await first;
+  assert.equal(await deadline, 800 + OPTIONS.jobTimeoutMs);
+});
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { getFingerprintProfile } from '../src/fingerprints.js';
+import { acceptLanguageHeader, applyGeolocation, applyLocation, parseLocation } from '../src/location.js';
+
+test('parseLocation returns undefined when no location is given', () => {
+  assert.equal(parseLocation(undefined), undefined);
+});
+
+test('parseLocation fills languages and timezone from the country', () => {
+  assert.deepEqual(parseLocation({ country: 'de' }), {
+    country: 'DE',
+    languages: ['de-DE', 'de'],
+    timezone: 'Europe/Berlin',
+  });
+});
+
+test('parseLocation keeps explicit values over country defaults and canonicalizes tags', () => {
+  assert.deepEqual(parseLocation({ country: 'CH', languages: ['FR-ch'], timezone: 'Europe/Zurich' }), {
+    country: 'CH',
+    languages: ['fr-CH'],
+    timezone: 'Europe/Zurich',
+  });
+});
+
+test('parseLocation rejects malformed input', () => {
+  assert.throws(() => parseLocation('DE'), /must be an object/);
+  assert.throws(() => parseLocation({ country: 'Germany' }), /two-letter/);
+  assert.throws(() => parseLocation({ languages: [] }), /non-empty array/);
+  assert.throws(() => parseLocation({ timezone: 'Mars/Olympus_Mons' }), /unknown timezone/);
+  assert.throws(() => parseLocation({ geolocation: { latitude: 91, longitude: 0 } }), /latitude/);
+});
+
+test('acceptLanguageHeader adds base languages with descending q-values', () => {
+  assert.equal(acceptLanguageHeader(['de-DE', 'de']), 'de-DE,de;q=0.9');
+  assert.equal(acceptLanguageHeader(['fr-CH', 'en-US']), 'fr-CH,fr;q=0.9,en-US;q=0.8,en;q=0.7');
+});
+
+test('applyLocation overrides locale, languages, Accept-Language and timezone', () => {
+  const profile = getFingerprintProfile('chrome-windows')!;
+  const located = applyLocation(profile, parseLocation({ country: 'JP' }));
+  assert.equal(located.locale, 'ja-JP');
+  assert.deepEqual(located.languages, ['ja-JP', 'ja']);
+  assert.equal(located.acceptLanguage, 'ja-JP,ja;q=0.9');
+  assert.equal(located.timezone, 'Asia/Tokyo');
+  assert.equal(located.userAgent, profile.userAgent);
+  assert.equal(applyLocation(profile, undefined), profile);
+});
+
+test('applyGeolocation grants the permission to the target origin before setting it', async () => {
+  const calls: unknown[] = [];
+  const page = {
+    browserContext: () => ({
+      overridePermissions: async (origin: string, permissions: string[]) => { calls.push(['permissions', origin, permissions]); },
+    }),
+    setGeolocation: async (geolocation: unknown) => { calls.push(['geolocation', geolocation]); },
+  };
+  await applyGeolocation(page, 'https://maps.example.com/search?q=x', { latitude: 52.52, longitude: 13.4 });
+  assert.deepEqual(calls, [
+    ['permissions', 'https://maps.example.com', ['geolocation']],
+    ['geolocation', { latitude: 52.52, longitude: 13.4 }],
+  ]);
+
+  calls.length = 0;
+  await applyGeolocation(page, 'https://maps.example.com/');
+  assert.deepEqual(calls, []);
+});
@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { extractMetadata } from '../src/metadata.js';
+
+const PAGE = `<!doctype html>
+<html lang="en-GB">
+<head>
+  <title>Widget Review</title>
+  <meta name="Description" content="An in-depth widget review.">
+  <meta name="author" content="Sam Writer">
+  <meta name="keywords" content="widgets, reviews">
+  <link rel="canonical" href="/reviews/widget">
+  <link rel="shortcut icon" href="/favicon.ico">
+  <meta property="og:title" content="Widget Review">
+  <meta property="og:image" content="https://cdn.example.com/w.png">
+  <meta property="og:image:width" content="1200">
+  <meta name="twitter:card" content="summary_large_image">
+  <meta property="article:published_time" content="2026-01-02T03:04:05Z">
+  <script type="application/ld+json">
+    {"@context": "https://schema.org", "@graph": [
+      {"@type": "Article", "headline": "Widget Review", "dateModified": "2026-02-01", "author": {"@type": "Person", "name": "Sam Writer"}}
+    ]}
+  </script>
+  <script type="application/ld+json">{ not valid json</script>
+</head>
+<body>
+  <div itemscope itemtype="https://schema.org/Product">
+    <span itemprop="name">Widget</span>
+    <a itemprop="url" href="/widget">link</a>
+    <div itemprop="offers" itemscope itemtype="https://schema.org/Offer">
+      <meta itemprop="price" content="19.99">
+      <span itemprop="priceCurrency">USD</span>
+    </div>
+  </div>
+</body>
+</html>`;
+
+test('extractMetadata reads standard head metadata', () => {
+  const meta = extractMetadata(PAGE, 'https://example.com/reviews/widget?ref=1');
+  assert.equal(meta.description, 'An in-depth widget review.');
+  assert.equal(meta.author, 'Sam Writer');
+  assert.equal(meta.keywords, 'widgets, reviews');
+  assert.equal(meta.language, 'en-GB');
+  assert.equal(meta.canonicalUrl, 'https://example.com/reviews/widget');
+  assert.equal(meta.favicon, 'https://example.com/favicon.ico');
+  assert.equal(meta.publishedTime, '2026-01-02T03:04:05Z');
+});
+
+test('extractMetadata collects OpenGraph and Twitter tags', () => {
+  const meta = extractMetadata(PAGE);
+  assert.deepEqual(meta.openGraph, {
+    title: 'Widget Review',
+    image: 'https://cdn.example.com/w.png',
+    'image:width': '1200',
+  });
+  assert.deepEqual(meta.twitter, { card: 'summary_large_image' });
+});
+
+test('extractMetadata parses JSON-LD, skipping malformed blocks', () => {
+  const meta = extractMetadata(PAGE);
+  assert.equal(meta.jsonLd?.length, 1);
+  assert.equal(meta.modifiedTime, '2026-02-01'); // from the @graph entity
+});
+
+test('extractMetadata parses nested microdata items', () => {
+  const meta = extractMetadata(PAGE, 'https://example.com/');
+  assert.deepEqual(meta.microdata, [
+    {
+      type: 'https://schema.org/Product',
+      properties: {
+        name: 'Widget',
+        url: 'https://example.com/widget',
+        offers: {
+          type: 'https://schema.org/Offer',
+          properties: { price: '19.99', priceCurrency: 'USD' },
+        },
+      },
+    },
+  ]);
+});
+
+test('extractMetadata keeps the first of repeated OpenGraph and Twitter tags', () => {
+  const html = `<head><meta property="og:title" content="First"><meta property="og:title" content="Second">
+    <meta name="twitter:card" content="summary"><meta name="twitter:card" content="player"></head>`;
+  const meta = extractMetadata(html);
+  assert.deepEqual(meta.openGraph, { title: 'First' });
+  assert.deepEqual(meta.twitter, { card: 'summary' });
+});
+
+test('extractMetadata omits fields that are absent', () => {
+  assert.deepEqual(extractMetadata('<html><body><p>Nothing here</p></body></html>'), {});
+});
+
+test('extractMetadata falls back to OpenGraph description and JSON-LD author', () => {
+  const html = `<head><meta property="og:description" content="OG desc">
+    <script type="application/ld+json">{"@type":"Article","author":"Ada","datePublished":"2025-05-05"}</script></head>`;
+  const meta = extractMetadata(html);
+  assert.equal(meta.description, 'OG desc');
+  assert.equal(meta.author, 'Ada');
+  assert.equal(meta.publishedTime, '2025-05-05');
+});
@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  CapturableResponse,
+  captureNetworkResponses,
+  matchesUrlPattern,
+  parseNetworkCapture,
+  shouldCaptureResponse,
+} from '../src/networkCapture.js';
+
+test('parseNetworkCapture turns true into JSON capture from any URL', () => {
+  assert.equal(parseNetworkCapture(undefined), undefined);
+  assert.equal(parseNetworkCapture(false), undefined);
+  assert.deepEqual(parseNetworkCapture(true), { urlPatterns: [], contentTypes: ['json'], maxResponses: 20 });
+});
+
+test('parseNetworkCapture validates custom options', () => {
+  assert.deepEqual(parseNetworkCapture({ urlPatterns: ['/api/'], contentTypes: ['Application/JSON'], maxResponses: 5 }), {
+    urlPatterns: ['/api/'],
+    contentTypes: ['application/json'],
+    maxResponses: 5,
+  });
+  assert.throws(() => parseNetworkCapture('yes'), /must be a boolean or an object/);
+  assert.throws(() => parseNetworkCapture({ urlPatterns: '/api/' }), /urlPatterns must be an array/);
+  assert.throws(() => parseNetworkCapture({ contentTypes: [] }), /contentTypes must be a non-empty array/);
+  assert.throws(() => parseNetworkCapture({ maxResponses: 1000 }), /maxResponses must be an integer/);
+});
+
+test('matchesUrlPattern treats plain patterns as substrings and * as a wildcard', () => {
+  assert.equal(matchesUrlPattern('https://shop.example.com/api/products?page=2', '/api/'), true);
+  assert.equal(matchesUrlPattern('https://shop.example.com/api/products?page=2', 'https://*.example.com/api/*'), true);
+  assert.equal(matchesUrlPattern('https://cdn.example.org/api/products', 'https://*.example.com/api/*'), false);
+  assert.equal(matchesUrlPattern('https://example.com/graphql', '*graphql'), true);
+});
+
+test('shouldCaptureResponse keeps matching XHR/fetch responses only', () => {
+  const options = parseNetworkCapture({ urlPatterns: ['/api/'] })!;
+  const response = { url: 'https://example.com/api/items', resourceType: 'fetch', status: 200, contentType: 'application/json; charset=utf-8' };
+  assert.equal(shouldCaptureResponse(options, response), true);
+  assert.equal(shouldCaptureResponse(options, { ...response, resourceType: 'script' }), false);
+  assert.equal(shouldCaptureResponse(options, { ...response, contentType: 'text/html' }), false);
+  assert.equal(shouldCaptureResponse(options, { ...response, url: 'https://example.com/track' }), false);
+  assert.equal(shouldCaptureResponse(options, { ...response, status: 302 }), false);
+});
+
+function fakeResponse(url: string, body: string | Error, contentType = 'application/json', resourceType = 'xhr'): CapturableResponse {
+  return {
+    url: () => url,
+    status: () => 200,
+    headers: () => ({ 'content-type': contentType }),
+    request: () => ({ method: () => 'GET', resourceType: () => resourceType }),
+    text: () => (body instanceof Error ? Promise.reject(body) : Promise.resolve(body)),
+  };
+}
+
+test('captureNetworkResponses records parsed bodies in arrival order up to the limit', async () => {
+  let handler: ((response: CapturableResponse) => void) | undefined;
+  const page = { on: (_event: 'response', listener: (response: CapturableResponse) => void) => { handler = listener; } };
+  const capture = captureNetworkResponses(page, { urlPatterns: [], contentTypes: ['json', 'text/plain'], maxResponses: 3 });
+
+  handler!(fakeResponse('https://example.com/api/a', '{"items":[1,2]}'));
+  handler!(fakeResponse('https://example.com/page.css', 'body{}', 'text/css', 'stylesheet'));
+  // Unreadable and oversized bodies do not use up the limit
+  handler!(fakeResponse('https://example.com/api/gone', new Error('No resource with given identifier found')));
+  handler!(fakeResponse('https://example.com/api/huge', `"${'x'.repeat(1_000_001)}"`));
+  handler!(fakeResponse('https://example.com/api/b', 'not json', 'text/plain'));
+  handler!(fakeResponse('https://example.com/api/c', '{}'));
+  handler!(fakeResponse('https://example.com/api/d', '{}'));
+
+  assert.deepEqual(await capture.collect(), [
+    { url: 'https://example.com/api/a', method: 'GET', status: 200, contentType: 'application/json', body: { items: [1, 2] } },
+    { url: 'https://example.com/api/b', method: 'GET', status: 200, contentType: 'text/plain', body: 'not json' },
+    { url: 'https://example.com/api/c', method: 'GET', status: 200, contentType: 'application/json', body: {} },
+  ]);
+
+  // Once the limit is reached, later responses are not read at all
+  let read = false;
+  handler!({ ...fakeResponse('https://example.com/api/e', '{}'), text: async () => { read = true; return '{}'; } });
+  assert.equal(read, false);
+});
+
+test('captureNetworkResponses marks responses past the total size cap as truncated', async () => {
+  let handler: ((response: CapturableResponse) => void) | undefined;
+  const page = { on: (_event: 'response', listener: (response: CapturableResponse) => void) => { handler = listener; } };
+  const capture = captureNetworkResponses(page, { urlPatterns: [], contentTypes: ['json'], maxResponses: 10 }, 30);
+
+  handler!(fakeResponse('https://example.com/api/a', '{"items":[1,2,3,4,5]}'));
+  await capture.collect();
+  handler!(fakeResponse('https://example.com/api/b', '{"items":[6,7,8,9,10]}'));
+  await capture.collect();
+  handler!(fakeResponse('https://example.com/api/c', '{}'));
+
+  assert.deepEqual(await capture.collect(), [
+    { url: 'https://example.com/api/a', method: 'GET', status: 200, contentType: 'application/json', body: { items: [1, 2, 3, 4, 5] } },
+    { url: 'https://example.com/api/b', method: 'GET', status: 200, contentType: 'application/json', truncated: true },
+    { url: 'https://example.com/api/c', method: 'GET', status: 200, contentType: 'application/json', truncated: true },
+  ]);
+});
@@ -0,0 +1,182 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { followPagination, joinPages, parsePagination, parseScroll, scrollToEnd } from '../src/pagination.js';
+
+const settle = async () => {};
+
+test('parseScroll applies defaults and validates limits', () => {
+  assert.equal(parseScroll(undefined), undefined);
+  assert.equal(parseScroll(false), undefined);
+  assert.deepEqual(parseScroll(true), { maxScrolls: 10, maxTimeMs: 30000 });
+  assert.deepEqual(parseScroll({ maxScrolls: 5, itemSelector: '.post', maxItems: 50 }), {
+    maxScrolls: 5,
+    maxTimeMs: 30000,
+    itemSelector: '.post',
+    maxItems: 50,
+  });
+  assert.throws(() => parseScroll({ maxScrolls: 0 }), /maxScrolls must be an integer/);
+  assert.throws(() => parseScroll({ maxItems: 10 }), /maxItems requires itemSelector/);
+  assert.throws(() => parseScroll('forever'), /must be a boolean or an object/);
+});
+
+test('parsePagination applies defaults and validates limits', () => {
+  assert.equal(parsePagination(undefined), undefined);
+  assert.deepEqual(parsePagination({}), { maxPages: 5 });
+  assert.deepEqual(parsePagination({ maxPages: 3, nextSelector: 'a.next' }), { maxPages: 3, nextSelector: 'a.next' });
+  assert.throws(() => parsePagination({ maxPages: 100 }), /maxPages must be an integer between 1 and 20/);
+  assert.throws(() => parsePagination({ nextSelector: '' }), /nextSelector must be a non-empty CSS selector/);
+});
+
+// Each scroll grows the page by the next entry of `growth` (0 = nothing loaded).
+function feedPage(growth: number[], itemsPerScroll = 10) {
+  let height = 1000;
+  let items = itemsPerScroll;
+  let scrolls = 0;
+  return {
+    async evaluate(_fn: unknown, ...args: unknown[]) {
+      if (args.length === 0) {
+        const grow = growth[scrolls++] ?? 0;
+        height += grow;
+        if (grow > 0) items += itemsPerScroll;
+        return undefined;
+      }
+      return { height, items: args[0] ? items : 0 };
+    },
+  };
+}
+
+test('scrollToEnd stops once the feed stops growing', async () => {
+  const result = await scrollToEnd(feedPage([500, 500, 0, 0]), { maxScrolls: 10, maxTimeMs: 30000 }, settle);
+  assert.deepEqual(result, { scrolls: 4, stoppedBy: 'no-new-content' });
+});
+
+test('scrollToEnd stops at the scroll and item limits', async () => {
+  const endless = Array(50).fill(500);
+  assert.deepEqual(await scrollToEnd(feedPage(endless), { maxScrolls: 3, maxTimeMs: 30000 }, settle), {
+    scrolls: 3,
+    stoppedBy: 'max-scrolls',
+  });
+  assert.deepEqual(
+    await scrollToEnd(feedPage(endless), { maxScrolls: 10, maxTimeMs: 30000, itemSelector: '.post', maxItems: 25 }, settle),
+    { scrolls: 2, items: 30, stoppedBy: 'max-items' }
+  );
+});
+
+test('scrollToEnd stops when the time budget runs out', async () => {
+  let now = 0;
+  const result = await scrollToEnd(
+    feedPage(Array(50).fill(500)),
+    { maxScrolls: 50, maxTimeMs: 5000 },
+    async () => { now += 2000; },
+    () => now
+  );
+  assert.deepEqual(result, { scrolls: 3, stoppedBy: 'time' });
+});
+
+test('scrollToEnd stops at the deadline before the time budget runs out', async () => {
+  let now = 0;
+  const result = await scrollToEnd(
+    feedPage(Array(50).fill(500)),
+    { maxScrolls: 50, maxTimeMs: 120000 },
+    async () => { now += 2000; },
+    () => now,
+    5000
+  );
+  assert.deepEqual(result, { scrolls: 3, stoppedBy: 'time' });
+});
+
+// A paginated listing: page n links to page n+1 via rel=next until `last`.
+function listingPage(last: number, options: { loopBackAt?: number } = {}) {
+  let current = 1;
+  const calls: string[] = [];
+  const urlOf = (n: number) => `https://example.com/list?page=${n}`;
+  return {
+    calls,
+    url: () => urlOf(current),
+    content: async () => `<html><body>page ${current}</body></html>`,
+    async evaluate() {
+      if (current >= last) return null;
+      const next = options.loopBackAt === current ? 1 : current + 1;
+      return { href: urlOf(next) };
+    },
+    async goto(url: string) {
+      calls.push(`goto ${url}`);
+      current = Number(new URL(url).searchParams.get('page'));
+    },
+  };
+}
+
+test('followPagination follows rel=next links up to maxPages', async () => {
+  const page = listingPage(10);
+  const result = await followPagination(page, { maxPages: 3 }, settle, () => true);
+  assert.equal(result.stoppedBy, 'max-pages');
+  assert.deepEqual(result.pages.map((p) => p.url), ['https://example.com/list?page=2', 'https://example.com/list?page=3']);
+  assert.equal(result.pages[1].html, '<html><body>page 3</body></html>');
+});
+
+test('followPagination stops on the last page and on loops', async () => {
+  assert.equal((await followPagination(listingPage(2), { maxPages: 5 }, settle, () => true)).stoppedBy, 'no-next');
+  const looping = await followPagination(listingPage(10, { loopBackAt: 2 }), { maxPages: 5 }, settle, () => true);
+  assert.equal(looping.stoppedBy, 'loop');
+  assert.equal(looping.pages.length, 1);
+});
+
+test('followPagination clicks a next button and stops when the page stops changing', async () => {
+  let page = 1;
+  const clicks: string[] = [];
+  const fake = {
+    url: () => 'https://example.com/feed',
+    content: async () => `<html><body>page ${page}</body></html>`,
+    evaluate: async () => ({ href: null }),
+    waitForNavigation: async () => { throw new Error('Navigation timeout of 3000 ms exceeded'); },
+    async click(selector: string) {
+      clicks.push(selector);
+      if (page < 3) page++;
+    },
+  };
+  const result = await followPagination(fake, { maxPages: 10, nextSelector: 'button.next' }, settle, () => true);
+  assert.equal(result.stoppedBy, 'unchanged');
+  assert.equal(result.pages.length, 2);
+  assert.deepEqual(clicks, ['button.next', 'button.next', 'button.next']);
+});
+
+test('followPagination keeps the pages collected before a failure', async () => {
+  const page = listingPage(10);
+  const goto = page.goto;
+  page.goto = async (url: string) => {
+    if (url.endsWith('page=3')) throw new Error('net::ERR_CONNECTION_RESET');
+    await goto(url);
+  };
+  const result = await followPagination(page, { maxPages: 5 }, settle, () => true);
+  assert.equal(result.stoppedBy, 'error');
+  assert.equal(result.error, 'net::ERR_CONNECTION_RESET');
+  assert.equal(result.pages.length, 1);
+});
+
+test('followPagination returns the pages loaded so far at the deadline', async () => {
+  let now = 0;
+  const page = listingPage(10);
+  const goto = page.goto;
+  const timeouts: number[] = [];
+  const fake = Object.assign(page, {
+    async goto(url: string, options: { timeout: number }) {
+      timeouts.push(options.timeout);
+      await goto(url);
+    },
+  });
+  const result = await followPagination(fake, { maxPages: 10 }, async () => { now += 10000; }, () => true, 15000, () => now);
+  assert.equal(result.stoppedBy, 'time');
+  assert.equal(result.pages.length, 2);
+  // Navigation timeouts are cut to the time left
+  assert.deepEqual(timeouts, [15000, 5000]);
+});
+
+test('joinPages separates later pages with their URL', () => {
+  const parts = [
+    { url: 'https://example.com/list?page=1', text: '# Page one' },
+    { url: 'https://example.com/list?page=2', text: '# Page two' },
+  ];
+  assert.equal(joinPages(parts, 'markdown'), '# Page one\n\n---\n\n<!-- Page 2: https://example.com/list?page=2 -->\n\n# Page two');
+  assert.equal(joinPages(parts, 'text'), '# Page one\n\n--- Page 2: https://example.com/list?page=2 ---\n\n# Page two');
+});
@@ -0,0 +1,161 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  MemoryRateLimitStore,
+  parseRateLimitConfig,
+  RateLimitConfig,
+  RateLimiter,
+  RateLimitError,
+} from '../src/rateLimit.js';
+import { crawlSite } from '../src/crawler.js';
+
+const NO_LIMITS: RateLimitConfig = { requestsPerMinute: 0, maxConcurrent: 0, dailyPages: 0, dailyLlmTokens: 0 };
+
+// A limiter on a fake clock starting 10 seconds into a minute
+function limiter(config: Partial<RateLimitConfig>) {
+  const clock = { now: 10_000 };
+  const now = () => clock.now;
+  return { clock, limiter: new RateLimiter({ ...NO_LIMITS, ...config }, new MemoryRateLimitStore(now), now) };
+}
+
+function isLimit(kind: string, retryAfterSeconds: number) {
+  return (error: unknown) => {
+    assert.ok(error instanceof RateLimitError);
+    assert.equal(error.kind, kind);
+    assert.equal(error.retryAfterSeconds, retryAfterSeconds);
+    return true;
+  };
+}
+
+test('parseRateLimitConfig reads limits and the client header', () => {
+  assert.deepEqual(parseRateLimitConfig({}), { ...NO_LIMITS, clientHeader: undefined });
+  assert.deepEqual(
+    parseRateLimitConfig({
+      RATE_LIMIT_REQUESTS_PER_MINUTE: '30',
+      RATE_LIMIT_MAX_CONCURRENT: '2',
+      RATE_LIMIT_DAILY_PAGES: '1000',
+      RATE_LIMIT_DAILY_LLM_TOKENS: '',
+      RATE_LIMIT_CLIENT_HEADER: ' X-Client-Id ',
+    }),
+    { requestsPerMinute: 30, maxConcurrent: 2, dailyPages: 1000, dailyLlmTokens: 0, clientHeader: 'x-client-id' }
+  );
+  assert.throws(() => parseRateLimitConfig({ RATE_LIMIT_DAILY_PAGES: '-1' }), /Invalid RATE_LIMIT_DAILY_PAGES "-1"/);
+  assert.throws(() => parseRateLimitConfig({ RATE_LIMIT_MAX_CONCURRENT: 'two' }), /whole number/);
+});
+
+test('RateLimiter is disabled without limits', () => {
+  assert.equal(new RateLimiter(NO_LIMITS).enabled, false);
+  assert.equal(new RateLimiter({ ...NO_LIMITS, dailyPages: 1 }).enabled, true);
+});
+
+test('RateLimiter limits requests per minute and per client', async () => {
+  const { clock, limiter: rateLimiter } = limiter({ requestsPerMinute: 2 });
+  await rateLimiter.admit('a');
+  await rateLimiter.admit('a');
+  await assert.rejects(rateLimiter.admit('a'), isLimit('requests', 50));
+  await rateLimiter.admit('b');
+
+  // Refused calls do not count, and the next window starts afresh
+  clock.now = 59_500;
+  await assert.rejects(rateLimiter.admit('a'), isLimit('requests', 1));
+  clock.now = 60_000;
+  await rateLimiter.admit('a');
+  await rateLimiter.admit('a');
+});
+
+test('RateLimiter limits concurrent calls until they are released', async () => {
+  const { limiter: rateLimiter } = limiter({ maxConcurrent: 1, requestsPerMinute: 10 });
+  const release = await rateLimiter.admit('a');
+  await assert.rejects(rateLimiter.admit('a'), (error: unknown) => {
+    assert.ok(error instanceof RateLimitError);
+    assert.equal(
+      error.message,
+      'rate-limited:concurrency (limit of 1 concurrent tool calls reached; retry after 5s)'
+    );
+    return true;
+  });
+  await release();
+  await rateLimiter.admit('a');
+});
+
+test('RateLimiter admits only the allowed number of concurrent calls fired at once', async () => {
+  const { limiter: rateLimiter } = limiter({ maxConcurrent: 2, requestsPerMinute: 3 });
+  const outcomes = await Promise.allSettled([1, 2, 3, 4].map(() => rateLimiter.admit('c')));
+  assert.equal(outcomes.filter((outcome) => outcome.status === 'fulfilled').length, 2);
+  assert.ok(
+    outcomes.every((outcome) => outcome.status === 'fulfilled' || (outcome.reason as RateLimitError).kind === 'concurrency')
+  );
+});
+
+test('RateLimiter counts requests fired at once against the per-minute limit', async () => {
+  const { limiter: rateLimiter } = limiter({ requestsPerMinute: 3 });
+  const outcomes = await Promise.allSettled([1, 2, 3, 4, 5].map(() => rateLimiter.admit('c')));
+  assert.equal(outcomes.filter((outcome) => outcome.status === 'fulfilled').length, 3);
+});
+
+test('RateLimiter frees the concurrency slot of a call refused per minute', async () => {
+  const { limiter: rateLimiter } = limiter({ maxConcurrent: 1, requestsPerMinute: 1 });
+  await (await rateLimiter.admit('a'))();
+  await assert.rejects(rateLimiter.admit('a'), isLimit('requests', 50));
+  // Still one free slot: the refusal above came from the per-minute limit
+  await assert.rejects(rateLimiter.admit('a'), isLimit('requests', 50));
+});
+
+test('RateLimiter counts pages against a daily budget', async () => {
+  const { clock, limiter: rateLimiter } = limiter({ dailyPages: 2 });
+  await rateLimiter.admit('a', { pages: true });
+  await rateLimiter.consumePages('a');
+  await rateLimiter.consumePages('a');
+  const untilMidnight = 24 * 60 * 60 - 10;
+  await assert.rejects(rateLimiter.consumePages('a'), isLimit('pages', untilMidnight));
+  await assert.rejects(rateLimiter.admit('a', { pages: true }), isLimit('pages', untilMidnight));
+  // Tools that load no pages are still admitted
+  await rateLimiter.admit('a');
+
+  clock.now = 24 * 60 * 60 * 1000;
+  await rateLimiter.admit('a', { pages: true });
+  await rateLimiter.consumePages('a');
+});
+
+test('A page budget spent mid-crawl fails the crawl with the rate-limit error', async () => {
+  const { limiter: rateLimiter } = limiter({ dailyPages: 2 });
+  await rateLimiter.admit('a', { pages: true });
+  const visited: string[] = [];
+  const crawl = crawlSite('https://example.com/', { maxDepth: 1 }, async (url) => {
+    // Pages are charged as they load, the way the scrape tools do
+    await rateLimiter.consumePages('a');
+    visited.push(url);
+    return { result: url, html: '<a href="/a">A</a><a href="/b">B</a>' };
+  });
+  await assert.rejects(crawl, isLimit('pages', 24 * 60 * 60 - 10));
+  assert.deepEqual(visited, ['https://example.com/', 'https://example.com/a']);
+});
+
+test('RateLimiter refuses LLM calls once the token budget is spent', async () => {
+  const { limiter: rateLimiter } = limiter({ dailyLlmTokens: 1000 });
+  await rateLimiter.admit('a', { llmTokens: true });
+  await rateLimiter.recordLlmTokens('a', 600);
+  await rateLimiter.admit('a', { llmTokens: true });
+  // Tokens already spent are counted even past the budget
+  await rateLimiter.recordLlmTokens('a', 600);
+  await assert.rejects(rateLimiter.admit('a', { llmTokens: true }), isLimit('llm-tokens', 24 * 60 * 60 - 10));
+  await rateLimiter.admit('b', { llmTokens: true });
+});
+
+test('MemoryRateLimitStore applies concurrent adds without losing updates', async () => {
+  const store = new MemoryRateLimitStore(() => 0);
+  const values = await Promise.all([1, 2, 3, 4].map(() => store.add('k', 1, 1000)));
+  assert.deepEqual([...values].sort(), [1, 2, 3, 4]);
+  assert.equal(await store.get('k'), 4);
+});
+
+test('MemoryRateLimitStore expires counters', async () => {
+  let now = 0;
+  const store = new MemoryRateLimitStore(() => now);
+  assert.equal(await store.add('k', 2, 1000), 2);
+  assert.equal(await store.add('k', -1, 1000), 1);
+  now = 1000;
+  assert.equal(await store.get('k'), 0);
+  assert.equal(await store.add('k', 1, 2000), 1);
+});
@@ -0,0 +1,144 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  BLOCK_RESOURCES_PRESETS,
+  enableResourceBlocking,
+  InterceptableRequest,
+  isBlockingEnabled,
+  parseBlockResources,
+  parseBlockResourcesConfig,
+  shouldBlockRequest,
+} from '../src/resourceBlocking.js';
+
+test('parseBlockResources accepts presets and custom objects', () => {
+  assert.equal(parseBlockResources(undefined), undefined);
+  assert.deepEqual(parseBlockResources('media'), BLOCK_RESOURCES_PRESETS.media);
+  assert.deepEqual(parseBlockResources({ types: ['font', 'font'], domains: ['*.Ads.example.com'] }), {
+    types: ['font'],
+    trackers: false,
+    domains: ['ads.example.com'],
+  });
+});
+
+test('parseBlockResources rejects unknown presets and types', () => {
+  assert.throws(() => parseBlockResources('everything'), /Unknown blockResources preset "everything"/);
+  assert.throws(() => parseBlockResources({ types: ['script'] }), /types must be drawn from/);
+  assert.throws(() => parseBlockResources({ trackers: 'yes' }), /trackers must be a boolean/);
+  assert.throws(() => parseBlockResources({ domains: 'ads.example.com' }), /domains must be an array/);
+});
+
+test('parseBlockResourcesConfig reads the env preset and extra domains', () => {
+  assert.deepEqual(parseBlockResourcesConfig(undefined, undefined), BLOCK_RESOURCES_PRESETS.none);
+  assert.deepEqual(parseBlockResourcesConfig('bogus', undefined), BLOCK_RESOURCES_PRESETS.none);
+  assert.deepEqual(parseBlockResourcesConfig('trackers', 'cdn.example.com, .ads.example.org'), {
+    types: [],
+    trackers: true,
+    domains: ['cdn.example.com', 'ads.example.org'],
+  });
+  assert.equal(isBlockingEnabled(parseBlockResourcesConfig('none', '')), false);
+  assert.equal(isBlockingEnabled(parseBlockResourcesConfig('none', 'cdn.example.com')), true);
+});
+
+test('shouldBlockRequest blocks by type and by tracker or listed domain', () => {
+  const blocking = { ...BLOCK_RESOURCES_PRESETS.media, domains: ['widgets.example.com'] };
+  const request = (url: string, resourceType: string, isMainDocument = false) => ({ url, resourceType, isMainDocument });
+
+  assert.equal(shouldBlockRequest(blocking, request('https://example.com/a.png', 'image')), true);
+  assert.equal(shouldBlockRequest(blocking, request('https://example.com/site.css', 'stylesheet')), false);
+  assert.equal(shouldBlockRequest(blocking, request('https://www.google-analytics.com/g/collect', 'xhr')), true);
+  assert.equal(shouldBlockRequest(blocking, request('https://cdn.widgets.example.com/w.js', 'script')), true);
+  assert.equal(shouldBlockRequest(blocking, request('https://example.com/app.js', 'script')), false);
+  assert.equal(shouldBlockRequest(blocking, request('https://notdoubleclick.net/x.js', 'script')), false);
+});
+
+test('shouldBlockRequest never blocks the main document', () => {
+  const blocking = { types: [], trackers: false, domains: ['example.com'] };
+  assert.equal(shouldBlockRequest(blocking, { url: 'https://example.com/', resourceType: 'document', isMainDocument: true }), false);
+  assert.equal(shouldBlockRequest(blocking, { url: 'https://example.com/frame', resourceType: 'document', isMainDocument: false }), true);
+});
+
+test('enableResourceBlocking intercepts requests and counts the aborted ones', async () => {
+  const mainFrame = {};
+  let handler: ((request: InterceptableRequest) => void) | undefined;
+  let interception = false;
+  const page = {
+    setRequestInterception: async (enabled: boolean) => { interception = enabled; },
+    on: (_event: 'request', listener: (request: InterceptableRequest) => void) => { handler = listener; },
+    mainFrame: () => mainFrame,
+  };
+  const outcomes: string[] = [];
+  const fakeRequest = (url: string, resourceType: string, navigation = false): InterceptableRequest => ({
+    url: () => url,
+    resourceType: () => resourceType,
+    isNavigationRequest: () => navigation,
+    frame: () => mainFrame,
+    abort: async () => { outcomes.push(`abort ${url}`); },
+    continue: async () => { outcomes.push(`continue ${url}`); },
+  });
+
+  const stats = await enableResourceBlocking(page, BLOCK_RESOURCES_PRESETS.media);
+  handler!(fakeRequest('https://example.com/', 'document', true));
+  handler!(fakeRequest('https://example.com/hero.jpg', 'image'));
+  handler!(fakeRequest('https://example.com/font.woff2', 'font'));
+  handler!(fakeRequest('https://example.com/api/items', 'fetch'));
+
+  assert.equal(interception, true);
+  assert.equal(stats.blocked, 2);
+  assert.deepEqual(outcomes, [
+    'continue https://example.com/',
+    'abort https://example.com/hero.jpg',
+    'abort https://example.com/font.woff2',
+    'continue https://example.com/api/items',
+  ]);
+});
+
+test('enableResourceBlocking aborts requests the request check refuses', async () => {
+  const mainFrame = {};
+  let handler: ((request: InterceptableRequest) => void) | undefined;
+  const page = {
+    setRequestInterception: async () => {},
+    on: (_event: 'request', listener: (request: InterceptableRequest) => void) => { handler = listener; },
+    mainFrame: () => mainFrame,
+  };
+  const outcomes: string[] = [];
+  const fakeRequest = (url: string, resourceType: string, navigation = false): InterceptableRequest => ({
+    url: () => url,
+    resourceType: () => resourceType,
+    isNavigationRequest: () => navigation,
+    frame: () => mainFrame,
+    abort: async (errorCode?: string) => { outcomes.push(`abort ${url} ${errorCode}`); },
+    continue: async () => { outcomes.push(`continue ${url}`); },
+  });
+  const refused = new Error('egress-blocked: 10.0.0.1 (private network)');
+  const checked: string[] = [];
+  const checkRequest = async (url: string, isMainDocument: boolean) => {
+    checked.push(`${isMainDocument ? 'page' : 'subresource'} ${url}`);
+    if (url.includes('10.0.0.1')) throw refused;
+  };
+
+  const stats = await enableResourceBlocking(page, BLOCK_RESOURCES_PRESETS.trackers, checkRequest);
+  handler!(fakeRequest('https://example.com/', 'document', true));
+  handler!(fakeRequest('http://10.0.0.1/pixel.gif', 'image'));
+  handler!(fakeRequest('https://www.google-analytics.com/collect', 'xhr'));
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.equal(stats.navigationError, undefined);
+
+  handler!(fakeRequest('http://10.0.0.1/admin', 'document', true));
+  await new Promise((resolve) => setImmediate(resolve));
+
+  assert.equal(stats.blocked, 1);
+  assert.equal(stats.navigationError, refused);
+  assert.deepEqual(outcomes, [
+    'abort https://www.google-analytics.com/collect blockedbyclient',
+    'continue https://example.com/',
+    'abort http://10.0.0.1/pixel.gif accessdenied',
+    'abort http://10.0.0.1/admin accessdenied',
+  ]);
+  // Blocked requests are never checked
+  assert.deepEqual(checked, [
+    'page https://example.com/',
+    'subresource http://10.0.0.1/pixel.gif',
+    'page http://10.0.0.1/admin',
+  ]);
+});
@@ -0,0 +1,144 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  classifyError,
+  computeBackoffDelay,
+  HttpStatusError,
+  parseRetryAfter,
+  withRetry,
+} from '../src/retry.js';
+import { UnsupportedProxyError } from '../src/proxyManager.js';
+
+const CONFIG = { maxAttempts: 3, initialDelay: 1000, maxDelay: 10000, backoffFactor: 2 };
+
+function axiosLikeError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`Request failed with status code ${status}`), {
+    response: { status, headers },
+  });
+}
+
+test('parseRetryAfter reads delta-seconds and HTTP dates', () => {
+  assert.equal(parseRetryAfter('5'), 5000);
+  const now = Date.parse('Mon, 19 Oct 2026 10:00:00 GMT');
+  assert.equal(parseRetryAfter('Mon, 19 Oct 2026 10:00:03 GMT', now), 3000);
+  assert.equal(parseRetryAfter('Mon, 19 Oct 2026 09:00:00 GMT', now), 0);
+  assert.equal(parseRetryAfter('soon'), undefined);
+  assert.equal(parseRetryAfter(undefined), undefined);
+});
+
+test('classifyError retries 429 and 5xx but not 400 or 401', () => {
+  assert.equal(classifyError(axiosLikeError(429)).retryable, true);
+  assert.equal(classifyError(axiosLikeError(503)).retryable, true);
+  assert.equal(classifyError(axiosLikeError(400)).retryable, false);
+  assert.equal(classifyError(axiosLikeError(401)).retryable, false);
+  assert.equal(classifyError(new HttpStatusError(404, 'HTTP 404')).retryable, false);
+});
+
+test('classifyError picks up Retry-After from responses and HttpStatusError', () => {
+  assert.equal(classifyError(axiosLikeError(429, { 'retry-after': '2' })).retryAfterMs, 2000);
+  assert.equal(classifyError(new HttpStatusError(503, 'HTTP 503', '4')).retryAfterMs, 4000);
+});
+
+test('classifyError retries timeouts and proxy/connection failures', () => {
+  assert.equal(classifyError(Object.assign(new Error('timeout of 30000ms exceeded'), { code: 'ECONNABORTED' })).retryable, true);
+  assert.equal(classifyError(new Error('Navigation timeout of 30000 ms exceeded')).retryable, true);
+  assert.equal(classifyError(new Error('net::ERR_PROXY_CONNECTION_FAILED at https://example.com')).retryable, true);
+  assert.equal(classifyError(Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' })).retryable, true);
+});
+
+test('classifyError does not retry invalid URLs or unresolvable hosts', () => {
+  assert.equal(classifyError(new Error('Invalid URL format. Only HTTP and HTTPS URLs are allowed.')).retryable, false);
+  assert.equal(classifyError(new Error('net::ERR_NAME_NOT_RESOLVED at https://nope.invalid')).retryable, false);
+});
+
+test('classifyError does not retry targets refused by the egress guard', () => {
+  assert.equal(classifyError(new Error('egress-blocked: 169.254.169.254 (cloud metadata service)')).retryable, false);
+  assert.equal(classifyError(new Error('net::ERR_ACCESS_DENIED at http://10.0.0.1/')).retryable, false);
+});
+
+test('classifyError does not retry targets refused by the domain policy', () => {
+  assert.equal(classifyError(new Error('domain-policy:not-allowed (https://example.com/ matches no allow pattern)')).retryable, false);
+});
+
+test('classifyError does not retry jobs the job queue refused or aborted', () => {
+  assert.equal(classifyError(new Error('queue-full (100 jobs waiting)')).retryable, false);
+  assert.equal(classifyError(new Error('job-timeout (no result after 120000ms)')).retryable, false);
+  assert.equal(classifyError(new Error('job-cancelled (the request was cancelled)')).retryable, false);
+});
+
+test('classifyError does not retry proxies the engine cannot use', () => {
+  const error = new UnsupportedProxyError('Chrome does not support authenticated SOCKS proxies');
+  assert.equal(error.message, 'proxy-unsupported: Chrome does not support authenticated SOCKS proxies');
+  assert.equal(classifyError(error).retryable, false);
+});
+
+test('classifyError retries blocked pages', () => {
+  assert.deepEqual(classifyError(new Error('blocked:cloudflare (Cloudflare challenge page)')), {
+    retryable: true,
+    reason: 'blocked:cloudflare (Cloudflare challenge page)',
+  });
+});
+
+test('computeBackoffDelay grows exponentially with equal jitter and a cap', () => {
+  assert.equal(computeBackoffDelay(1, CONFIG, () => 0), 500);
+  assert.equal(computeBackoffDelay(1, CONFIG, () => 1), 1000);
+  assert.equal(computeBackoffDelay(3, CONFIG, () => 1), 4000);
+  assert.equal(computeBackoffDelay(10, CONFIG, () => 1), 10000);
+});
+
+test('withRetry retries transient failures and returns the eventual result', async () => {
+  const delays: number[] = [];
+  let calls = 0;
+  const result = await withRetry(
+    async (attempt) => {
+      calls++;
+      if (attempt < 3) throw new Error('socket hang up');
+      return 'ok';
+    },
+    CONFIG,
+    { sleep: async (ms) => { delays.push(ms); }, random: () => 1 }
+  );
+  assert.equal(result, 'ok');
+  assert.equal(calls, 3);
+  assert.deepEqual(delays, [1000, 2000]);
+});
+
+test('withRetry stops immediately on a non-retryable error', async () => {
+  let calls = 0;
+  const error = axiosLikeError(401);
+  await assert.rejects(
+    withRetry(async () => { calls++; throw error; }, CONFIG, { sleep: async () => {} }),
+    (thrown) => thrown === error
+  );
+  assert.equal(calls, 1);
+});
+
+test('withRetry gives up after maxAttempts and rethrows the last error', async () => {
+  let calls = 0;
+  await assert.rejects(
+    withRetry(async (attempt) => { calls++; throw new Error(`fail ${attempt}`); }, CONFIG, { sleep: async () => {} }),
+    /fail 3/
+  );
+  assert.equal(calls, 3);
+});
+
+test('withRetry waits at least Retry-After, but not beyond maxDelay', async () => {
+  const delays: number[] = [];
+  let calls = 0;
+  await withRetry(
+    async () => {
+      if (calls++ === 0) throw axiosLikeError(429, { 'retry-after': '7' });
+      return 'ok';
+    },
+    CONFIG,
+    { sleep: async (ms) => { delays.push(ms); }, random: () => 0 }
+  );
+  assert.deepEqual(delays, [7000]);
+
+  calls = 0;
+  await assert.rejects(
+    withRetry(async () => { calls++; throw axiosLikeError(503, { 'retry-after': '120' }); }, CONFIG, { sleep: async () => {} })
+  );
+  assert.equal(calls, 1);
+});
@@ -0,0 +1,223 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  parseSearchLimit,
+  parseTimeRange,
+  parseDomainList,
+  filterResultsByDomain,
+  scopeQuery,
+  parseSearchConfig,
+  parseSearxngResults,
+  parseHtmlResults,
+  resolveResultLink,
+  createSearchProvider,
+  searchQueryFromPrompt,
+  formatSearchContext,
+  DEFAULT_HTML_SELECTORS,
+  DEFAULT_SEARCH_HTML_URL,
+  HtmlSearchProvider,
+  SearxngSearchProvider,
+} from '../src/search.js';
+
+const DDG_HTML = `<html><body>
+  <div class="result result--ad"><a class="result__a" href="https://ads.example.com/">Sponsored</a></div>
+  <div class="result">
+    <h2><a class="result__a" href="//duckduckgo.com/l/?uddg=https%3A%2F%2Fexample.com%2Fa&amp;rut=x">Example  A</a></h2>
+    <a class="result__snippet">First
+      result</a>
+  </div>
+  <div class="result"><a class="result__a" href="https://example.org/b">Example B</a></div>
+  <div class="result"><a class="result__a" href="https://example.com/a#section">Duplicate</a></div>
+  <div class="result"><a class="result__a" href="javascript:void(0)">Broken</a></div>
+</body></html>`;
+
+test('parseSearchLimit defaults and validates the range', () => {
+  assert.equal(parseSearchLimit(undefined), 5);
+  assert.equal(parseSearchLimit(10), 10);
+  assert.throws(() => parseSearchLimit(0), /between 1 and 20/);
+  assert.throws(() => parseSearchLimit(2.5), /between 1 and 20/);
+  assert.throws(() => parseSearchLimit('3'), /between 1 and 20/);
+  assert.equal(parseSearchLimit(undefined, 3, 10), 3);
+  assert.throws(() => parseSearchLimit(11, 3, 10), /between 1 and 10/);
+});
+
+test('parseTimeRange accepts the named periods only', () => {
+  assert.equal(parseTimeRange(undefined), undefined);
+  assert.equal(parseTimeRange('week'), 'week');
+  assert.throws(() => parseTimeRange('hour'), /day, week, month, year/);
+});
+
+test('parseDomainList normalizes domain names', () => {
+  assert.deepEqual(parseDomainList(undefined, 'includeDomains'), []);
+  assert.deepEqual(parseDomainList([' Example.COM ', '*.docs.test', 'https://www.site.test:8080/path'], 'includeDomains'), [
+    'example.com',
+    'docs.test',
+    'site.test',
+  ]);
+  assert.throws(() => parseDomainList('example.com', 'excludeDomains'), /Invalid excludeDomains/);
+  assert.throws(() => parseDomainList([''], 'excludeDomains'), /Invalid excludeDomains/);
+});
+
+test('filterResultsByDomain applies include and exclude lists with subdomains', () => {
+  const results = [
+    { title: 'a', url: 'https://example.com/a' },
+    { title: 'b', url: 'https://blog.example.com/b' },
+    { title: 'c', url: 'https://other.test/c' },
+    { title: 'd', url: 'https://notexample.com/d' },
+  ];
+  assert.deepEqual(
+    filterResultsByDomain(results, ['example.com'], []).map((result) => result.title),
+    ['a', 'b']
+  );
+  assert.deepEqual(
+    filterResultsByDomain(results, [], ['example.com']).map((result) => result.title),
+    ['c', 'd']
+  );
+  assert.deepEqual(
+    filterResultsByDomain(results, ['example.com'], ['blog.example.com']).map((result) => result.title),
+    ['a']
+  );
+});
+
+test('scopeQuery adds site: for a single included domain', () => {
+  assert.equal(scopeQuery('pricing', ['example.com']), 'pricing site:example.com');
+  assert.equal(scopeQuery('pricing', ['a.test', 'b.test']), 'pricing');
+  assert.equal(scopeQuery('pricing', []), 'pricing');
+});
+
+test('parseSearchConfig leaves search disabled unless a known provider is set', () => {
+  assert.equal(parseSearchConfig({}).provider, undefined);
+  assert.equal(parseSearchConfig({ SEARCH_PROVIDER: 'bing' }).provider, undefined);
+
+  const config = parseSearchConfig({
+    SEARCH_PROVIDER: ' SearxNG ',
+    SEARXNG_URL: 'http://localhost:8888',
+    SEARCH_MAX_RESULTS: '50',
+    SEARCH_SCRAPE_RESULTS: 'x',
+    SEARCH_USE_PROXY: 'true',
+  });
+  assert.equal(config.provider, 'searxng');
+  assert.equal(config.searxngUrl, 'http://localhost:8888');
+  assert.equal(config.maxResults, 20);
+  assert.equal(config.scrapeResults, 3);
+  assert.equal(config.useProxy, true);
+  assert.equal(config.htmlUrl, DEFAULT_SEARCH_HTML_URL);
+  assert.deepEqual(config.htmlSelectors, { ...DEFAULT_HTML_SELECTORS, link: undefined });
+});
+
+test('parseSearxngResults maps title, url and content and dedupes', () => {
+  const body = JSON.stringify({
+    results: [
+      { title: 'One', url: 'https://example.com/1', content: ' first\nhit ' },
+      { title: 'One again', url: 'https://example.com/1/' },
+      { title: 'FTP', url: 'ftp://example.com/file' },
+      { title: 'Two', url: 'https://example.com/2', content: '' },
+      { title: 'Three', url: 'https://example.com/3' },
+    ],
+  });
+  assert.deepEqual(parseSearxngResults(body, 2), [
+    { title: 'One', url: 'https://example.com/1', snippet: 'first hit' },
+    { title: 'Two', url: 'https://example.com/2' },
+  ]);
+});
+
+test('parseSearxngResults explains non-JSON responses', () => {
+  assert.throws(() => parseSearxngResults('<html>', 5), /json format enabled/);
+  assert.throws(() => parseSearxngResults('{}', 5), /no results array/);
+});
+
+test('resolveResultLink unwraps engine redirects and resolves relative links', () => {
+  const page = 'https://html.duckduckgo.com/html/?q=test';
+  assert.equal(resolveResultLink('//duckduckgo.com/l/?uddg=https%3A%2F%2Fexample.com%2Fa', page), 'https://example.com/a');
+  assert.equal(
+    resolveResultLink('/url?q=https://example.com/b&sa=U', 'https://www.google.com/search?q=test'),
+    'https://example.com/b'
+  );
+  assert.equal(resolveResultLink('https://example.com/?q=other', page), 'https://example.com/?q=other');
+  assert.equal(resolveResultLink('/about', 'https://search.example.net/?q=x'), 'https://search.example.net/about');
+});
+
+test('parseHtmlResults reads organic results with the default selectors', () => {
+  assert.deepEqual(parseHtmlResults(DDG_HTML, 'https://html.duckduckgo.com/html/?q=x', DEFAULT_HTML_SELECTORS, 10), [
+    { title: 'Example A', url: 'https://example.com/a', snippet: 'First result' },
+    { title: 'Example B', url: 'https://example.org/b' },
+  ]);
+});
+
+test('parseHtmlResults honours a separate link selector', () => {
+  const html = '<ol><li class="r"><h3>Title</h3><cite><a href="https://example.com/x">x</a></cite></li></ol>';
+  assert.deepEqual(parseHtmlResults(html, 'https://search.test/', { result: 'li.r', title: 'h3', link: 'cite' }, 5), [
+    { title: 'Title', url: 'https://example.com/x' },
+  ]);
+});
+
+test('createSearchProvider builds the configured provider', () => {
+  const fetchText = async () => '';
+  const base = parseSearchConfig({});
+  assert.equal(createSearchProvider(base, fetchText), undefined);
+  assert.ok(createSearchProvider({ ...base, provider: 'html' }, fetchText) instanceof HtmlSearchProvider);
+  assert.ok(
+    createSearchProvider({ ...base, provider: 'searxng', searxngUrl: 'http://localhost:8888' }, fetchText) instanceof
+      SearxngSearchProvider
+  );
+  assert.throws(() => createSearchProvider({ ...base, provider: 'searxng' }, fetchText), /SEARXNG_URL/);
+  assert.throws(
+    () => createSearchProvider({ ...base, provider: 'html', htmlUrl: 'https://search.test/' }, fetchText),
+    /\{query\} placeholder/
+  );
+});
+
+test('SearxngSearchProvider requests the JSON API', async () => {
+  const requested: string[] = [];
+  const provider = new SearxngSearchProvider('http://localhost:8888/searx', async (url) => {
+    requested.push(url);
+    return JSON.stringify({ results: [{ title: 'Hit', url: 'https://example.com/' }] });
+  });
+  assert.deepEqual(await provider.search({ query: 'a&b c', limit: 5 }), [{ title: 'Hit', url: 'https://example.com/' }]);
+  await provider.search({ query: 'news', limit: 5, timeRange: 'month' });
+  assert.deepEqual(requested, [
+    'http://localhost:8888/searx/search?q=a%26b+c&format=json',
+    'http://localhost:8888/searx/search?q=news&format=json&time_range=month',
+  ]);
+});
+
+test('HtmlSearchProvider fills the URL template', async () => {
+  const requested: string[] = [];
+  const provider = new HtmlSearchProvider(DEFAULT_SEARCH_HTML_URL, DEFAULT_HTML_SELECTORS, async (url) => {
+    requested.push(url);
+    return DDG_HTML;
+  });
+  const results = await provider.search({ query: 'a&b c', limit: 1 });
+  await provider.search({ query: 'news', limit: 1, timeRange: 'week' });
+  assert.deepEqual(requested, [
+    'https://html.duckduckgo.com/html/?q=a%26b%20c&df=',
+    'https://html.duckduckgo.com/html/?q=news&df=w',
+  ]);
+  assert.deepEqual(results.map((result) => result.url), ['https://example.com/a']);
+});
+
+test('HtmlSearchProvider rejects timeRange without a template placeholder', async () => {
+  const provider = new HtmlSearchProvider('https://search.test/?q={query}', DEFAULT_HTML_SELECTORS, async () => '');
+  await assert.rejects(provider.search({ query: 'x', limit: 1, timeRange: 'day' }), /no \{timeRange\} placeholder/);
+});
+
+test('searchQueryFromPrompt collapses whitespace and cuts long prompts at a word', () => {
+  assert.equal(searchQueryFromPrompt('  latest\n\tprice  of X '), 'latest price of X');
+  const query = searchQueryFromPrompt('word '.repeat(100));
+  assert.ok(query.length <= 200);
+  assert.ok(query.endsWith('word'));
+});
+
+test('formatSearchContext numbers pages and caps their content', () => {
+  assert.equal(
+    formatSearchContext(
+      [
+        { url: 'https://a.test/', title: 'A', content: 'abcdef' },
+        { url: 'https://b.test/', title: '', content: 'xyz' },
+      ],
+      4
+    ),
+    '[1] A\nURL: https://a.test/\nabcd\n\n[2] https://b.test/\nURL: https://b.test/\nxyz'
+  );
+});
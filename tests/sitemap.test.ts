@@ -0,0 +1,111 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { gzipSync } from 'node:zlib';
+
+import {
+  parseRobotsSitemaps,
+  decodeSitemapBody,
+  SitemapTooLargeError,
+  parseSitemap,
+  filterBySearch,
+  mapSite,
+} from '../src/sitemap.js';
+
+const URLSET = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>https://example.com/</loc></url>
+  <url><loc> https://example.com/blog/post-1 </loc></url>
+  <url><loc>https://example.com/docs/?utm_source=x#top</loc></url>
+</urlset>`;
+
+const INDEX = `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>https://example.com/sitemap-posts.xml.gz</loc></sitemap>
+</sitemapindex>`;
+
+test('parseRobotsSitemaps reads Sitemap lines case-insensitively', () => {
+  const robots = 'User-agent: *\nDisallow: /admin\nSitemap: https://example.com/a.xml\nsitemap:/b.xml\n';
+  assert.deepEqual(parseRobotsSitemaps(robots, 'https://example.com'), [
+    'https://example.com/a.xml',
+    'https://example.com/b.xml',
+  ]);
+});
+
+test('decodeSitemapBody gunzips gzip payloads and passes plain text through', () => {
+  assert.equal(decodeSitemapBody(gzipSync(Buffer.from(URLSET))), URLSET);
+  assert.equal(decodeSitemapBody(Buffer.from(URLSET)), URLSET);
+});
+
+test('decodeSitemapBody refuses gzip payloads that decompress past the cap', () => {
+  const bomb = gzipSync(Buffer.alloc(10000, 'a'));
+  assert.throws(() => decodeSitemapBody(bomb, 1000), SitemapTooLargeError);
+  assert.equal(decodeSitemapBody(gzipSync(Buffer.from(URLSET)), URLSET.length), URLSET);
+});
+
+test('parseSitemap separates page URLs from nested sitemaps', () => {
+  assert.deepEqual(parseSitemap(URLSET).urls, [
+    'https://example.com/',
+    'https://example.com/blog/post-1',
+    'https://example.com/docs/?utm_source=x#top',
+  ]);
+  assert.deepEqual(parseSitemap(INDEX), {
+    urls: [],
+    sitemaps: ['https://example.com/sitemap-posts.xml.gz'],
+  });
+});
+
+test('filterBySearch keeps matches and ranks by matched terms', () => {
+  const urls = ['https://x.com/docs/api', 'https://x.com/blog/api', 'https://x.com/about'];
+  assert.deepEqual(filterBySearch(urls, 'BLOG api'), ['https://x.com/blog/api', 'https://x.com/docs/api']);
+  assert.deepEqual(filterBySearch(urls, '  '), urls);
+});
+
+function deps(resources: Record<string, string | Buffer>, links: string[] = []) {
+  return {
+    fetched: [] as string[],
+    async fetchResource(url: string) {
+      this.fetched.push(url);
+      const body = resources[url];
+      return body === undefined ? undefined : Buffer.isBuffer(body) ? body : Buffer.from(body);
+    },
+    async harvestLinks() {
+      return links;
+    },
+  };
+}
+
+test('mapSite follows robots.txt and gzipped sitemap indexes', async () => {
+  const d = deps({
+    'https://example.com/robots.txt': 'Sitemap: https://example.com/index.xml',
+    'https://example.com/index.xml': INDEX,
+    'https://example.com/sitemap-posts.xml.gz': gzipSync(Buffer.from(URLSET)),
+  });
+  const result = await mapSite('https://example.com', {}, d);
+  assert.equal(result.source, 'sitemap');
+  assert.deepEqual(result.urls, [
+    'https://example.com/',
+    'https://example.com/blog/post-1',
+    'https://example.com/docs',
+  ]);
+  assert.deepEqual(result.sitemaps, [
+    'https://example.com/index.xml',
+    'https://example.com/sitemap-posts.xml.gz',
+  ]);
+});
+
+test('mapSite drops off-site URLs and applies search and limit', async () => {
+  const d = deps({
+    'https://example.com/sitemap.xml': URLSET.replace('https://example.com/', 'https://other.com/'),
+  });
+  const result = await mapSite('https://example.com', { search: 'blog docs', limit: 1 }, d);
+  assert.equal(result.urls.length, 1);
+  assert.ok(!result.urls.some((url) => url.includes('other.com')));
+});
+
+test('mapSite falls back to homepage links when no sitemap exists', async () => {
+  const d = deps({}, ['https://example.com/a', 'https://elsewhere.com/b']);
+  const result = await mapSite('https://example.com/', {}, d);
+  assert.equal(result.source, 'links');
+  assert.deepEqual(result.urls, ['https://example.com/', 'https://example.com/a']);
+  assert.deepEqual(d.fetched, ['https://example.com/robots.txt', 'https://example.com/sitemap.xml']);
+});